@@ -0,0 +1,94 @@
+// Service worker: keeps the app shell available offline, shows Web Push notifications
+// and opens their report when clicked
+
+const SHELL_CACHE = "civic-shell-v1";
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages come from the network when possible so deploys show up straight away, falling back
+// to the cached shell offline. Built assets are content-hashed, so the cache never goes stale.
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put("/", copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+
+  if (!url.pathname.startsWith("/assets/") && !SHELL_URLS.includes(url.pathname)) return;
+
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+          }
+          return response;
+        })
+    )
+  );
+});
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Civic Issue Reporter", {
+      body: data.body || "",
+      data: { url: data.url || "/" },
+    })
+  );
+});
+
+// Focus an open tab on the report, or open a new one. Only tabs this worker controls
+// can be navigated; tabs opened before it activated are left alone.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window" }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (!client) return self.clients.openWindow(url);
+
+      return client
+        .navigate(url)
+        .then((navigated) => (navigated || client).focus())
+        .catch(() => self.clients.openWindow(url));
+    })
+  );
+});
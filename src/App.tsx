@@ -10,7 +10,15 @@ import UserDashboard from "./pages/UserDashboard";
 import UserReports from "./pages/UserReports";
 import AdminDashboard from "./pages/AdminDashboard";
 import ReportDetails from "./pages/ReportDetails";
+import TaxonomySettings from "./pages/TaxonomySettings";
+import RoutingRules from "./pages/RoutingRules";
+import SlaPolicies from "./pages/SlaPolicies";
+import MyWorkOrders from "./pages/MyWorkOrders";
+import Crews from "./pages/Crews";
 import NotFound from "./pages/NotFound";
+import RequireRole from "./components/RequireRole";
+import { AuthProvider } from "./hooks/use-auth";
+import { ReportOutboxProvider } from "./hooks/use-report-outbox";
 
 const queryClient = new QueryClient();
 
@@ -23,21 +31,30 @@ const App = () => {
 
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Login />} />
-            <Route path="/user-dashboard" element={<UserDashboard />} />
-            <Route path="/user-reports" element={<UserReports />} />
-            <Route path="/admin-dashboard" element={<AdminDashboard />} />
-            <Route path="/report/:id" element={<ReportDetails />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <AuthProvider>
+        <ReportOutboxProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Login />} />
+                <Route path="/user-dashboard" element={<RequireRole><UserDashboard /></RequireRole>} />
+                <Route path="/user-reports" element={<RequireRole><UserReports /></RequireRole>} />
+                <Route path="/admin-dashboard" element={<RequireRole roles={["staff", "admin"]}><AdminDashboard /></RequireRole>} />
+                <Route path="/report/:id" element={<RequireRole><ReportDetails /></RequireRole>} />
+                <Route path="/my-work-orders" element={<RequireRole roles={["staff", "admin"]}><MyWorkOrders /></RequireRole>} />
+                <Route path="/admin/taxonomy" element={<RequireRole roles={["admin"]}><TaxonomySettings /></RequireRole>} />
+                <Route path="/admin/routing" element={<RequireRole roles={["admin"]}><RoutingRules /></RequireRole>} />
+                <Route path="/admin/sla" element={<RequireRole roles={["admin"]}><SlaPolicies /></RequireRole>} />
+                <Route path="/admin/crews" element={<RequireRole roles={["admin"]}><Crews /></RequireRole>} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </ReportOutboxProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 };
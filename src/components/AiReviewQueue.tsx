@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import BoxEditor from "@/components/BoxEditor";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { buildTrainingDataset, downloadFile } from "@/lib/datasets";
+import { DEFAULT_REVIEW_THRESHOLD, fetchReviewQueue, saveLabeledExample } from "@/lib/review";
+import type { DatasetFormat, LabeledBox, ReviewQueueItem } from "@/types/review";
+import { toast } from "sonner";
+import { Ban, Brain, CheckCircle2, FileDown, PencilLine } from "lucide-react";
+
+const THRESHOLDS = [0.4, 0.6, 0.8];
+
+// Low-confidence photos for staff to confirm or correct, building the retraining set
+const AiReviewQueue = () => {
+  const { user } = useAuth();
+  const { categories, getCategoryLabel } = useTaxonomy();
+  const [threshold, setThreshold] = useState(DEFAULT_REVIEW_THRESHOLD);
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<ReviewQueueItem | null>(null);
+  const [category, setCategory] = useState<string>("");
+  const [boxes, setBoxes] = useState<LabeledBox[]>([]);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState<DatasetFormat | null>(null);
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setLoading(true);
+      try {
+        const queue = await fetchReviewQueue(threshold);
+        setItems(queue);
+        selectItem(queue[0] ?? null);
+      } catch (error) {
+        console.error('Error fetching review queue:', error);
+        toast.error('Failed to load the AI review queue');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadQueue();
+  }, [threshold]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Start from the model's own boxes for this photo, so confirming is one click
+  const selectItem = async (item: ReviewQueueItem | null) => {
+    setSelected(item);
+    setBoxes([]);
+    setImageSize(null);
+    if (!item) return;
+
+    const fallbackLabel = item.ai_category ?? item.report_category;
+    setCategory(fallbackLabel);
+
+    try {
+      const { data, error } = await supabase
+        .from('report_detections')
+        .select('label, bbox_x, bbox_y, bbox_width, bbox_height')
+        .eq('media_id', item.media_id)
+        .not('bbox_x', 'is', null);
+
+      if (error) throw error;
+      setBoxes(
+        data.map((row) => ({
+          // Model class names that are not categories take the photo's category
+          label: categories.some((c) => c.slug === row.label) ? row.label : fallbackLabel,
+          x: row.bbox_x ?? 0,
+          y: row.bbox_y ?? 0,
+          width: row.bbox_width ?? 0,
+          height: row.bbox_height ?? 0,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching detections:', error);
+    }
+  };
+
+  const handleSave = async (rejected: boolean) => {
+    if (!selected || !user) return;
+
+    setSaving(true);
+    try {
+      const verdict = await saveLabeledExample(selected, {
+        category: rejected ? null : category,
+        boxes,
+        imageWidth: imageSize?.width ?? null,
+        imageHeight: imageSize?.height ?? null,
+        reviewerId: user.id,
+      });
+
+      toast.success(
+        verdict === 'rejected' ? 'Photo left out of training' : verdict === 'corrected' ? 'Correction saved' : 'AI result confirmed'
+      );
+
+      const remaining = items.filter((item) => item.media_id !== selected.media_id);
+      const index = items.findIndex((item) => item.media_id === selected.media_id);
+      setItems(remaining);
+      selectItem(remaining[Math.min(index, remaining.length - 1)] ?? null);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast.error('Failed to save review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = async (format: DatasetFormat) => {
+    setExporting(format);
+    const loadingToast = toast.loading('Building training dataset...');
+    try {
+      const { archive, exported, skipped } = await buildTrainingDataset(format, categories.map((c) => c.slug));
+      downloadFile(archive, `civic-dataset-${format}-${new Date().toISOString().split('T')[0]}.zip`, 'application/zip');
+      toast.success(
+        `Exported ${exported} photo${exported === 1 ? '' : 's'}` +
+          (skipped > 0 ? ` (${skipped} reviewed without boxes left out)` : ''),
+        { id: loadingToast }
+      );
+    } catch (error) {
+      console.error('Error exporting dataset:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to export dataset: ${errorMessage}`, { id: loadingToast });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const isCorrection = !!selected && category !== selected.ai_category;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Brain className="w-5 h-5" />
+              AI Review Queue
+            </CardTitle>
+            <CardDescription>
+              Confirm or correct photos the model was unsure about, plus a few random spot checks. Reviewed photos become training data.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(threshold)} onValueChange={(value) => setThreshold(Number(value))}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {THRESHOLDS.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    Below {Math.round(value * 100)}% confidence
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" disabled={!!exporting} onClick={() => handleExport('yolo')}>
+              <FileDown className="w-4 h-4 mr-1" />
+              {exporting === 'yolo' ? 'Exporting...' : 'YOLO'}
+            </Button>
+            <Button variant="outline" size="sm" disabled={!!exporting} onClick={() => handleExport('coco')}>
+              <FileDown className="w-4 h-4 mr-1" />
+              {exporting === 'coco' ? 'Exporting...' : 'COCO'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-12">Loading review queue...</p>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <CheckCircle2 className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>Nothing to review</p>
+            <p className="text-sm">Every photo below this confidence has been reviewed.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ScrollArea className="h-[560px] pr-2">
+              <div className="space-y-2">
+                {items.map((item) => (
+                  <button
+                    key={item.media_id}
+                    type="button"
+                    onClick={() => selectItem(item)}
+                    className={`w-full flex gap-2 p-2 rounded-lg border text-left transition-colors ${
+                      selected?.media_id === item.media_id ? 'border-primary bg-accent' : 'hover:bg-accent/50'
+                    }`}
+                  >
+                    <img src={item.url} alt="Queued photo" className="w-14 h-14 object-cover rounded" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs font-medium truncate">
+                        {item.ai_category ? getCategoryLabel(item.ai_category) : 'Not classified'}
+                      </p>
+                      {item.spot_check && (
+                        <Badge variant="outline" className="text-xs">Spot check</Badge>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {item.ai_confidence !== null ? `${Math.round(item.ai_confidence * 100)}% confidence` : 'No score'}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{item.description}</p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="md:col-span-2 space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <Badge variant="outline">Report #{selected.report_id.slice(0, 8)}</Badge>
+                  {selected.ai_model_version && <Badge variant="secondary">{selected.ai_model_version}</Badge>}
+                  {selected.ai_labels.map((label) => (
+                    <Badge key={label} variant="outline">{label}</Badge>
+                  ))}
+                </div>
+
+                <BoxEditor
+                  src={selected.url}
+                  boxes={boxes}
+                  onChange={setBoxes}
+                  categories={categories}
+                  drawLabel={category}
+                  onImageLoad={(width, height) => setImageSize({ width, height })}
+                />
+
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="flex-1 min-w-48 space-y-1">
+                    <Label className="text-xs">Category</Label>
+                    <Select value={category} onValueChange={setCategory}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((c) => (
+                          <SelectItem key={c.slug} value={c.slug}>
+                            {c.icon} {c.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button variant="outline" disabled={saving} onClick={() => handleSave(true)}>
+                    <Ban className="w-4 h-4 mr-1" />
+                    Not usable
+                  </Button>
+                  <Button disabled={saving || !category} onClick={() => handleSave(false)}>
+                    {isCorrection ? <PencilLine className="w-4 h-4 mr-1" /> : <CheckCircle2 className="w-4 h-4 mr-1" />}
+                    {isCorrection ? 'Save Correction' : 'Confirm'}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AiReviewQueue;
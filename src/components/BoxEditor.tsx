@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getLabelColor } from "@/lib/detections";
+import type { Category } from "@/types/report";
+import type { LabeledBox } from "@/types/review";
+import type { BoundingBox } from "@/types/detection";
+import { Trash2 } from "lucide-react";
+
+interface BoxEditorProps {
+  src: string;
+  boxes: LabeledBox[];
+  onChange: (boxes: LabeledBox[]) => void;
+  categories: Category[];
+  // Label given to newly drawn boxes
+  drawLabel: string;
+  onImageLoad?: (width: number, height: number) => void;
+}
+
+// Boxes smaller than this are taken as a stray click rather than a drawn box
+const MIN_BOX_SIZE = 0.01;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Drag on the photo to draw a box; relabel or remove boxes from the list below it
+const BoxEditor = ({ src, boxes, onChange, categories, drawLabel, onImageLoad }: BoxEditorProps) => {
+  const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart(toPoint(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!start) return;
+    const point = toPoint(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width > MIN_BOX_SIZE && draft.height > MIN_BOX_SIZE) {
+      onChange([...boxes, { ...draft, label: drawLabel }]);
+    }
+    setStart(null);
+    setDraft(null);
+  };
+
+  const updateLabel = (index: number, label: string) =>
+    onChange(boxes.map((box, i) => (i === index ? { ...box, label } : box)));
+
+  const shown = draft ? [...boxes, { ...draft, label: drawLabel }] : boxes;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center rounded-lg bg-muted">
+        <div
+          className="relative max-w-full cursor-crosshair select-none touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <img
+            src={src}
+            alt="Photo under review"
+            draggable={false}
+            className="block max-h-[400px] max-w-full object-contain"
+            onLoad={(e) => onImageLoad?.(e.currentTarget.naturalWidth, e.currentTarget.naturalHeight)}
+          />
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+          >
+            {shown.map((box, index) => (
+              <rect
+                key={index}
+                x={box.x * 100}
+                y={box.y * 100}
+                width={box.width * 100}
+                height={box.height * 100}
+                fill={getLabelColor(box.label)}
+                fillOpacity={0.15}
+                stroke={getLabelColor(box.label)}
+                strokeWidth={2}
+                strokeDasharray={index === boxes.length ? "4 2" : undefined}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        </div>
+      </div>
+
+      {boxes.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center">
+          No boxes yet. Drag on the photo around each issue to add one.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {boxes.map((box, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: getLabelColor(box.label) }} />
+              <Select value={box.label} onValueChange={(label) => updateLabel(index, label)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.slug} value={category.slug}>
+                      {category.icon} {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => onChange(boxes.filter((_, i) => i !== index))}
+                title="Remove box"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BoxEditor;
@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { IssueCategory } from "@/types/report";
+
+interface CategoryBadgeProps {
+  category: IssueCategory;
+  className?: string;
+}
+
+const CategoryBadge = ({ category, className }: CategoryBadgeProps) => {
+  const { getCategoryColor, getCategoryIcon, getCategoryLabel } = useTaxonomy();
+  const color = getCategoryColor(category);
+
+  return (
+    <Badge
+      variant="outline"
+      className={className}
+      // Tinted background from the category's configured colour
+      style={{ backgroundColor: `${color}1a`, color, borderColor: `${color}66` }}
+    >
+      <span className="mr-1">{getCategoryIcon(category)}</span>
+      {getCategoryLabel(category)}
+    </Badge>
+  );
+};
+
+export default CategoryBadge;
@@ -0,0 +1,65 @@
+import { getLabelColor } from "@/lib/detections";
+import type { Detection } from "@/types/detection";
+
+interface DetectionOverlayProps {
+  src: string;
+  alt: string;
+  detections: Detection[];
+  showBoxes: boolean;
+}
+
+// A photo with the detector's boxes drawn over it. The wrapper shrinks to the
+// rendered image so box fractions line up with the photo rather than the letterbox.
+const DetectionOverlay = ({ src, alt, detections, showBoxes }: DetectionOverlayProps) => {
+  const boxed = showBoxes
+    ? detections.flatMap(({ bbox, ...detection }) => (bbox ? [{ ...detection, bbox }] : []))
+    : [];
+
+  return (
+    <div className="h-[500px] flex items-center justify-center rounded-lg bg-muted">
+      <div className="relative max-w-full">
+        <img src={src} alt={alt} className="block max-h-[500px] max-w-full object-contain" />
+        {boxed.length > 0 && (
+          <>
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+            >
+              {boxed.map((detection, index) => (
+                <rect
+                  key={index}
+                  x={detection.bbox.x * 100}
+                  y={detection.bbox.y * 100}
+                  width={detection.bbox.width * 100}
+                  height={detection.bbox.height * 100}
+                  fill="none"
+                  stroke={getLabelColor(detection.label)}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+            </svg>
+            {boxed.map((detection, index) => (
+              <span
+                key={index}
+                className="absolute px-1 text-[10px] font-semibold text-white rounded-sm whitespace-nowrap pointer-events-none"
+                style={{
+                  left: `${detection.bbox.x * 100}%`,
+                  top: `${detection.bbox.y * 100}%`,
+                  backgroundColor: getLabelColor(detection.label),
+                  // Sit above the box unless it touches the top edge
+                  transform: detection.bbox.y > 0.05 ? 'translateY(-100%)' : undefined,
+                }}
+              >
+                {detection.label} {Math.round(detection.score * 100)}%
+              </span>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DetectionOverlay;
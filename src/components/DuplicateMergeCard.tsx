@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import StatusBadge from "@/components/StatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { findDuplicateCandidates, mergeReports } from "@/lib/duplicates";
+import type { DuplicateCandidate, IssueCategory } from "@/types/report";
+import { toast } from "sonner";
+import { Link2, MapPin } from "lucide-react";
+
+interface DuplicateMergeCardProps {
+  report: {
+    id: string;
+    category: IssueCategory;
+    latitude: number;
+    longitude: number;
+    image_hash: string | null;
+  };
+}
+
+interface MergedReport {
+  id: string;
+  description: string;
+  created_at: string;
+}
+
+// Lets staff fold nearby duplicates into this report; their reporters become followers
+const DuplicateMergeCard = ({ report }: DuplicateMergeCardProps) => {
+  const navigate = useNavigate();
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [merged, setMerged] = useState<MergedReport[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [merging, setMerging] = useState(false);
+
+  const fetchDuplicates = async () => {
+    try {
+      const [found, { data, error }] = await Promise.all([
+        findDuplicateCandidates({
+          category: report.category,
+          latitude: report.latitude,
+          longitude: report.longitude,
+          imageHash: report.image_hash,
+          excludeId: report.id,
+        }),
+        supabase
+          .from('reports')
+          .select('id, description, created_at')
+          .eq('duplicate_of', report.id)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (error) throw error;
+      setCandidates(found);
+      setMerged(data as MergedReport[]);
+      setSelected([]);
+    } catch (error) {
+      console.error('Error fetching duplicates:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [report.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected((current) => checked ? [...current, id] : current.filter((s) => s !== id));
+  };
+
+  const handleMerge = async () => {
+    if (selected.length === 0) return;
+
+    setMerging(true);
+    try {
+      const count = await mergeReports(report.id, selected);
+      toast.success(`Merged ${count} report${count === 1 ? "" : "s"} into this one`);
+      fetchDuplicates();
+    } catch (error) {
+      console.error('Error merging reports:', error);
+      toast.error('Failed to merge reports');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="w-5 h-5" />
+          Duplicates
+        </CardTitle>
+        <CardDescription>
+          Open reports of the same category nearby. Merging closes them as duplicates and
+          their reporters follow this report instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {candidates.length === 0 && (
+          <p className="text-sm text-muted-foreground">No likely duplicates nearby.</p>
+        )}
+        {candidates.map((candidate) => (
+          <label key={candidate.id} className="flex gap-3 rounded-lg border p-3 text-sm cursor-pointer">
+            <Checkbox
+              checked={selected.includes(candidate.id)}
+              onCheckedChange={(checked) => toggleSelected(candidate.id, checked === true)}
+              className="mt-1"
+            />
+            <img
+              src={candidate.image_url}
+              alt="Possible duplicate"
+              className="w-14 h-14 object-cover rounded bg-muted shrink-0"
+            />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">#{candidate.id.slice(0, 8)}</span>
+                <StatusBadge status={candidate.status} />
+              </div>
+              <p className="text-xs text-muted-foreground line-clamp-2">{candidate.description}</p>
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {Math.round(candidate.distance_m)} m away
+                {candidate.similar_image && " · similar photo"}
+              </p>
+            </div>
+          </label>
+        ))}
+        {candidates.length > 0 && (
+          <Button className="w-full" onClick={handleMerge} disabled={merging || selected.length === 0}>
+            {merging ? "Merging..." : `Merge ${selected.length} into this report`}
+          </Button>
+        )}
+
+        {merged.length > 0 && (
+          <div className="space-y-2 border-t pt-3">
+            <p className="text-sm font-medium">Merged into this report</p>
+            {merged.map((duplicate) => (
+              <button
+                key={duplicate.id}
+                type="button"
+                onClick={() => navigate(`/report/${duplicate.id}`)}
+                className="block w-full text-left text-xs text-muted-foreground hover:text-foreground"
+              >
+                #{duplicate.id.slice(0, 8)} · {new Date(duplicate.created_at).toLocaleDateString()} · {duplicate.description}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateMergeCard;
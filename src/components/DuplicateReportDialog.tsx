@@ -0,0 +1,84 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import StatusBadge from "@/components/StatusBadge";
+import type { DuplicateCandidate } from "@/types/report";
+import { Image as ImageIcon, MapPin } from "lucide-react";
+
+interface DuplicateReportDialogProps {
+  candidates: DuplicateCandidate[];
+  open: boolean;
+  onSupport: (reportId: string) => void;
+  onSubmitAnyway: () => void;
+  onCancel: () => void;
+}
+
+// Asks a citizen to join a matching open report instead of filing a duplicate
+const DuplicateReportDialog = ({ candidates, open, onSupport, onSubmitAnyway, onCancel }: DuplicateReportDialogProps) => {
+  const [first] = candidates;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {first ? `This looks like report #${first.id.slice(0, 8)}` : "Similar reports nearby"}
+          </DialogTitle>
+          <DialogDescription>
+            Someone already reported a similar issue close by. Add your support to it instead, and you
+            will get its updates without creating a duplicate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {candidates.map((candidate) => (
+            <div key={candidate.id} className="flex gap-3 rounded-lg border p-3">
+              <img
+                src={candidate.image_url}
+                alt="Existing report"
+                className="w-20 h-20 object-cover rounded-md bg-muted shrink-0"
+              />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium">#{candidate.id.slice(0, 8)}</span>
+                  <StatusBadge status={candidate.status} />
+                </div>
+                <p className="text-xs text-muted-foreground line-clamp-2">{candidate.description}</p>
+                <p className="text-xs text-muted-foreground flex items-center gap-3">
+                  <span className="flex items-center gap-1">
+                    <MapPin className="w-3 h-3" />
+                    {Math.round(candidate.distance_m)} m away
+                  </span>
+                  {candidate.similar_image && (
+                    <span className="flex items-center gap-1">
+                      <ImageIcon className="w-3 h-3" />
+                      Similar photo
+                    </span>
+                  )}
+                  <span>{new Date(candidate.created_at).toLocaleDateString()}</span>
+                </p>
+                <Button size="sm" className="mt-1" onClick={() => onSupport(candidate.id)}>
+                  👍 This is it, add my support
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onSubmitAnyway}>
+            No, submit my report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateReportDialog;
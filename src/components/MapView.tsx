@@ -1,7 +1,9 @@
 import { useEffect, useRef, useState } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-import { Report } from "@/types/report";
+import { IssueStatus, Report } from "@/types/report";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { getStatusLabel, isClosedStatus } from "@/lib/reportStatus";
 import { Button } from "@/components/ui/button";
 import { Map, Satellite, Layers } from "lucide-react";
 
@@ -25,6 +27,17 @@ interface MapViewProps {
 
 type MapType = 'roadmap' | 'satellite' | 'hybrid' | 'terrain';
 
+// Popups are plain HTML, so status colors are Tailwind classes rather than StatusBadge
+const POPUP_STATUS_STYLES: Record<IssueStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  "in-progress": "bg-blue-100 text-blue-800 border-blue-300",
+  "on-hold": "bg-slate-100 text-slate-800 border-slate-300",
+  reopened: "bg-orange-100 text-orange-800 border-orange-300",
+  resolved: "bg-green-100 text-green-800 border-green-300",
+  rejected: "bg-red-100 text-red-800 border-red-300",
+  duplicate: "bg-purple-100 text-purple-800 border-purple-300",
+};
+
 const MapView = ({ reports = [], center, zoom = 13, height = "400px", onLocationDetect, showLayerControl = false }: MapViewProps) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
@@ -33,6 +46,7 @@ const MapView = ({ reports = [], center, zoom = 13, height = "400px", onLocation
   const locationDetectedRef = useRef(false);
   const currentTileLayerRef = useRef<L.TileLayer | null>(null);
   const [mapType, setMapType] = useState<MapType>('roadmap');
+  const { categories, getCategoryColor, getCategoryIcon, getCategoryLabel } = useTaxonomy();
 
   // Initialize map only once
   useEffect(() => {
@@ -127,13 +141,10 @@ const MapView = ({ reports = [], center, zoom = 13, height = "400px", onLocation
 
     // Define custom marker icons based on category
     const getMarkerIcon = (category: string, status: string) => {
-      let color = '#6b7280'; // default gray
-      if (category === 'pothole') color = '#f97316'; // orange
-      else if (category === 'garbage') color = '#10b981'; // green
-      else if (category === 'streetlight') color = '#3b82f6'; // blue
+      const color = getCategoryColor(category);
 
-      // Use different opacity for different statuses
-      const opacity = status === 'resolved' ? 0.5 : 1;
+      // Fade closed reports (resolved, rejected, duplicate)
+      const opacity = isClosedStatus(status) ? 0.5 : 1;
 
       return L.divIcon({
         className: 'custom-marker',
@@ -152,7 +163,7 @@ const MapView = ({ reports = [], center, zoom = 13, height = "400px", onLocation
             justify-content: center;
           ">
             <div style="transform: rotate(45deg); color: white; font-size: 16px; font-weight: bold;">
-              ${category === 'pothole' ? '🕳️' : category === 'garbage' ? '🗑️' : category === 'streetlight' ? '💡' : '⚠️'}
+              ${getCategoryIcon(category)}
             </div>
           </div>
         `,
@@ -167,25 +178,18 @@ const MapView = ({ reports = [], center, zoom = 13, height = "400px", onLocation
       const icon = getMarkerIcon(report.category, report.status);
       const marker = L.marker([report.location.lat, report.location.lon], { icon }).addTo(mapInstanceRef.current!);
 
-      const statusColor =
-        report.status === "pending" ? "bg-yellow-100 text-yellow-800 border-yellow-300" :
-          report.status === "in-progress" ? "bg-blue-100 text-blue-800 border-blue-300" :
-            "bg-green-100 text-green-800 border-green-300";
+      const statusColor = POPUP_STATUS_STYLES[report.status];
 
-      const categoryColor =
-        report.category === "pothole" ? "bg-orange-100 text-orange-800" :
-          report.category === "garbage" ? "bg-green-100 text-green-800" :
-            report.category === "streetlight" ? "bg-blue-100 text-blue-800" :
-              "bg-gray-100 text-gray-800";
+      const categoryColor = getCategoryColor(report.category);
 
       const popupContent = `
         <div class="p-3 min-w-[250px] max-w-[300px]">
           <div class="flex items-center gap-2 mb-2">
-            <span class="text-xs px-2 py-1 rounded font-semibold ${categoryColor}">
-              ${report.category.toUpperCase()}
+            <span class="text-xs px-2 py-1 rounded font-semibold" style="background-color: ${categoryColor}1a; color: ${categoryColor};">
+              ${getCategoryLabel(report.category).toUpperCase()}
             </span>
             <span class="text-xs px-2 py-1 rounded border font-medium ${statusColor}">
-              ${report.status.toUpperCase()}
+              ${getStatusLabel(report.status).toUpperCase()}
             </span>
           </div>
           
@@ -202,6 +206,8 @@ const MapView = ({ reports = [], center, zoom = 13, height = "400px", onLocation
           
           <div class="space-y-1 text-xs text-gray-600 mb-2">
             <div><strong>Department:</strong> ${report.department}</div>
+            ${report.severity ? `<div><strong>Severity:</strong> ${report.severity}</div>` : ''}
+            ${report.supportCount ? `<div><strong>Also affected:</strong> 👥 ${report.supportCount} ${report.supportCount === 1 ? 'citizen' : 'citizens'}</div>` : ''}
             <div><strong>Reported:</strong> ${new Date(report.createdAt).toLocaleDateString()}</div>
             <div><strong>Location:</strong> ${report.location.lat.toFixed(4)}, ${report.location.lon.toFixed(4)}</div>
           </div>
@@ -222,7 +228,7 @@ const MapView = ({ reports = [], center, zoom = 13, height = "400px", onLocation
 
       reportMarkersRef.current.push(marker);
     });
-  }, [reports]);
+  }, [reports, categories]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Detect user location only once when component mounts
   useEffect(() => {
@@ -0,0 +1,153 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { createMediaDrafts, getCoverImage, MAX_REPORT_MEDIA, MAX_VIDEO_SECONDS, moveMediaDraft, releaseMediaDrafts } from "@/lib/media";
+import type { MediaDraft } from "@/types/report";
+import { toast } from "sonner";
+import { Camera, ChevronLeft, ChevronRight, ImagePlus, Video, X } from "lucide-react";
+
+interface MediaPickerProps {
+  items: MediaDraft[];
+  onChange: (items: MediaDraft[]) => void;
+  disabled?: boolean;
+}
+
+// Photos and a short clip for a new report, which the citizen can reorder and remove
+const MediaPicker = ({ items, onChange, disabled }: MediaPickerProps) => {
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const galleryInputRef = useRef<HTMLInputElement>(null);
+  // Photos are resized before they are added; editing meanwhile would work on a stale list
+  const [preparing, setPreparing] = useState(false);
+  const busy = disabled || preparing;
+  const cover = getCoverImage(items);
+  const isFull = items.length >= MAX_REPORT_MEDIA;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // Let the same file be picked again after it was removed
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setPreparing(true);
+    try {
+      const { drafts, rejected } = await createMediaDrafts(files, items);
+      rejected.forEach((message) => toast.error(message));
+      if (drafts.length > 0) onChange([...items, ...drafts]);
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const handleRemove = (draft: MediaDraft) => {
+    releaseMediaDrafts([draft]);
+    onChange(items.filter((item) => item.id !== draft.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 hover:border-primary transition-colors">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={busy || isFull}
+            onClick={() => cameraInputRef.current?.click()}
+          >
+            <Camera className="w-4 h-4 mr-2" />
+            Take Photo
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={busy || isFull}
+            onClick={() => galleryInputRef.current?.click()}
+          >
+            <ImagePlus className="w-4 h-4 mr-2" />
+            Add Photos or Video
+          </Button>
+        </div>
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleFiles}
+          className="hidden"
+        />
+        <input
+          ref={galleryInputRef}
+          type="file"
+          accept="image/*,video/*"
+          multiple
+          onChange={handleFiles}
+          className="hidden"
+        />
+        <p className="text-sm text-muted-foreground mt-2">
+          {preparing
+            ? "Preparing photos..."
+            : `Up to ${MAX_REPORT_MEDIA} photos from different angles, plus one clip of up to ${MAX_VIDEO_SECONDS} seconds`}
+        </p>
+      </div>
+
+      {items.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {items.map((item, index) => (
+            <div key={item.id} className="relative rounded-lg overflow-hidden border-2 border-white shadow bg-muted">
+              {item.type === 'image' ? (
+                <img src={item.previewUrl} alt={`Attachment ${index + 1}`} className="w-full h-32 object-cover" />
+              ) : (
+                <video src={item.previewUrl} className="w-full h-32 object-cover" muted playsInline />
+              )}
+              {item.id === cover?.id && (
+                <Badge className="absolute top-1 left-1 bg-green-500 text-xs">Cover</Badge>
+              )}
+              {item.type === 'video' && (
+                <Badge variant="secondary" className="absolute top-1 left-1 text-xs">
+                  <Video className="w-3 h-3 mr-1" />
+                  Video
+                </Badge>
+              )}
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute top-1 right-1 h-6 w-6"
+                disabled={busy}
+                onClick={() => handleRemove(item)}
+                title="Remove"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+              <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={busy || index === 0}
+                  onClick={() => onChange(moveMediaDraft(items, index, -1))}
+                  title="Move earlier"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={busy || index === items.length - 1}
+                  onClick={() => onChange(moveMediaDraft(items, index, 1))}
+                  title="Move later"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaPicker;
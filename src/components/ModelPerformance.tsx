@@ -0,0 +1,334 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent
+} from "@/components/ui/chart";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import {
+  buildConfusionMatrix, fetchScoredExamples, getCalibration, getCalibrationError, getCategoryMetrics,
+  getMetricClasses, getMetricsTrend, getModelVersionMetrics, summarizeMetrics
+} from "@/lib/modelMetrics";
+import type { ScoredExample } from "@/types/review";
+import { toast } from "sonner";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Gauge } from "lucide-react";
+
+const metricsChartConfig = {
+  accuracy: { label: "Accuracy", color: "#10b981" },
+  precision: { label: "Precision", color: "#3b82f6" },
+  recall: { label: "Recall", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+const calibrationChartConfig = {
+  accuracy: { label: "Actual accuracy", color: "#10b981" },
+  meanConfidence: { label: "Model confidence", color: "#94a3b8" },
+} satisfies ChartConfig;
+
+type MetricsSample = "spot-check" | "all";
+
+const SAMPLE_DESCRIPTIONS: Record<MetricsSample, string> = {
+  "spot-check": "Measured on random spot checks, which stand in for every photo the model sees.",
+  all: "Measured on every reviewed photo. Most were queued for low confidence, so scores read lower than the model's real performance.",
+};
+
+const formatPercent = (value: number | null) => (value === null ? "—" : `${Math.round(value * 100)}%`);
+
+const toPercent = (value: number | null) => (value === null ? null : Math.round(value * 100));
+
+// How the detector's categories compare with what reviewers decided, from the labeled examples
+const ModelPerformance = () => {
+  const { categories, getCategoryLabel } = useTaxonomy();
+  const [examples, setExamples] = useState<ScoredExample[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modelVersion, setModelVersion] = useState("all");
+  const [sample, setSample] = useState<MetricsSample>("spot-check");
+
+  useEffect(() => {
+    const loadExamples = async () => {
+      try {
+        const scored = await fetchScoredExamples();
+        setExamples(scored);
+        // Until reviewers have worked through some spot checks, the queue sample is all there is
+        if (!scored.some((example) => example.spot_check)) setSample("all");
+      } catch (error) {
+        console.error('Error fetching labeled examples:', error);
+        toast.error('Failed to load model performance');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadExamples();
+  }, []);
+
+  const classes = useMemo(
+    () => getMetricClasses(examples, categories.map((c) => c.slug)),
+    [examples, categories]
+  );
+  const sampled = useMemo(
+    () => (sample === "spot-check" ? examples.filter((example) => example.spot_check) : examples),
+    [examples, sample]
+  );
+  const versionMetrics = useMemo(() => getModelVersionMetrics(sampled, classes), [sampled, classes]);
+  const scoped = useMemo(
+    () => (modelVersion === "all" ? sampled : sampled.filter((example) => example.ai_model_version === modelVersion)),
+    [sampled, modelVersion]
+  );
+
+  const metrics = useMemo(() => {
+    const matrix = buildConfusionMatrix(scoped, classes);
+    const calibration = getCalibration(scoped);
+    // Categories nobody labelled and the model never predicted only add empty rows
+    const activeClasses = classes.filter((_, i) => matrix[i].some(Boolean) || matrix.some((row) => row[i] > 0));
+
+    return {
+      summary: summarizeMetrics(scoped, classes),
+      matrix,
+      activeClasses,
+      perCategory: getCategoryMetrics(matrix, classes).filter((m) => activeClasses.includes(m.category)),
+      calibration,
+      calibrationError: getCalibrationError(calibration),
+      trend: getMetricsTrend(scoped, classes),
+    };
+  }, [scoped, classes]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground text-center py-12">Loading model performance...</p>;
+  }
+
+  if (examples.length === 0) {
+    return (
+      <Card className="shadow-md">
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <Gauge className="w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p>No reviewed photos yet</p>
+          <p className="text-sm">Metrics appear once photos have been confirmed or corrected in the AI review queue.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const maxCell = Math.max(1, ...metrics.matrix.flat());
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-md">
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="w-5 h-5" />
+                Model Performance
+              </CardTitle>
+              <CardDescription>{SAMPLE_DESCRIPTIONS[sample]}</CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Select value={sample} onValueChange={(value) => setSample(value as MetricsSample)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="spot-check">Random spot checks</SelectItem>
+                  <SelectItem value="all">All reviewed (mostly low confidence)</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={modelVersion} onValueChange={setModelVersion}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All model versions</SelectItem>
+                  {versionMetrics.map(({ version }) => (
+                    <SelectItem key={version} value={version}>{version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+            {[
+              { label: "Reviewed photos", value: String(metrics.summary.examples) },
+              { label: "Accuracy", value: formatPercent(metrics.summary.accuracy) },
+              { label: "Avg precision", value: formatPercent(metrics.summary.precision) },
+              { label: "Avg recall", value: formatPercent(metrics.summary.recall) },
+              { label: "Calibration error", value: formatPercent(metrics.calibrationError) },
+            ].map(({ label, value }) => (
+              <div key={label} className="p-3 rounded-lg bg-muted/50">
+                <p className="text-2xl font-bold">{value}</p>
+                <p className="text-xs text-muted-foreground">{label}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle className="text-lg">Confusion Matrix</CardTitle>
+          <CardDescription>Rows are the reviewer's category, columns the model's. The diagonal is correct.</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="p-2 text-left text-muted-foreground font-normal">Reviewer ↓ / Model →</th>
+                {metrics.activeClasses.map((predicted) => (
+                  <th key={predicted} className="p-2 font-medium">{getCategoryLabel(predicted)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.activeClasses.map((actual) => {
+                const row = metrics.matrix[classes.indexOf(actual)];
+                return (
+                  <tr key={actual}>
+                    <th className="p-2 text-left font-medium">{getCategoryLabel(actual)}</th>
+                    {metrics.activeClasses.map((predicted) => {
+                      const count = row[classes.indexOf(predicted)];
+                      const color = actual === predicted ? '16, 185, 129' : '239, 68, 68';
+                      return (
+                        <td
+                          key={predicted}
+                          className="p-2 text-center border min-w-12"
+                          style={{ backgroundColor: count > 0 ? `rgba(${color}, ${0.15 + 0.6 * (count / maxCell)})` : undefined }}
+                        >
+                          {count}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="text-lg">Precision & Recall by Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={metricsChartConfig} className="h-64 w-full aspect-auto">
+              <BarChart
+                data={metrics.perCategory.map((m) => ({
+                  category: getCategoryLabel(m.category),
+                  precision: toPercent(m.precision),
+                  recall: toPercent(m.recall),
+                }))}
+              >
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="category" tick={{ fontSize: 10 }} interval={0} angle={-20} textAnchor="end" height={50} />
+                <YAxis domain={[0, 100]} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="precision" fill="var(--color-precision)" radius={2} />
+                <Bar dataKey="recall" fill="var(--color-recall)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="text-lg">Confidence Calibration</CardTitle>
+            <CardDescription>A well-calibrated model is right as often as its confidence says.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={calibrationChartConfig} className="h-64 w-full aspect-auto">
+              <LineChart
+                data={metrics.calibration
+                  .filter((bin) => bin.count > 0)
+                  .map((bin) => ({
+                    label: bin.label,
+                    count: bin.count,
+                    accuracy: toPercent(bin.accuracy),
+                    meanConfidence: toPercent(bin.meanConfidence),
+                  }))}
+              >
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                <YAxis domain={[0, 100]} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="meanConfidence" stroke="var(--color-meanConfidence)" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="accuracy" stroke="var(--color-accuracy)" strokeWidth={2} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle className="text-lg">Weekly Trend</CardTitle>
+          <CardDescription>By the week photos were reviewed</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={metricsChartConfig} className="h-64 w-full aspect-auto">
+            <LineChart
+              data={metrics.trend.map((point) => ({
+                week: new Date(`${point.week}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+                accuracy: toPercent(point.accuracy),
+                precision: toPercent(point.precision),
+                recall: toPercent(point.recall),
+              }))}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tick={{ fontSize: 10 }} />
+              <YAxis domain={[0, 100]} unit="%" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="accuracy" stroke="var(--color-accuracy)" strokeWidth={2} />
+              <Line dataKey="precision" stroke="var(--color-precision)" />
+              <Line dataKey="recall" stroke="var(--color-recall)" />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle className="text-lg">By Model Version</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead className="text-right">Photos</TableHead>
+                <TableHead className="text-right">Accuracy</TableHead>
+                <TableHead className="text-right">Avg precision</TableHead>
+                <TableHead className="text-right">Avg recall</TableHead>
+                <TableHead className="text-right">Calibration error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versionMetrics.map((row) => (
+                <TableRow
+                  key={row.version}
+                  className={`cursor-pointer ${row.version === modelVersion ? 'bg-accent' : ''}`}
+                  onClick={() => setModelVersion(row.version === modelVersion ? "all" : row.version)}
+                >
+                  <TableCell className="font-mono text-xs">{row.version}</TableCell>
+                  <TableCell className="text-right">{row.examples}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.accuracy)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.precision)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.recall)}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row.calibrationError)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ModelPerformance;
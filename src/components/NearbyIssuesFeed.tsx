@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import StatusBadge from "@/components/StatusBadge";
+import CategoryBadge from "@/components/CategoryBadge";
+import SupportButton from "@/components/SupportButton";
+import { distanceKm, formatDistance, getBoundingBox } from "@/lib/geo";
+import { isClosedStatus } from "@/lib/reportStatus";
+import { IssueStatus } from "@/types/report";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { MapPin, AlertCircle } from "lucide-react";
+
+interface NearbyReport {
+  id: string;
+  image_url: string;
+  description: string;
+  category: string;
+  status: IssueStatus;
+  created_at: string;
+  latitude: number;
+  longitude: number;
+  user_id: string | null;
+  support_count: number;
+  distance: number;
+}
+
+const NEARBY_RADIUS_KM = 2;
+
+const NearbyIssuesFeed = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [location, setLocation] = useState<{ lat: number; lon: number } | null>(null);
+  const [reports, setReports] = useState<NearbyReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [locationError, setLocationError] = useState(false);
+
+  // Detect location once on mount
+  useEffect(() => {
+    if (!navigator.geolocation) {
+      setLocationError(true);
+      setLoading(false);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocation({ lat: position.coords.latitude, lon: position.coords.longitude });
+      },
+      (error) => {
+        console.error("Error detecting location:", error);
+        setLocationError(true);
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!location) return;
+
+    const fetchNearbyReports = async () => {
+      try {
+        const box = getBoundingBox(location, NEARBY_RADIUS_KM);
+        const { data, error } = await supabase
+          .from('reports')
+          .select('*')
+          .gte('latitude', box.minLat)
+          .lte('latitude', box.maxLat)
+          .gte('longitude', box.minLon)
+          .lte('longitude', box.maxLon)
+          // Spam and duplicates are not worth showing to neighbours
+          .not('status', 'in', '(rejected,duplicate)')
+          .order('created_at', { ascending: false })
+          .limit(50);
+
+        if (error) throw error;
+
+        // The box is a pre-filter; trim to the exact radius and sort by distance
+        const withDistance = (data || [])
+          .map(r => ({
+            ...r,
+            status: r.status as IssueStatus,
+            distance: distanceKm(location, { lat: r.latitude, lon: r.longitude })
+          }))
+          .filter(r => r.distance <= NEARBY_RADIUS_KM)
+          .sort((a, b) => a.distance - b.distance);
+
+        setReports(withDistance);
+      } catch (error) {
+        console.error('Error fetching nearby reports:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchNearbyReports();
+  }, [location]);
+
+  const handleSupportToggle = (reportId: string, supporting: boolean) => {
+    setReports((current) => current.map((r) =>
+      r.id === reportId ? { ...r, support_count: r.support_count + (supporting ? 1 : -1) } : r
+    ));
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="w-5 h-5" />
+          Nearby Issues
+        </CardTitle>
+        <CardDescription>
+          Public reports within {NEARBY_RADIUS_KM} km of your location
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="py-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-3"></div>
+            <p className="text-sm text-muted-foreground">Finding issues near you...</p>
+          </div>
+        )}
+
+        {!loading && locationError && (
+          <div className="text-center py-8 text-muted-foreground">
+            <AlertCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>Enable location access to see issues near you</p>
+          </div>
+        )}
+
+        {!loading && !locationError && reports.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            <AlertCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No issues reported nearby</p>
+          </div>
+        )}
+
+        {!loading && reports.length > 0 && (
+          <div className="space-y-3">
+            {reports.map((report) => (
+              <div
+                key={report.id}
+                className="border rounded-lg p-3 hover:shadow-md transition-shadow flex gap-3"
+              >
+                <img
+                  src={report.image_url}
+                  alt="Report"
+                  className="w-16 h-16 object-cover rounded"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <CategoryBadge category={report.category} />
+                    <StatusBadge status={report.status} />
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2 mb-1">
+                    {report.description}
+                  </p>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{formatDistance(report.distance)} away • {new Date(report.created_at).toLocaleDateString()}</span>
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={() => navigate(`/report/${report.id}`)}>
+                      View
+                    </Button>
+                  </div>
+                  {/* Others can say the issue affects them too while it is still open */}
+                  {report.user_id !== user?.id && !isClosedStatus(report.status) && (
+                    <div className="mt-2">
+                      <SupportButton
+                        reportId={report.id}
+                        supportCount={report.support_count}
+                        onToggle={(supporting) => handleSupportToggle(report.id, supporting)}
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NearbyIssuesFeed;
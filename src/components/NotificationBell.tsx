@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import NotificationPreferencesDialog from "@/components/NotificationPreferencesDialog";
+import { useNotifications } from "@/hooks/use-notifications";
+import type { AppNotification, NotificationType } from "@/types/notification";
+import { Bell, ClipboardList, MessageSquare, RefreshCw, Settings, UserCheck } from "lucide-react";
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  status_changed: RefreshCw,
+  comment_added: MessageSquare,
+  report_assigned: UserCheck,
+  work_order_assigned: ClipboardList,
+};
+
+// Header bell shared by the citizen and staff screens
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+
+  const handleOpen = (notification: AppNotification) => {
+    markRead(notification.id);
+    setOpen(false);
+    if (notification.report_id) navigate(`/report/${notification.report_id}`);
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="secondary" size="icon" className="relative">
+            <Bell className="w-4 h-4" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white rounded-full text-xs flex items-center justify-center">
+                {unreadCount > 9 ? "9+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80" align="end">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-sm flex items-center gap-2">
+                <Bell className="w-4 h-4" />
+                Notifications
+              </h3>
+              {unreadCount > 0 && (
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllRead}>
+                  Mark all read
+                </Button>
+              )}
+            </div>
+            <ScrollArea className="h-64">
+              {notifications.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">You're all caught up</p>
+              )}
+              {notifications.map((notification) => {
+                const Icon = NOTIFICATION_ICONS[notification.type] ?? Bell;
+                return (
+                  <div
+                    key={notification.id}
+                    className={`p-2 hover:bg-accent rounded-lg cursor-pointer mb-2 flex gap-2 ${
+                      notification.read_at ? 'opacity-60' : 'bg-accent/40'
+                    }`}
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <Icon className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-xs ${notification.read_at ? '' : 'font-semibold'}`}>{notification.title}</p>
+                      {notification.body && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </ScrollArea>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full text-xs"
+              onClick={() => {
+                setOpen(false);
+                setShowPreferences(true);
+              }}
+            >
+              <Settings className="w-3 h-3 mr-1" />
+              Email, SMS & push settings
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      <NotificationPreferencesDialog open={showPreferences} onOpenChange={setShowPreferences} />
+    </>
+  );
+};
+
+export default NotificationBell;
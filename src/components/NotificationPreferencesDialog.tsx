@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { isPushEnabledFor, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
+import type { NotificationDelivery, NotificationPreferences } from "@/types/notification";
+import { toast } from "sonner";
+import { BellRing, Mail, MessageSquare } from "lucide-react";
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type PreferencesForm = Omit<NotificationPreferences, "user_id">;
+
+const defaultPreferences: PreferencesForm = {
+  email_enabled: false,
+  sms_enabled: false,
+  phone: null,
+  notify_status_changes: true,
+  notify_resolutions: true,
+  notify_sla_breaches: true,
+};
+
+const PHONE_PATTERN = /^\+[1-9][0-9]{6,14}$/;
+
+const MESSAGE_KINDS: { key: keyof PreferencesForm; label: string }[] = [
+  { key: "notify_status_changes", label: "Status changes" },
+  { key: "notify_resolutions", label: "Issue resolved" },
+  { key: "notify_sla_breaches", label: "Overdue and escalated" },
+];
+
+// Push, email and SMS opt-in, with the last few messages sent so delivery can be checked
+const NotificationPreferencesDialog = ({ open, onOpenChange }: NotificationPreferencesDialogProps) => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<PreferencesForm>(defaultPreferences);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
+  // Emails only go to the account's own address once it is confirmed
+  const confirmedEmail = user?.email_confirmed_at ? user.email ?? null : null;
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const fetchPreferences = async () => {
+      try {
+        const [prefsResult, deliveriesResult] = await Promise.all([
+          supabase.from('notification_preferences').select('*').eq('user_id', user.id).maybeSingle(),
+          supabase
+            .from('notification_deliveries')
+            .select('id, channel, recipient, subject, status, created_at, sent_at')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .limit(5),
+        ]);
+
+        if (prefsResult.error) throw prefsResult.error;
+        if (deliveriesResult.error) throw deliveriesResult.error;
+
+        if (prefsResult.data) {
+          const { user_id, updated_at, ...saved } = prefsResult.data;
+          setPreferences(saved);
+        }
+        setDeliveries(deliveriesResult.data as NotificationDelivery[]);
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+      }
+    };
+
+    fetchPreferences();
+    isPushEnabledFor(user.id)
+      .then(setPushEnabled)
+      .catch((error) => console.error('Error checking push subscription:', error));
+  }, [open, user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Push is per device and takes effect straight away, without saving
+  const handlePushToggle = async (enabled: boolean) => {
+    if (!user) return;
+
+    setPushBusy(true);
+    try {
+      if (enabled) {
+        await subscribeToPush();
+        toast.success("Push notifications enabled on this device");
+      } else {
+        await unsubscribeFromPush();
+        toast.success("Push notifications turned off on this device");
+      }
+      setPushEnabled(enabled);
+    } catch (error) {
+      console.error('Error updating push subscription:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to update push notifications: ${errorMessage}`);
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  const update = (changes: Partial<PreferencesForm>) => setPreferences({ ...preferences, ...changes });
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const phone = preferences.phone?.replace(/[\s-]/g, '') || null;
+
+    if (preferences.email_enabled && !confirmedEmail) {
+      toast.error("Confirm the email address on your account to receive emails");
+      return;
+    }
+    if (preferences.sms_enabled && !phone) {
+      toast.error("Enter a phone number to receive SMS");
+      return;
+    }
+    if (phone && !PHONE_PATTERN.test(phone)) {
+      toast.error("Enter the phone number with its country code, e.g. +919876543210");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ ...preferences, phone, user_id: user.id });
+
+      if (error) throw error;
+
+      toast.success("Notification settings saved");
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error('Failed to save notification settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+          <DialogDescription>
+            Hear about the reports you follow even when the app is closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isPushSupported() && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-push" className="flex items-center gap-2">
+                <BellRing className="w-4 h-4" />
+                Push on this device
+              </Label>
+              <Switch
+                id="notify-push"
+                checked={pushEnabled}
+                disabled={pushBusy}
+                onCheckedChange={handlePushToggle}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-email" className="flex items-center gap-2">
+                <Mail className="w-4 h-4" />
+                Email
+              </Label>
+              <Switch
+                id="notify-email"
+                checked={preferences.email_enabled}
+                disabled={!confirmedEmail && !preferences.email_enabled}
+                onCheckedChange={(checked) => update({ email_enabled: checked })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {confirmedEmail
+                ? `Sent to ${confirmedEmail}`
+                : "Add and confirm an email address on your account to receive emails"}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-sms" className="flex items-center gap-2">
+                <MessageSquare className="w-4 h-4" />
+                SMS
+              </Label>
+              <Switch
+                id="notify-sms"
+                checked={preferences.sms_enabled}
+                onCheckedChange={(checked) => update({ sms_enabled: checked })}
+              />
+            </div>
+            {preferences.sms_enabled && (
+              <Input
+                type="tel"
+                placeholder="+919876543210"
+                value={preferences.phone ?? ""}
+                onChange={(e) => update({ phone: e.target.value })}
+              />
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Send me</p>
+            {MESSAGE_KINDS.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label htmlFor={key} className="font-normal">{label}</Label>
+                <Switch
+                  id={key}
+                  checked={preferences[key] as boolean}
+                  onCheckedChange={(checked) => update({ [key]: checked })}
+                />
+              </div>
+            ))}
+          </div>
+
+          {deliveries.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Recent messages</p>
+                {deliveries.map((delivery) => (
+                  <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate">
+                      {{ email: "✉️", sms: "💬", push: "🔔" }[delivery.channel]} {delivery.subject ?? "Queued"}
+                    </span>
+                    <Badge variant={delivery.status === "failed" ? "destructive" : "secondary"} className="text-xs capitalize">
+                      {delivery.status}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <Button className="w-full" onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotificationPreferencesDialog;
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { QueuedReport } from "@/types/report";
+import { CloudOff, RefreshCw, Trash2 } from "lucide-react";
+
+interface PendingReportsCardProps {
+  entries: QueuedReport[];
+  syncing: boolean;
+  onSyncNow: () => void;
+  onDiscard: (id: string) => void;
+}
+
+// Reports saved on this device that are still waiting to reach the server
+const PendingReportsCard = ({ entries, syncing, onSyncNow, onDiscard }: PendingReportsCardProps) => {
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const urls = Object.fromEntries(entries.map((entry) => [entry.id, URL.createObjectURL(entry.image)]));
+    setPreviews(urls);
+    return () => Object.values(urls).forEach((url) => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card className="shadow-xl border-amber-300">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CloudOff className="w-5 h-5" />
+          Pending Sync
+          <Badge variant="secondary">{entries.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          {isOnline
+            ? "Saved on this device and being sent now"
+            : "Saved on this device. They'll be sent when you're back online."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {entries.map((entry) => (
+          <div key={entry.id} className="flex gap-3 items-center border rounded-lg p-2">
+            <img
+              src={previews[entry.id]}
+              alt="Pending report"
+              className="w-12 h-12 object-cover rounded"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">{entry.description || "No description provided"}</p>
+              <p className="text-xs text-muted-foreground">
+                Captured {new Date(entry.created_at).toLocaleString()}
+              </p>
+              {entry.last_error && (
+                <p className="text-xs text-destructive truncate" title={entry.last_error}>
+                  {entry.attempts} failed attempt{entry.attempts === 1 ? '' : 's'}: {entry.last_error}
+                </p>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={syncing}
+              onClick={() => onDiscard(entry.id)}
+              title="Discard this report"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={syncing || !isOnline}
+          onClick={onSyncNow}
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+          {syncing ? "Sending..." : "Sync now"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PendingReportsCard;
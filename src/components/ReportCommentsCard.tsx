@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useStaffDirectory } from "@/hooks/use-staff-directory";
+import { addReportComment, deleteReportComment, MAX_COMMENT_ATTACHMENTS } from "@/lib/comments";
+import type { ReportComment } from "@/types/report";
+import { toast } from "sonner";
+import { Lock, MessageSquare, Trash2 } from "lucide-react";
+
+interface ReportCommentsCardProps {
+  reportId: string;
+  reporterId: string | null;
+  isStaffView: boolean;
+}
+
+const ReportCommentsCard = ({ reportId, reporterId, isStaffView }: ReportCommentsCardProps) => {
+  const { user } = useAuth();
+  const { getStaffName } = useStaffDirectory(isStaffView);
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [body, setBody] = useState("");
+  const [isInternal, setIsInternal] = useState(false);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [posting, setPosting] = useState(false);
+  // Remounts the file input so it clears after posting
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const fetchComments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('report_comments')
+        .select('*')
+        .eq('report_id', reportId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setComments(data as ReportComment[]);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchComments();
+
+    const subscription = supabase
+      .channel(`report-comments-${reportId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'report_comments',
+          filter: `report_id=eq.${reportId}`,
+        },
+        () => fetchComments()
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [reportId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const getAuthorName = (comment: ReportComment) => {
+    if (comment.author_id === user?.id) return "You";
+    if (comment.author_is_staff) return isStaffView ? getStaffName(comment.author_id) : "City staff";
+    if (comment.author_id === reporterId) return "Reporter";
+    return "Citizen";
+  };
+
+  const handlePhotosChange = (files: FileList | null) => {
+    const selected = Array.from(files ?? []);
+    if (selected.length > MAX_COMMENT_ATTACHMENTS) {
+      toast.error(`You can attach up to ${MAX_COMMENT_ATTACHMENTS} photos`);
+    }
+    setPhotos(selected.slice(0, MAX_COMMENT_ATTACHMENTS));
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!body.trim()) {
+      toast.error("Write a comment first");
+      return;
+    }
+
+    setPosting(true);
+    try {
+      await addReportComment(reportId, body, isStaffView && isInternal, photos);
+      setBody("");
+      setPhotos([]);
+      setFileInputKey((key) => key + 1);
+      fetchComments();
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to post comment: ${errorMessage}`);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    try {
+      await deleteReportComment(commentId);
+      setComments((current) => current.filter((c) => c.id !== commentId));
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Comments
+        </CardTitle>
+        <CardDescription>
+          {isStaffView
+            ? "Talk to the reporter, or leave internal notes for other staff"
+            : "Add information or answer questions from city staff"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {comments.length === 0 && (
+          <p className="text-sm text-muted-foreground">No comments yet.</p>
+        )}
+        {comments.map((comment) => (
+          <div
+            key={comment.id}
+            className={`rounded-lg border p-3 space-y-2 text-sm ${
+              comment.is_internal ? 'bg-amber-50 border-amber-300 dark:bg-amber-900/20' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{getAuthorName(comment)}</span>
+                {comment.author_is_staff && !comment.is_internal && (
+                  <Badge variant="secondary" className="text-xs">Staff</Badge>
+                )}
+                {comment.is_internal && (
+                  <Badge variant="outline" className="text-xs gap-1 border-amber-400 text-amber-700">
+                    <Lock className="w-3 h-3" />
+                    Internal note
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <span className="text-xs text-muted-foreground">
+                  {new Date(comment.created_at).toLocaleString()}
+                </span>
+                {comment.author_id === user?.id && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0"
+                    onClick={() => handleDelete(comment.id)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <p className="whitespace-pre-wrap">{comment.body}</p>
+            {comment.attachment_urls.length > 0 && (
+              <div className="flex gap-2 flex-wrap">
+                {comment.attachment_urls.map((url) => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    <img src={url} alt="Attachment" className="w-20 h-20 object-cover rounded" />
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {user && (
+          <form onSubmit={handlePost} className="space-y-3 border-t pt-3">
+            <Textarea
+              rows={3}
+              placeholder={isInternal ? "Note for other staff..." : "Write a comment..."}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="comment-photos">Photos (optional)</Label>
+              <Input
+                key={fileInputKey}
+                id="comment-photos"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => handlePhotosChange(e.target.files)}
+              />
+            </div>
+            {isStaffView && (
+              <div className="flex items-center gap-2">
+                <Switch id="comment-internal" checked={isInternal} onCheckedChange={setIsInternal} />
+                <Label htmlFor="comment-internal">Internal note (staff only)</Label>
+              </div>
+            )}
+            <Button type="submit" className="w-full" disabled={posting}>
+              {posting ? "Posting..." : isInternal ? "Add Internal Note" : "Post Comment"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReportCommentsCard;
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import DetectionOverlay from "@/components/DetectionOverlay";
+import { supabase } from "@/integrations/supabase/client";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { getLabelColor, toDetection } from "@/lib/detections";
+import type { ReportMedia } from "@/types/report";
+import type { Detection, ReportDetection } from "@/types/detection";
+
+interface ReportMediaGalleryProps {
+  reportId: string;
+  // Shown on its own while loading, and for reports with a single photo
+  coverUrl: string;
+  caption: string;
+}
+
+// Every photo and clip on a report, with what the AI saw in each photo
+const ReportMediaGallery = ({ reportId, coverUrl, caption }: ReportMediaGalleryProps) => {
+  const { getCategoryLabel } = useTaxonomy();
+  const [media, setMedia] = useState<ReportMedia[]>([]);
+  const [detections, setDetections] = useState<ReportDetection[]>([]);
+  const [showBoxes, setShowBoxes] = useState(true);
+
+  useEffect(() => {
+    const fetchMedia = async () => {
+      try {
+        const [mediaResult, detectionsResult] = await Promise.all([
+          supabase
+            .from('report_media')
+            .select('*')
+            .eq('report_id', reportId)
+            .order('position', { ascending: true }),
+          supabase
+            .from('report_detections')
+            .select('*')
+            .eq('report_id', reportId)
+            .order('score', { ascending: false }),
+        ]);
+
+        if (mediaResult.error) throw mediaResult.error;
+        if (detectionsResult.error) throw detectionsResult.error;
+        setMedia(mediaResult.data as ReportMedia[]);
+        setDetections(detectionsResult.data as ReportDetection[]);
+      } catch (error) {
+        console.error('Error fetching report media:', error);
+      }
+    };
+
+    fetchMedia();
+  }, [reportId]);
+
+  const detectionsFor = (mediaId: string | null): Detection[] =>
+    detections.filter((row) => row.media_id === mediaId).map(toDetection);
+
+  const hasBoxes = detections.some((row) => row.bbox_x !== null);
+
+  const renderDetectionChips = (items: Detection[]) =>
+    items.map((detection, index) => (
+      <Badge
+        key={index}
+        variant="outline"
+        className="text-xs"
+        style={{ borderColor: getLabelColor(detection.label) }}
+      >
+        {detection.label} • {Math.round(detection.score * 100)}%
+      </Badge>
+    ));
+
+  const boxToggle = hasBoxes && (
+    <div className="flex items-center justify-end gap-2 mb-2">
+      <Label htmlFor={`show-boxes-${reportId}`} className="text-xs font-normal">Show detections</Label>
+      <Switch id={`show-boxes-${reportId}`} checked={showBoxes} onCheckedChange={setShowBoxes} />
+    </div>
+  );
+
+  if (media.length <= 1) {
+    const coverDetections = detectionsFor(media[0]?.id ?? null);
+    return (
+      <div>
+        {boxToggle}
+        <DetectionOverlay src={coverUrl} alt="Original Issue" detections={coverDetections} showBoxes={showBoxes} />
+        <p className="text-sm text-muted-foreground mt-2 text-center">{caption}</p>
+        {coverDetections.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-1 mt-2">{renderDetectionChips(coverDetections)}</div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {boxToggle}
+      <Carousel className="w-full">
+        <CarouselContent>
+          {media.map((item, index) => {
+            const itemDetections = detectionsFor(item.id);
+            return (
+              <CarouselItem key={item.id}>
+                {item.media_type === 'video' ? (
+                  <video
+                    src={item.url}
+                    controls
+                    playsInline
+                    className="w-full h-[500px] object-contain rounded-lg bg-muted"
+                  />
+                ) : (
+                  <DetectionOverlay
+                    src={item.url}
+                    alt={`Issue photo ${index + 1}`}
+                    detections={itemDetections}
+                    showBoxes={showBoxes}
+                  />
+                )}
+                <div className="flex flex-wrap items-center justify-center gap-2 mt-2 text-sm text-muted-foreground">
+                  <span>{index + 1} of {media.length}</span>
+                  {item.ai_category && (
+                    <Badge variant="outline" className="text-xs">
+                      AI: {getCategoryLabel(item.ai_category)}
+                      {item.ai_confidence !== null && ` • ${Math.round(item.ai_confidence * 100)}%`}
+                    </Badge>
+                  )}
+                  {renderDetectionChips(itemDetections)}
+                  {item.ai_processed_image_url && (
+                    <a
+                      href={item.ai_processed_image_url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs text-primary underline"
+                    >
+                      View detection
+                    </a>
+                  )}
+                </div>
+              </CarouselItem>
+            );
+          })}
+        </CarouselContent>
+        <CarouselPrevious className="left-2" />
+        <CarouselNext className="right-2" />
+      </Carousel>
+    </div>
+  );
+};
+
+export default ReportMediaGallery;
@@ -0,0 +1,40 @@
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import Forbidden from "@/pages/Forbidden";
+import type { UserRole } from "@/types/auth";
+
+interface RequireRoleProps {
+  children: ReactNode;
+  // Omit to allow any signed-in user, including guests
+  roles?: UserRole[];
+}
+
+const RequireRole = ({ children, roles }: RequireRoleProps) => {
+  const { session, role, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted flex items-center justify-center">
+        <Card className="w-16 h-16 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!session) {
+    const returnTo = `${location.pathname}${location.search}`;
+    return <Navigate to={`/?returnTo=${encodeURIComponent(returnTo)}`} replace />;
+  }
+
+  if (roles && (!role || !roles.includes(role))) {
+    return <Forbidden />;
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
@@ -0,0 +1,40 @@
+import { Badge } from "@/components/ui/badge";
+import { formatTimeToDue, getSlaState } from "@/lib/sla";
+import { AlarmClock, Clock } from "lucide-react";
+
+interface SlaBadgeProps {
+  report: {
+    created_at: string;
+    due_at: string | null;
+    status: string;
+  };
+  // Grids only flag reports that need attention; detail views show every state
+  showOnTrack?: boolean;
+}
+
+const SlaBadge = ({ report, showOnTrack = false }: SlaBadgeProps) => {
+  const state = getSlaState(report);
+  if (!state || !report.due_at || (state === "on-track" && !showOnTrack)) return null;
+
+  const getSlaStyles = () => {
+    switch (state) {
+      case "overdue":
+        return "bg-red-100 text-red-800 border-red-300";
+      case "at-risk":
+        return "bg-orange-100 text-orange-800 border-orange-300";
+      case "on-track":
+        return "bg-green-100 text-green-800 border-green-300";
+    }
+  };
+
+  const Icon = state === "overdue" ? AlarmClock : Clock;
+
+  return (
+    <Badge variant="outline" className={`text-xs ${getSlaStyles()}`} title={new Date(report.due_at).toLocaleString()}>
+      <Icon className="w-3 h-3 mr-1" />
+      {state === "overdue" ? "OVERDUE" : state === "at-risk" ? "AT RISK" : "ON TRACK"} · {formatTimeToDue(report.due_at)}
+    </Badge>
+  );
+};
+
+export default SlaBadge;
@@ -1,5 +1,6 @@
 import { Badge } from "@/components/ui/badge";
 import { IssueStatus } from "@/types/report";
+import { getStatusLabel } from "@/lib/reportStatus";
 
 interface StatusBadgeProps {
   status: IssueStatus;
@@ -12,25 +13,22 @@ const StatusBadge = ({ status }: StatusBadgeProps) => {
         return "bg-pending text-pending-foreground hover:bg-pending/90";
       case "in-progress":
         return "bg-in-progress text-in-progress-foreground hover:bg-in-progress/90";
+      case "on-hold":
+        return "bg-slate-500 text-white hover:bg-slate-500/90";
+      case "reopened":
+        return "bg-orange-500 text-white hover:bg-orange-500/90";
       case "resolved":
         return "bg-resolved text-resolved-foreground hover:bg-resolved/90";
-    }
-  };
-
-  const getStatusText = () => {
-    switch (status) {
-      case "pending":
-        return "Pending";
-      case "in-progress":
-        return "In Progress";
-      case "resolved":
-        return "Resolved";
+      case "rejected":
+        return "bg-red-600 text-white hover:bg-red-600/90";
+      case "duplicate":
+        return "bg-purple-500 text-white hover:bg-purple-500/90";
     }
   };
 
   return (
     <Badge variant="secondary" className={getStatusStyles()}>
-      {getStatusText()}
+      {getStatusLabel(status)}
     </Badge>
   );
 };
@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useReportSupport } from "@/hooks/use-report-support";
+import { toast } from "sonner";
+import { Users } from "lucide-react";
+
+interface SupportButtonProps {
+  reportId: string;
+  supportCount: number;
+  onToggle?: (supporting: boolean) => void;
+  size?: "sm" | "default";
+}
+
+// "Me too" toggle for citizens affected by someone else's report
+const SupportButton = ({ reportId, supportCount, onToggle, size = "sm" }: SupportButtonProps) => {
+  const { isSupporting, toggleSupport } = useReportSupport();
+  const [saving, setSaving] = useState(false);
+  const supporting = isSupporting(reportId);
+
+  const handleClick = async () => {
+    setSaving(true);
+    try {
+      const nowSupporting = await toggleSupport(reportId);
+      onToggle?.(nowSupporting);
+      if (nowSupporting) toast.success("Thanks! You'll get updates on this report.");
+    } catch (error) {
+      console.error('Error updating support:', error);
+      toast.error('Failed to update your support');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Button
+      type="button"
+      size={size}
+      variant={supporting ? "default" : "outline"}
+      onClick={handleClick}
+      disabled={saving}
+      className="gap-1"
+    >
+      <Users className="w-4 h-4" />
+      {supporting ? "You're affected too" : "Me too"}
+      {supportCount > 0 && <span className="ml-1 opacity-80">· {supportCount}</span>}
+    </Button>
+  );
+};
+
+export default SupportButton;
@@ -0,0 +1,42 @@
+import { Badge } from "@/components/ui/badge";
+import type { WorkOrderStatus } from "@/types/workOrder";
+
+interface WorkOrderStatusBadgeProps {
+  status: WorkOrderStatus;
+}
+
+const WorkOrderStatusBadge = ({ status }: WorkOrderStatusBadgeProps) => {
+  const getStatusStyles = () => {
+    switch (status) {
+      case "scheduled":
+        return "bg-blue-100 text-blue-800 border-blue-300";
+      case "in-progress":
+        return "bg-in-progress text-in-progress-foreground hover:bg-in-progress/90";
+      case "completed":
+        return "bg-resolved text-resolved-foreground hover:bg-resolved/90";
+      case "cancelled":
+        return "bg-muted text-muted-foreground";
+    }
+  };
+
+  const getStatusText = () => {
+    switch (status) {
+      case "scheduled":
+        return "Scheduled";
+      case "in-progress":
+        return "In Progress";
+      case "completed":
+        return "Completed";
+      case "cancelled":
+        return "Cancelled";
+    }
+  };
+
+  return (
+    <Badge variant="secondary" className={getStatusStyles()}>
+      {getStatusText()}
+    </Badge>
+  );
+};
+
+export default WorkOrderStatusBadge;
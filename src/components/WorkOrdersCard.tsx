@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import WorkOrderStatusBadge from "@/components/WorkOrderStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { useStaffDirectory } from "@/hooks/use-staff-directory";
+import { formatScheduledDate } from "@/lib/workOrders";
+import type { WorkOrder } from "@/types/workOrder";
+import { toast } from "sonner";
+import { CalendarDays, ClipboardList, Plus, Users, User } from "lucide-react";
+
+interface WorkOrdersCardProps {
+  reportId: string;
+}
+
+// Assignee select values are prefixed so staff members and crews share one picker
+const STAFF_PREFIX = "staff:";
+const CREW_PREFIX = "crew:";
+
+const emptyWorkOrder = {
+  assignee: "",
+  scheduled_for: "",
+  notes: "",
+  materials: "",
+};
+
+const WorkOrdersCard = ({ reportId }: WorkOrdersCardProps) => {
+  const { staff, crews, getStaffName, getCrewName } = useStaffDirectory();
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [newWorkOrder, setNewWorkOrder] = useState(emptyWorkOrder);
+  const [saving, setSaving] = useState(false);
+
+  const fetchWorkOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select('*')
+        .eq('report_id', reportId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setWorkOrders(data as WorkOrder[]);
+    } catch (error) {
+      console.error('Error fetching work orders:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchWorkOrders();
+
+    const subscription = supabase
+      .channel(`work-orders-${reportId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'work_orders',
+          filter: `report_id=eq.${reportId}`,
+        },
+        () => fetchWorkOrders()
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [reportId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newWorkOrder.assignee) {
+      toast.error("Choose a staff member or crew");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { assignee } = newWorkOrder;
+      const { error } = await supabase
+        .from('work_orders')
+        .insert({
+          report_id: reportId,
+          assignee_id: assignee.startsWith(STAFF_PREFIX) ? assignee.slice(STAFF_PREFIX.length) : null,
+          crew_id: assignee.startsWith(CREW_PREFIX) ? assignee.slice(CREW_PREFIX.length) : null,
+          scheduled_for: newWorkOrder.scheduled_for || null,
+          notes: newWorkOrder.notes.trim() || null,
+          materials: newWorkOrder.materials.split(',').map((m) => m.trim()).filter(Boolean),
+        });
+
+      if (error) throw error;
+
+      toast.success("Work order created");
+      setNewWorkOrder(emptyWorkOrder);
+      setShowForm(false);
+      fetchWorkOrders();
+    } catch (error) {
+      console.error('Error creating work order:', error);
+      toast.error('Failed to create work order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('work_orders')
+        .update({ status: 'cancelled' })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success("Work order cancelled");
+    } catch (error) {
+      console.error('Error cancelling work order:', error);
+      toast.error('Failed to cancel work order');
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Work Orders
+        </CardTitle>
+        <CardDescription>Field work scheduled for this report</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {workOrders.length === 0 && (
+          <p className="text-sm text-muted-foreground">No work orders yet.</p>
+        )}
+        {workOrders.map((order) => (
+          <div key={order.id} className="rounded-lg border p-3 space-y-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex items-center gap-1 font-medium">
+                {order.crew_id ? <Users className="w-4 h-4" /> : <User className="w-4 h-4" />}
+                {order.crew_id ? getCrewName(order.crew_id) : getStaffName(order.assignee_id)}
+              </span>
+              <WorkOrderStatusBadge status={order.status} />
+            </div>
+            {order.scheduled_for && (
+              <p className="flex items-center gap-1 text-muted-foreground">
+                <CalendarDays className="w-4 h-4" />
+                {formatScheduledDate(order.scheduled_for)}
+              </p>
+            )}
+            {order.notes && <p className="text-muted-foreground">{order.notes}</p>}
+            {order.materials.length > 0 && (
+              <p className="text-xs text-muted-foreground">Materials: {order.materials.join(", ")}</p>
+            )}
+            {order.completion_photos.length > 0 && (
+              <div className="flex gap-2 flex-wrap">
+                {order.completion_photos.map((url) => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    <img src={url} alt="Completion" className="w-16 h-16 object-cover rounded" />
+                  </a>
+                ))}
+              </div>
+            )}
+            {(order.status === "scheduled" || order.status === "in-progress") && (
+              <Button size="sm" variant="outline" onClick={() => handleCancel(order.id)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {showForm ? (
+          <form onSubmit={handleCreate} className="space-y-3 border-t pt-3">
+            <div className="space-y-1">
+              <Label>Assign To</Label>
+              <Select
+                value={newWorkOrder.assignee}
+                onValueChange={(value) => setNewWorkOrder({ ...newWorkOrder, assignee: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Staff member or crew" />
+                </SelectTrigger>
+                <SelectContent>
+                  {crews.map((crew) => (
+                    <SelectItem key={crew.id} value={`${CREW_PREFIX}${crew.id}`}>
+                      👷 {crew.name}
+                    </SelectItem>
+                  ))}
+                  {staff.map((member) => (
+                    <SelectItem key={member.id} value={`${STAFF_PREFIX}${member.id}`}>
+                      {member.display_name || "Unnamed staff member"}
+                      {member.department ? ` (${member.department})` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="work-order-date">Scheduled For</Label>
+              <Input
+                id="work-order-date"
+                type="date"
+                value={newWorkOrder.scheduled_for}
+                onChange={(e) => setNewWorkOrder({ ...newWorkOrder, scheduled_for: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="work-order-materials">Materials</Label>
+              <Input
+                id="work-order-materials"
+                placeholder="Comma separated, e.g. cold patch, cones"
+                value={newWorkOrder.materials}
+                onChange={(e) => setNewWorkOrder({ ...newWorkOrder, materials: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="work-order-notes">Notes</Label>
+              <Textarea
+                id="work-order-notes"
+                rows={3}
+                value={newWorkOrder.notes}
+                onChange={(e) => setNewWorkOrder({ ...newWorkOrder, notes: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={saving}>
+                {saving ? "Creating..." : "Create Work Order"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="outline" className="w-full" onClick={() => setShowForm(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            New Work Order
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkOrdersCard;
@@ -0,0 +1,195 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { unsubscribeFromPush } from "@/lib/push";
+import { pickHighestRole } from "@/lib/roles";
+import type { UserRole } from "@/types/auth";
+
+// Sessions older than this are not auto-resumed from the login screen
+const SESSION_RESUME_HOURS = 24;
+
+// Claim code a guest session leaves behind when it signs in to another account
+const GUEST_CLAIM_STORAGE_KEY = "guestReportClaim";
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  role: UserRole | null;
+  loading: boolean;
+  signInWithPassword: (email: string, password: string) => Promise<UserRole>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signInAsGuest: () => Promise<void>;
+  upgradeGuestAccount: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  isSessionResumable: () => boolean;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+/**
+ * Roles live in the user_roles table, which only admins can write,
+ * so they cannot be changed from the browser the way localStorage could.
+ */
+const fetchUserRole = async (user: User | null): Promise<UserRole | null> => {
+  if (!user) return null;
+  if (user.is_anonymous) return "guest";
+
+  const { data, error } = await supabase
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error fetching user role:', error);
+    return "citizen";
+  }
+  return pickHighestRole((data || []).map((r) => r.role));
+};
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [resolvedRole, setResolvedRole] = useState<{ userId?: string; role: UserRole | null }>({ role: null });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe first so no auth event fired during getSession is missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  // Resolve the role whenever the signed-in user changes
+  const userId = session?.user.id;
+  const isAnonymous = !!session?.user.is_anonymous;
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchUserRole(session?.user ?? null).then((role) => {
+      if (!cancelled) setResolvedRole({ userId, role });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Hand a previous guest session's reports over once a real account signs in
+  useEffect(() => {
+    const code = localStorage.getItem(GUEST_CLAIM_STORAGE_KEY);
+    if (!userId || isAnonymous || !code) return;
+
+    localStorage.removeItem(GUEST_CLAIM_STORAGE_KEY);
+    supabase.rpc('claim_guest_reports', { _code: code }).then(({ data, error }) => {
+      if (error) {
+        console.error('Error claiming guest reports:', error);
+        return;
+      }
+      if (data && data > 0) {
+        toast.success(`${data} guest report${data !== 1 ? 's' : ''} added to your account`);
+      }
+    });
+  }, [userId, isAnonymous]);
+
+  // Called before a guest session is replaced by a sign-in
+  const prepareGuestClaim = async () => {
+    if (!isAnonymous) return;
+
+    const { data, error } = await supabase.rpc('create_guest_report_claim');
+    if (error) {
+      console.error('Error preparing guest report claim:', error);
+      return;
+    }
+    localStorage.setItem(GUEST_CLAIM_STORAGE_KEY, data);
+  };
+
+  const signInWithPassword = async (email: string, password: string) => {
+    await prepareGuestClaim();
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return (await fetchUserRole(data.user)) ?? "citizen";
+  };
+
+  const signInWithMagicLink = async (email: string) => {
+    await prepareGuestClaim();
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      // Keep the current URL so a returnTo parameter survives the email round-trip
+      options: { emailRedirectTo: window.location.href },
+    });
+    if (error) throw error;
+  };
+
+  const signInAsGuest = async () => {
+    const { error } = await supabase.auth.signInAnonymously();
+    if (error) throw error;
+  };
+
+  // Converts the anonymous user in place, so its reports keep the same user_id
+  const upgradeGuestAccount = async (email: string) => {
+    const { error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: window.location.href }
+    );
+    if (error) throw error;
+  };
+
+  const signOut = async () => {
+    // Otherwise the next person on this browser gets this account's notifications
+    try {
+      await unsubscribeFromPush();
+    } catch (error) {
+      console.error('Error removing push subscription:', error);
+    }
+
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
+
+  const isSessionResumable = () => {
+    const lastSignIn = session?.user.last_sign_in_at;
+    if (!lastSignIn) return false;
+    const hoursSinceLogin = (Date.now() - new Date(lastSignIn).getTime()) / (1000 * 60 * 60);
+    return hoursSinceLogin < SESSION_RESUME_HOURS;
+  };
+
+  const user = session?.user ?? null;
+  // The role is stale until it has been resolved for the current user
+  const roleLoading = resolvedRole.userId !== userId;
+
+  return (
+    <AuthContext.Provider
+      value={{
+        session,
+        user,
+        role: roleLoading ? null : resolvedRole.role,
+        loading: loading || roleLoading,
+        signInWithPassword,
+        signInWithMagicLink,
+        signInAsGuest,
+        upgradeGuestAccount,
+        signOut,
+        isSessionResumable,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
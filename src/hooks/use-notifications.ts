@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import type { AppNotification } from "@/types/notification";
+import { toast } from "sonner";
+
+// How many of the latest notifications the bell keeps
+const NOTIFICATION_LIMIT = 30;
+
+/**
+ * The signed-in user's latest notifications, kept live through the
+ * notifications realtime channel. New arrivals are also shown as a toast.
+ */
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      return;
+    }
+
+    const fetchNotifications = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(NOTIFICATION_LIMIT);
+
+        if (error) throw error;
+        setNotifications(data as AppNotification[]);
+      } catch (error) {
+        console.error('Error fetching notifications:', error);
+      }
+    };
+
+    fetchNotifications();
+
+    const subscription = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const notification = payload.new as AppNotification;
+          setNotifications((current) => [notification, ...current].slice(0, NOTIFICATION_LIMIT));
+          toast.info(`🔔 ${notification.title}`, { duration: 5000 });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((n) => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n))
+    );
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids)
+      .is('read_at', null);
+
+    if (error) console.error('Error marking notifications read:', error);
+  };
+
+  const unread = notifications.filter((n) => !n.read_at);
+
+  return {
+    notifications,
+    unreadCount: unread.length,
+    markRead: (id: string) => markRead([id]),
+    markAllRead: () => markRead(unread.map((n) => n.id)),
+  };
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ReportEvent } from "@/types/report";
+
+/**
+ * Loads the audit trail for the given reports and keeps it live
+ * through the report_events realtime channel.
+ */
+export function useReportEvents(reportIds: string[]) {
+  const [events, setEvents] = useState<ReportEvent[]>([]);
+  const idsKey = [...reportIds].sort().join(",");
+
+  useEffect(() => {
+    if (reportIds.length === 0) {
+      setEvents([]);
+      return;
+    }
+
+    const fetchEvents = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('report_events')
+          .select('*')
+          .in('report_id', reportIds)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setEvents(data as ReportEvent[]);
+      } catch (error) {
+        console.error('Error fetching report events:', error);
+      }
+    };
+
+    fetchEvents();
+
+    const subscription = supabase
+      .channel(`report-events-${reportIds.length === 1 ? reportIds[0] : 'list'}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'report_events' },
+        (payload) => {
+          const newEvent = payload.new as ReportEvent;
+          if (reportIds.includes(newEvent.report_id)) {
+            setEvents((prev) => [...prev, newEvent]);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [idsKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return events;
+}
@@ -0,0 +1,136 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useReportSubmission } from "@/hooks/use-report-submission";
+import { listOutbox, removeFromOutbox, updateOutboxEntry } from "@/lib/outbox";
+import type { QueuedReport } from "@/types/report";
+import { toast } from "sonner";
+
+// Background retries stop after this many failures; "Sync now" still tries them
+const MAX_AUTO_ATTEMPTS = 5;
+
+interface ReportOutboxContextValue {
+  entries: QueuedReport[];
+  syncing: boolean;
+  // When the last sync submitted at least one report, so pages can reload their lists
+  lastSentAt: number | null;
+  refresh: () => Promise<QueuedReport[]>;
+  syncNow: () => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+const ReportOutboxContext = createContext<ReportOutboxContextValue | undefined>(undefined);
+
+/**
+ * The signed-in user's reports waiting on this device. Mounted with the app
+ * rather than a page, so they are replayed on load and whenever the browser
+ * comes back online, whichever screen is open.
+ */
+export const ReportOutboxProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const { ready, submitQueuedReport } = useReportSubmission();
+  const [entries, setEntries] = useState<QueuedReport[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSentAt, setLastSentAt] = useState<number | null>(null);
+  const syncingRef = useRef(false);
+  const submitRef = useRef(submitQueuedReport);
+  submitRef.current = submitQueuedReport;
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setEntries([]);
+      return [];
+    }
+    try {
+      const queued = await listOutbox(user.id);
+      setEntries(queued);
+      return queued;
+    } catch (error) {
+      console.error('Error reading report outbox:', error);
+      return [];
+    }
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const sync = useCallback(async (manual: boolean) => {
+    // The online event and a manual tap can overlap; only one run at a time
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    let sent = 0;
+    try {
+      const queued = await refresh();
+      for (const entry of queued) {
+        if (!manual && entry.attempts >= MAX_AUTO_ATTEMPTS) continue;
+        try {
+          await submitRef.current(entry);
+          await removeFromOutbox(entry.id);
+          sent++;
+        } catch (error) {
+          console.error('Error syncing queued report:', error);
+          await updateOutboxEntry({
+            ...entry,
+            attempts: entry.attempts + 1,
+            last_error: error instanceof Error ? error.message : 'Unknown error occurred',
+          });
+          // Lost the connection part way through; wait for the next online event
+          if (!navigator.onLine) break;
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+
+    if (sent > 0) {
+      setLastSentAt(Date.now());
+      toast.success(`${sent} saved report${sent === 1 ? '' : 's'} submitted`);
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!user) {
+      setEntries([]);
+      return;
+    }
+    // Show what is waiting straight away, but only send once the taxonomy has loaded
+    if (!ready) {
+      refresh();
+      return;
+    }
+
+    sync(false);
+
+    const handleOnline = () => sync(false);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [user?.id, ready, sync]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const discard = async (id: string) => {
+    await removeFromOutbox(id);
+    await refresh();
+  };
+
+  return (
+    <ReportOutboxContext.Provider
+      value={{
+        entries,
+        syncing,
+        lastSentAt,
+        refresh,
+        syncNow: () => sync(true),
+        discard,
+      }}
+    >
+      {children}
+    </ReportOutboxContext.Provider>
+  );
+};
+
+export function useReportOutbox() {
+  const context = useContext(ReportOutboxContext);
+  if (!context) {
+    throw new Error("useReportOutbox must be used within a ReportOutboxProvider");
+  }
+  return context;
+}
@@ -0,0 +1,227 @@
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { detectIssueWithAI, UNAVAILABLE_MODEL_VERSION } from "@/services/aiService";
+import { computeImageHash } from "@/lib/imageHash";
+import { uploadReportImage } from "@/lib/storage";
+import { getMediaType } from "@/lib/media";
+import type { Detection } from "@/types/detection";
+import type { IssueCategory, IssueSeverity, QueuedReport, ReportMediaType } from "@/types/report";
+
+export interface DetectedIssue {
+  category: IssueCategory;
+  department: string;
+  processedImageUrl?: string;
+  confidence?: number;
+  labels: string[];
+  detections: Detection[];
+  modelVersion: string;
+}
+
+export interface ReportDraft {
+  // Generated once per report and sent with every attempt, so a retry cannot file it twice
+  clientId: string;
+  files: File[];
+  description: string;
+  latitude: number;
+  longitude: number;
+  // Slider value, 0-100
+  severity: number;
+}
+
+// The report takes the category of the photo the model was most sure about
+export const pickReportResult = (results: DetectedIssue[]) =>
+  results.reduce((best, result) => ((result.confidence ?? -1) > (best.confidence ?? -1) ? result : best));
+
+const toSeverityLabel = (severity: number): IssueSeverity =>
+  severity <= 33 ? 'low' : severity <= 66 ? 'medium' : 'high';
+
+// A report an earlier attempt already filed, when only its response was lost
+const findFiledReport = async (clientId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('reports')
+    .select('id, department')
+    .eq('client_id', clientId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Detection, upload and insert for a citizen's report. Shared by the report form
+ * and the offline outbox, which replays reports wherever the app is open.
+ */
+export function useReportSubmission() {
+  const { user } = useAuth();
+  const { resolveCategory, getDefaultDepartment, loading: taxonomyLoading } = useTaxonomy();
+
+  // Run the configured AI detection provider on one photo
+  const detectIssueCategory = async (imageFile: File): Promise<DetectedIssue> => {
+    const result = await detectIssueWithAI(imageFile);
+    const category = resolveCategory(result.category);
+
+    // The department comes from the category's default routing
+    return {
+      category,
+      department: getDefaultDepartment(category),
+      processedImageUrl: result.processedImageUrl,
+      confidence: result.confidence,
+      labels: result.detectedLabels || [],
+      detections: result.detections,
+      modelVersion: result.modelVersion
+    };
+  };
+
+  // Run the detector on every photo, in order. Videos are skipped.
+  const detectEachImage = async (files: File[], onProgress?: (current: number, total: number) => void) => {
+    const images = files.filter((file) => getMediaType(file) === 'image');
+    const results: DetectedIssue[] = [];
+    for (const [index, file] of images.entries()) {
+      onProgress?.(index + 1, images.length);
+      results.push(await detectIssueCategory(file));
+    }
+    return results;
+  };
+
+  // Upload the photos and clip, then insert the report and its media.
+  // `imageResults` follows the order of the photos.
+  const insertReport = async (draft: ReportDraft, imageResults: DetectedIssue[], imageHash: string | null) => {
+    if (!user) throw new Error("Sign in to submit a report");
+    const severityLabel = toSeverityLabel(draft.severity);
+
+    const filed = await findFiledReport(draft.clientId, user.id);
+    if (filed) return { department: filed.department, severityLabel };
+
+    const aiResult = pickReportResult(imageResults);
+
+    // Upload everything to Supabase storage, keeping the citizen's order
+    const uploaded: { url: string; type: ReportMediaType }[] = [];
+    for (const file of draft.files) {
+      uploaded.push({ url: await uploadReportImage('reports', file), type: getMediaType(file) ?? 'image' });
+    }
+    const coverUrl = uploaded.find((item) => item.type === 'image')?.url;
+    if (!coverUrl) throw new Error("A report needs at least one photo");
+
+    // Insert report into database (including severity and AI results)
+    const { data: insertedReport, error: insertError } = await supabase
+      .from('reports')
+      .insert({
+        client_id: draft.clientId,
+        image_url: coverUrl,
+        ai_processed_image_url: aiResult.processedImageUrl || null, // Save AI-processed image URL
+        description: draft.description || "No description provided",
+        latitude: draft.latitude,
+        longitude: draft.longitude,
+        category: aiResult.category,
+        department: aiResult.department,
+        status: 'pending',
+        user_id: user.id,
+        severity: severityLabel,
+        ai_confidence: aiResult.confidence ?? null,
+        ai_labels: aiResult.labels,
+        ai_model_version: aiResult.modelVersion,
+        image_hash: imageHash
+      })
+      .select('id, department')
+      .single();
+
+    if (insertError) {
+      // Another attempt filed it while this one was uploading
+      const raced = insertError.code === '23505' ? await findFiledReport(draft.clientId, user.id) : null;
+      if (raced) return { department: raced.department, severityLabel };
+      throw insertError;
+    }
+
+    // The report itself is already filed with its cover, so failures from here on are
+    // logged rather than retried
+    let imageIndex = 0;
+    const resultsByPosition = uploaded.map((item) => (item.type === 'image' ? imageResults[imageIndex++] : undefined));
+
+    const { data: savedMedia, error: mediaError } = await supabase
+      .from('report_media')
+      .insert(
+        uploaded.map((item, position) => {
+          const result = resultsByPosition[position];
+          // No detector looked at the photo, so its fallback 'other' is not a prediction
+          const prediction = result && result.modelVersion !== UNAVAILABLE_MODEL_VERSION ? result : undefined;
+          return {
+            report_id: insertedReport.id,
+            media_type: item.type,
+            url: item.url,
+            position,
+            ai_category: prediction?.category ?? null,
+            ai_confidence: prediction?.confidence ?? null,
+            ai_labels: prediction?.labels ?? [],
+            ai_model_version: result?.modelVersion ?? null,
+            ai_processed_image_url: result?.processedImageUrl || null,
+          };
+        })
+      )
+      .select('id, position');
+
+    if (mediaError) {
+      console.error('Error saving report media:', mediaError);
+    }
+
+    const detectionRows = (savedMedia ?? []).flatMap(({ id: mediaId, position }) => {
+      const result = resultsByPosition[position];
+      return (result?.detections ?? []).map((detection) => ({
+        report_id: insertedReport.id,
+        media_id: mediaId,
+        label: detection.label,
+        score: detection.score,
+        bbox_x: detection.bbox?.x ?? null,
+        bbox_y: detection.bbox?.y ?? null,
+        bbox_width: detection.bbox?.width ?? null,
+        bbox_height: detection.bbox?.height ?? null,
+        model_version: result?.modelVersion ?? null,
+      }));
+    });
+
+    if (detectionRows.length > 0) {
+      const { error: detectionError } = await supabase.from('report_detections').insert(detectionRows);
+      if (detectionError) {
+        console.error('Error saving detections:', detectionError);
+      }
+    }
+
+    return { department: insertedReport.department, severityLabel };
+  };
+
+  // Replay a report captured while offline. The citizen is no longer there to
+  // answer a duplicate prompt, so it is filed as is and staff can merge it later.
+  const submitQueuedReport = async (entry: QueuedReport) => {
+    const files = entry.media.map((item) => new File([item.file], item.file_name, { type: item.file.type }));
+    const imageResults = await detectEachImage(files);
+    const cover = files.find((file) => getMediaType(file) === 'image');
+    const imageHash = cover
+      ? await computeImageHash(cover).catch((error) => {
+        console.error('Error hashing image:', error);
+        return null;
+      })
+      : null;
+
+    await insertReport(
+      {
+        clientId: entry.id,
+        files,
+        description: entry.description,
+        latitude: entry.latitude,
+        longitude: entry.longitude,
+        severity: entry.severity,
+      },
+      imageResults,
+      imageHash
+    );
+  };
+
+  return {
+    // Categories resolve against the taxonomy, so replays wait for it to load
+    ready: !taxonomyLoading,
+    detectEachImage,
+    insertReport,
+    submitQueuedReport,
+  };
+}
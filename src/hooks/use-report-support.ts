@@ -0,0 +1,46 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { supportReport, withdrawSupport } from "@/lib/support";
+
+/**
+ * The reports the signed-in citizen has said "me too" on, with a toggle.
+ * Resolves to the new state so callers can adjust counts they display.
+ */
+export function useReportSupport() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["report-support", user?.id];
+
+  const { data: supportedIds = [] } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_supporters')
+        .select('report_id')
+        .eq('user_id', user!.id);
+
+      if (error) throw error;
+      return data.map((row) => row.report_id);
+    },
+    enabled: !!user,
+  });
+
+  const toggleSupport = async (reportId: string) => {
+    if (!user) return false;
+
+    const supporting = !supportedIds.includes(reportId);
+    if (supporting) {
+      await supportReport(reportId, user.id);
+    } else {
+      await withdrawSupport(reportId, user.id);
+    }
+    await queryClient.invalidateQueries({ queryKey });
+    return supporting;
+  };
+
+  return {
+    isSupporting: (reportId: string) => supportedIds.includes(reportId),
+    toggleSupport,
+  };
+}
@@ -0,0 +1,52 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Crew, StaffMember } from "@/types/workOrder";
+
+const STAFF_DIRECTORY_QUERY_KEY = ["staff-directory"];
+
+const fetchStaffDirectory = async () => {
+  const [staffResult, crewsResult] = await Promise.all([
+    supabase.rpc('list_staff'),
+    supabase.from('crews').select('id, name, department, crew_members(user_id)').order('name'),
+  ]);
+
+  if (staffResult.error) throw staffResult.error;
+  if (crewsResult.error) throw crewsResult.error;
+
+  return {
+    staff: staffResult.data as StaffMember[],
+    crews: crewsResult.data.map((crew): Crew => ({
+      id: crew.id,
+      name: crew.name,
+      department: crew.department,
+      member_ids: crew.crew_members.map((m) => m.user_id),
+    })),
+  };
+};
+
+/**
+ * Staff members and crews that work can be assigned to.
+ * Only staff and admins may load it, so callers must gate on the role.
+ */
+export function useStaffDirectory(enabled = true) {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery({
+    queryKey: STAFF_DIRECTORY_QUERY_KEY,
+    queryFn: fetchStaffDirectory,
+    staleTime: 5 * 60 * 1000,
+    enabled,
+  });
+
+  const staff = data?.staff ?? [];
+  const crews = data?.crews ?? [];
+
+  return {
+    staff,
+    crews,
+    loading: isLoading,
+    getStaffName: (id: string | null) =>
+      (id && staff.find((s) => s.id === id)?.display_name) || "Unknown staff member",
+    getCrewName: (id: string | null) => (id && crews.find((c) => c.id === id)?.name) || "Unknown crew",
+    refresh: () => queryClient.invalidateQueries({ queryKey: STAFF_DIRECTORY_QUERY_KEY }),
+  };
+}
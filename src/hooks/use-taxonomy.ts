@@ -0,0 +1,71 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Category, Department, IssueCategory } from "@/types/report";
+
+const TAXONOMY_QUERY_KEY = ["taxonomy"];
+
+// Used while the taxonomy loads, or for a category that has since been removed
+const FALLBACK_CATEGORY = "other";
+const FALLBACK_COLOR = "#6b7280";
+const FALLBACK_ICON = "⚠️";
+const FALLBACK_DEPARTMENT = "General Services";
+const FALLBACK_PRIORITY_WEIGHT = 5;
+
+// Stable empty lists so effects that depend on them don't rerun while loading
+const NO_CATEGORIES: Category[] = [];
+const NO_DEPARTMENTS: Department[] = [];
+
+const fetchTaxonomy = async () => {
+  const [categoriesResult, departmentsResult] = await Promise.all([
+    supabase.from('categories').select('*').order('sort_order').order('label'),
+    supabase.from('departments').select('*').order('name'),
+  ]);
+
+  if (categoriesResult.error) throw categoriesResult.error;
+  if (departmentsResult.error) throw departmentsResult.error;
+
+  return {
+    categories: categoriesResult.data as Category[],
+    departments: departmentsResult.data as Department[],
+  };
+};
+
+/**
+ * Categories and departments as configured by admins. Every colour, icon,
+ * label and default department shown in the app should come from here.
+ */
+export function useTaxonomy() {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery({
+    queryKey: TAXONOMY_QUERY_KEY,
+    queryFn: fetchTaxonomy,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const categories = data?.categories ?? NO_CATEGORIES;
+  const departments = data?.departments ?? NO_DEPARTMENTS;
+
+  const getCategory = (slug: IssueCategory) => categories.find((c) => c.slug === slug);
+
+  // Maps a detected category onto one that is currently accepted for new reports
+  const resolveCategory = (slug: IssueCategory): IssueCategory => {
+    if (getCategory(slug)?.is_active) return slug;
+    return getCategory(FALLBACK_CATEGORY) ? FALLBACK_CATEGORY : categories.find((c) => c.is_active)?.slug ?? slug;
+  };
+
+  return {
+    categories,
+    activeCategories: categories.filter((c) => c.is_active),
+    departments,
+    loading: isLoading,
+    getCategory,
+    resolveCategory,
+    getCategoryLabel: (slug: IssueCategory) => getCategory(slug)?.label ?? slug,
+    getCategoryColor: (slug: IssueCategory) => getCategory(slug)?.color ?? FALLBACK_COLOR,
+    getCategoryIcon: (slug: IssueCategory) => getCategory(slug)?.icon ?? FALLBACK_ICON,
+    getDefaultDepartment: (slug: IssueCategory) =>
+      getCategory(slug)?.default_department ?? getCategory(FALLBACK_CATEGORY)?.default_department ?? FALLBACK_DEPARTMENT,
+    getPriorityWeight: (slug: IssueCategory) => getCategory(slug)?.priority_weight ?? FALLBACK_PRIORITY_WEIGHT,
+    refresh: () => queryClient.invalidateQueries({ queryKey: TAXONOMY_QUERY_KEY }),
+  };
+}
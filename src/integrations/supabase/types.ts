@@ -14,60 +14,1201 @@ export type Database = {
   }
   public: {
     Tables: {
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          default_department: string
+          icon: string
+          is_active: boolean
+          label: string
+          priority_weight: number
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          default_department: string
+          icon?: string
+          is_active?: boolean
+          label: string
+          priority_weight?: number
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          default_department?: string
+          icon?: string
+          is_active?: boolean
+          label?: string
+          priority_weight?: number
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_default_department_fkey"
+            columns: ["default_department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      crew_members: {
+        Row: {
+          created_at: string
+          crew_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          crew_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          crew_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crew_members_crew_id_fkey"
+            columns: ["crew_id"]
+            isOneToOne: false
+            referencedRelation: "crews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crews: {
+        Row: {
+          created_at: string
+          department: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crews_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      departments: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      guest_report_claims: {
+        Row: {
+          code: string
+          created_at: string
+          guest_id: string
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          guest_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          guest_id?: string
+        }
+        Relationships: []
+      }
+      labeled_examples: {
+        Row: {
+          ai_category: string | null
+          ai_confidence: number | null
+          ai_model_version: string | null
+          boxes: Json
+          id: string
+          image_height: number | null
+          image_url: string
+          image_width: number | null
+          label_category: string | null
+          media_id: string
+          report_id: string
+          reviewed_at: string
+          reviewed_by: string | null
+          spot_check: boolean
+          verdict: string
+        }
+        Insert: {
+          ai_category?: string | null
+          ai_confidence?: number | null
+          ai_model_version?: string | null
+          boxes?: Json
+          id?: string
+          image_height?: number | null
+          image_url: string
+          image_width?: number | null
+          label_category?: string | null
+          media_id: string
+          report_id: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+          spot_check?: boolean
+          verdict: string
+        }
+        Update: {
+          ai_category?: string | null
+          ai_confidence?: number | null
+          ai_model_version?: string | null
+          boxes?: Json
+          id?: string
+          image_height?: number | null
+          image_url?: string
+          image_width?: number | null
+          label_category?: string | null
+          media_id?: string
+          report_id?: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+          spot_check?: boolean
+          verdict?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labeled_examples_media_id_fkey"
+            columns: ["media_id"]
+            isOneToOne: false
+            referencedRelation: "report_media"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "labeled_examples_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          body: string | null
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          id: string
+          kind: string
+          last_error: string | null
+          payload: Json
+          provider: string | null
+          recipient: string
+          report_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          body?: string | null
+          channel: string
+          claimed_at?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          last_error?: string | null
+          payload?: Json
+          provider?: string | null
+          recipient: string
+          report_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          body?: string | null
+          channel?: string
+          claimed_at?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          last_error?: string | null
+          payload?: Json
+          provider?: string | null
+          recipient?: string
+          report_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          email_enabled: boolean
+          notify_resolutions: boolean
+          notify_sla_breaches: boolean
+          notify_status_changes: boolean
+          phone: string | null
+          sms_enabled: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email_enabled?: boolean
+          notify_resolutions?: boolean
+          notify_sla_breaches?: boolean
+          notify_status_changes?: boolean
+          phone?: string | null
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          email_enabled?: boolean
+          notify_resolutions?: boolean
+          notify_sla_breaches?: boolean
+          notify_status_changes?: boolean
+          phone?: string | null
+          sms_enabled?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          read_at: string | null
+          report_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          report_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          report_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          department: string | null
+          display_name: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          department?: string | null
+          display_name?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          department?: string | null
+          display_name?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      report_comments: {
+        Row: {
+          attachment_urls: string[]
+          author_id: string
+          author_is_staff: boolean
+          body: string
+          created_at: string
+          id: string
+          is_internal: boolean
+          report_id: string
+        }
+        Insert: {
+          attachment_urls?: string[]
+          author_id?: string
+          author_is_staff?: boolean
+          body: string
+          created_at?: string
+          id?: string
+          is_internal?: boolean
+          report_id: string
+        }
+        Update: {
+          attachment_urls?: string[]
+          author_id?: string
+          author_is_staff?: boolean
+          body?: string
+          created_at?: string
+          id?: string
+          is_internal?: boolean
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_comments_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_detections: {
+        Row: {
+          bbox_height: number | null
+          bbox_width: number | null
+          bbox_x: number | null
+          bbox_y: number | null
+          created_at: string
+          id: string
+          label: string
+          media_id: string | null
+          model_version: string | null
+          report_id: string
+          score: number
+        }
+        Insert: {
+          bbox_height?: number | null
+          bbox_width?: number | null
+          bbox_x?: number | null
+          bbox_y?: number | null
+          created_at?: string
+          id?: string
+          label: string
+          media_id?: string | null
+          model_version?: string | null
+          report_id: string
+          score: number
+        }
+        Update: {
+          bbox_height?: number | null
+          bbox_width?: number | null
+          bbox_x?: number | null
+          bbox_y?: number | null
+          created_at?: string
+          id?: string
+          label?: string
+          media_id?: string | null
+          model_version?: string | null
+          report_id?: string
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_detections_media_id_fkey"
+            columns: ["media_id"]
+            isOneToOne: false
+            referencedRelation: "report_media"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_detections_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          event_type: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          reason: string | null
+          report_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          reason?: string | null
+          report_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          reason?: string | null
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_events_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_followers: {
+        Row: {
+          created_at: string
+          report_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          report_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          report_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_followers_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_media: {
+        Row: {
+          ai_category: string | null
+          ai_confidence: number | null
+          ai_labels: string[]
+          ai_model_version: string | null
+          ai_processed_image_url: string | null
+          created_at: string
+          id: string
+          media_type: string
+          position: number
+          report_id: string
+          url: string
+        }
+        Insert: {
+          ai_category?: string | null
+          ai_confidence?: number | null
+          ai_labels?: string[]
+          ai_model_version?: string | null
+          ai_processed_image_url?: string | null
+          created_at?: string
+          id?: string
+          media_type: string
+          position?: number
+          report_id: string
+          url: string
+        }
+        Update: {
+          ai_category?: string | null
+          ai_confidence?: number | null
+          ai_labels?: string[]
+          ai_model_version?: string | null
+          ai_processed_image_url?: string | null
+          created_at?: string
+          id?: string
+          media_type?: string
+          position?: number
+          report_id?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_media_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_supporters: {
+        Row: {
+          created_at: string
+          report_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          report_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          report_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_supporters_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reports: {
         Row: {
+          ai_confidence: number | null
+          ai_labels: string[]
+          ai_model_version: string | null
           ai_processed_image_url: string | null
+          assigned_to: string | null
           category: string
+          citizen_feedback: string | null
+          citizen_feedback_at: string | null
+          citizen_feedback_note: string | null
+          client_id: string | null
+          confirmation_due_at: string | null
           created_at: string
           department: string
           description: string
+          due_at: string | null
+          duplicate_of: string | null
+          escalated_at: string | null
+          escalation_level: number
           id: string
+          image_hash: string | null
           image_url: string
           latitude: number
           longitude: number
+          resolution_note: string | null
+          resolution_photo_url: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          routing_rule_id: string | null
+          severity: string
           status: string
+          status_reason: string | null
+          support_count: number
           updated_at: string
           user_id: string | null
         }
         Insert: {
+          ai_confidence?: number | null
+          ai_labels?: string[]
+          ai_model_version?: string | null
           ai_processed_image_url?: string | null
+          assigned_to?: string | null
           category: string
+          citizen_feedback?: string | null
+          citizen_feedback_at?: string | null
+          citizen_feedback_note?: string | null
+          client_id?: string | null
+          confirmation_due_at?: string | null
           created_at?: string
           department: string
           description: string
+          due_at?: string | null
+          duplicate_of?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
           id?: string
+          image_hash?: string | null
           image_url: string
           latitude: number
           longitude: number
+          resolution_note?: string | null
+          resolution_photo_url?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          routing_rule_id?: string | null
+          severity?: string
           status?: string
+          status_reason?: string | null
+          support_count?: number
           updated_at?: string
           user_id?: string | null
         }
         Update: {
+          ai_confidence?: number | null
+          ai_labels?: string[]
+          ai_model_version?: string | null
           ai_processed_image_url?: string | null
+          assigned_to?: string | null
           category?: string
+          citizen_feedback?: string | null
+          citizen_feedback_at?: string | null
+          citizen_feedback_note?: string | null
+          client_id?: string | null
+          confirmation_due_at?: string | null
           created_at?: string
           department?: string
           description?: string
+          due_at?: string | null
+          duplicate_of?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
           id?: string
+          image_hash?: string | null
           image_url?: string
           latitude?: number
           longitude?: number
+          resolution_note?: string | null
+          resolution_photo_url?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          routing_rule_id?: string | null
+          severity?: string
           status?: string
+          status_reason?: string | null
+          support_count?: number
           updated_at?: string
           user_id?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "reports_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+          {
+            foreignKeyName: "reports_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "reports_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_routing_rule_id_fkey"
+            columns: ["routing_rule_id"]
+            isOneToOne: false
+            referencedRelation: "routing_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      routing_rules: {
+        Row: {
+          category: string | null
+          created_at: string
+          department: string
+          end_time: string | null
+          id: string
+          is_active: boolean
+          name: string
+          priority: number
+          severity: string | null
+          start_time: string | null
+          time_zone: string
+          updated_at: string
+          ward_id: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          department: string
+          end_time?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          priority?: number
+          severity?: string | null
+          start_time?: string | null
+          time_zone?: string
+          updated_at?: string
+          ward_id?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          department?: string
+          end_time?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          priority?: number
+          severity?: string | null
+          start_time?: string | null
+          time_zone?: string
+          updated_at?: string
+          ward_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routing_rules_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+          {
+            foreignKeyName: "routing_rules_department_fkey"
+            columns: ["department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "routing_rules_ward_id_fkey"
+            columns: ["ward_id"]
+            isOneToOne: false
+            referencedRelation: "wards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_policies: {
+        Row: {
+          category: string | null
+          created_at: string
+          escalate_to_department: string | null
+          id: string
+          resolve_within_hours: number
+          severity: string | null
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          escalate_to_department?: string | null
+          id?: string
+          resolve_within_hours: number
+          severity?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          escalate_to_department?: string | null
+          id?: string
+          resolve_within_hours?: number
+          severity?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_policies_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+          {
+            foreignKeyName: "sla_policies_escalate_to_department_fkey"
+            columns: ["escalate_to_department"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      wards: {
+        Row: {
+          boundary: Json
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          boundary: Json
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          boundary?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
+      work_orders: {
+        Row: {
+          assignee_id: string | null
+          completed_at: string | null
+          completion_photos: string[]
+          created_at: string
+          created_by: string | null
+          crew_id: string | null
+          id: string
+          materials: string[]
+          notes: string | null
+          report_id: string
+          scheduled_for: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          completed_at?: string | null
+          completion_photos?: string[]
+          created_at?: string
+          created_by?: string | null
+          crew_id?: string | null
+          id?: string
+          materials?: string[]
+          notes?: string | null
+          report_id: string
+          scheduled_for?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          assignee_id?: string | null
+          completed_at?: string | null
+          completion_photos?: string[]
+          created_at?: string
+          created_by?: string | null
+          crew_id?: string | null
+          id?: string
+          materials?: string[]
+          notes?: string | null
+          report_id?: string
+          scheduled_for?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_orders_crew_id_fkey"
+            columns: ["crew_id"]
+            isOneToOne: false
+            referencedRelation: "crews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "work_orders_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_manage_report: {
+        Args: { _department: string; _user_id: string }
+        Returns: boolean
+      }
+      claim_guest_reports: {
+        Args: { _code: string }
+        Returns: number
+      }
+      claim_notification_deliveries: {
+        Args: {
+          _limit?: number
+          _max_attempts?: number
+          _stale_after?: unknown
+        }
+        Returns: {
+          attempts: number
+          body: string | null
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          id: string
+          kind: string
+          last_error: string | null
+          payload: Json
+          provider: string | null
+          recipient: string
+          report_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string | null
+          user_id: string
+        }[]
+      }
+      create_guest_report_claim: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      escalate_overdue_reports: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      find_duplicate_candidates: {
+        Args: {
+          _category: string
+          _days?: number
+          _exclude_id?: string
+          _image_hash?: string
+          _latitude: number
+          _longitude: number
+          _radius_m?: number
+        }
+        Returns: {
+          created_at: string
+          description: string
+          distance_m: number
+          id: string
+          image_url: string
+          similar_image: boolean
+          status: string
+        }[]
+      }
+      find_sla_policy: {
+        Args: { _category: string; _severity: string }
+        Returns: string
+      }
+      get_ai_review_queue: {
+        Args: {
+          _limit?: number
+          _max_confidence?: number
+          _spot_check_percent?: number
+        }
+        Returns: {
+          ai_category: string
+          ai_confidence: number
+          ai_labels: string[]
+          ai_model_version: string
+          created_at: string
+          description: string
+          media_id: string
+          report_category: string
+          report_id: string
+          report_status: string
+          spot_check: boolean
+          url: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_allowed_status_transition: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      is_crew_member: {
+        Args: { _crew_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_staff: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      list_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          department: string
+          display_name: string
+          id: string
+        }[]
+      }
+      mark_report_viewed: {
+        Args: { _report_id: string }
+        Returns: undefined
+      }
+      match_routing_rule: {
+        Args: {
+          _at: string
+          _category: string
+          _latitude: number
+          _longitude: number
+          _severity: string
+        }
+        Returns: string
+      }
+      merge_reports: {
+        Args: { _canonical_id: string; _duplicate_ids: string[] }
+        Returns: number
+      }
+      notify_report_followers: {
+        Args: {
+          _body?: string
+          _report_id: string
+          _title: string
+          _type: string
+        }
+        Returns: undefined
+      }
+      point_in_polygon: {
+        Args: { _lat: number; _lon: number; _polygon: Json }
+        Returns: boolean
+      }
+      preview_report_routing: {
+        Args: { _report_id: string }
+        Returns: {
+          department: string
+          rule_id: string
+          rule_name: string
+        }[]
+      }
+      respond_to_resolution: {
+        Args: { _confirmed: boolean; _note?: string; _report_id: string }
+        Returns: undefined
+      }
+      save_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent?: string
+        }
+        Returns: undefined
+      }
+      status_requires_reason: {
+        Args: { _status: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "citizen" | "staff" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -194,6 +1335,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["citizen", "staff", "admin"],
+    },
   },
 } as const
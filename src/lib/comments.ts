@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import { prepareImageForUpload } from "@/lib/imageProcessing";
+import { uploadReportImage } from "@/lib/storage";
+
+// Most photos a single comment can carry
+export const MAX_COMMENT_ATTACHMENTS = 4;
+
+/**
+ * Posts a comment with its photos. Internal notes are only accepted from staff
+ * and are hidden from citizens by the database.
+ */
+export const addReportComment = async (reportId: string, body: string, isInternal: boolean, photos: File[]) => {
+  const attachmentUrls = await Promise.all(
+    photos.map(async (photo) => uploadReportImage(`comments/${reportId}`, await prepareImageForUpload(photo)))
+  );
+
+  const { error } = await supabase
+    .from('report_comments')
+    .insert({
+      report_id: reportId,
+      body: body.trim(),
+      is_internal: isInternal,
+      attachment_urls: attachmentUrls,
+    });
+
+  if (error) throw error;
+};
+
+export const deleteReportComment = async (commentId: string) => {
+  const { error } = await supabase
+    .from('report_comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,80 @@
+import { strFromU8 } from "fflate";
+import { describe, expect, it, vi } from "vitest";
+import { buildCocoFiles, buildYoloFiles, type DatasetImage } from "@/lib/datasets";
+import type { LabeledBox, LabeledExample } from "@/types/review";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const CLASSES = ["pothole", "garbage", "streetlight"];
+
+const buildImage = (mediaId: string, boxes: LabeledBox[], width = 800, height = 600): DatasetImage => ({
+  example: {
+    id: `example-${mediaId}`,
+    media_id: mediaId,
+    report_id: "report-1",
+    image_url: `https://example.test/${mediaId}.jpg`,
+    image_width: width,
+    image_height: height,
+    verdict: "corrected",
+    ai_category: "pothole",
+    ai_confidence: 0.9,
+    ai_model_version: "yolov8n-1",
+    label_category: "garbage",
+    boxes,
+    reviewed_by: null,
+    reviewed_at: "2025-12-01T10:00:00Z",
+    spot_check: false,
+  } satisfies LabeledExample,
+  fileName: `${mediaId}.jpg`,
+  bytes: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]),
+  width,
+  height,
+});
+
+describe("buildYoloFiles", () => {
+  it("writes centre-point boxes with zero-based class ids", () => {
+    const files = buildYoloFiles(
+      [buildImage("photo-1", [{ label: "garbage", x: 0.1, y: 0.2, width: 0.4, height: 0.2 }])],
+      CLASSES
+    );
+
+    expect(strFromU8(files["labels/photo-1.txt"])).toBe("1 0.3 0.3 0.4 0.2\n");
+    expect(files["images/photo-1.jpg"]).toEqual(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]));
+    expect(strFromU8(files["data.yaml"])).toContain("names:\n  0: pothole\n  1: garbage\n  2: streetlight\n");
+  });
+
+  it("leaves out boxes whose label is not a class and still writes an empty label file", () => {
+    const files = buildYoloFiles(
+      [buildImage("photo-2", [{ label: "graffiti", x: 0, y: 0, width: 0.5, height: 0.5 }])],
+      CLASSES
+    );
+
+    expect(strFromU8(files["labels/photo-2.txt"])).toBe("");
+  });
+});
+
+describe("buildCocoFiles", () => {
+  it("writes pixel boxes with one-based category ids", () => {
+    const files = buildCocoFiles(
+      [
+        buildImage("photo-1", [{ label: "pothole", x: 0.25, y: 0.5, width: 0.5, height: 0.25 }]),
+        buildImage("photo-2", [{ label: "streetlight", x: 0, y: 0, width: 1, height: 1 }], 100, 200),
+      ],
+      CLASSES
+    );
+    const instances = JSON.parse(strFromU8(files["annotations/instances.json"]));
+
+    expect(instances.categories.map((category: { id: number; name: string }) => [category.id, category.name])).toEqual([
+      [1, "pothole"],
+      [2, "garbage"],
+      [3, "streetlight"],
+    ]);
+    expect(instances.images.map((image: { id: number; width: number; height: number }) => [image.id, image.width, image.height]))
+      .toEqual([[1, 800, 600], [2, 100, 200]]);
+    expect(instances.annotations).toEqual([
+      { id: 1, image_id: 1, category_id: 1, bbox: [200, 300, 400, 150], area: 60000, iscrowd: 0 },
+      { id: 2, image_id: 2, category_id: 3, bbox: [0, 0, 100, 200], area: 20000, iscrowd: 0 },
+    ]);
+    expect(files["images/photo-2.jpg"]).toBeDefined();
+  });
+});
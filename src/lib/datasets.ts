@@ -0,0 +1,143 @@
+import { strToU8, zipSync } from "fflate";
+import { supabase } from "@/integrations/supabase/client";
+import type { DatasetFormat, LabeledExample } from "@/types/review";
+
+export interface DatasetImage {
+  example: LabeledExample;
+  fileName: string;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Reviewed photos with at least one box; rejected photos are never exported
+export const fetchTrainingExamples = async () => {
+  const { data, error } = await supabase
+    .from('labeled_examples')
+    .select('*')
+    .neq('verdict', 'rejected')
+    .order('reviewed_at', { ascending: true });
+
+  if (error) throw error;
+  return data as unknown as LabeledExample[];
+};
+
+// Photos come straight from the public bucket; their real size is read rather than trusted
+const loadDatasetImage = async (example: LabeledExample): Promise<DatasetImage> => {
+  const response = await fetch(example.image_url);
+  if (!response.ok) throw new Error(`Could not download ${example.image_url}`);
+  const blob = await response.blob();
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const extension = example.image_url.split('?')[0].split('.').pop()?.toLowerCase() || 'jpg';
+  return {
+    example,
+    fileName: `${example.media_id}.${extension}`,
+    bytes: new Uint8Array(await blob.arrayBuffer()),
+    width,
+    height,
+  };
+};
+
+const round = (value: number) => Number(value.toFixed(6));
+
+// Ultralytics layout: images/, labels/ with one "class cx cy w h" line per box, and data.yaml
+export const buildYoloFiles = (images: DatasetImage[], classes: string[]) => {
+  const files: Record<string, Uint8Array> = {
+    'data.yaml': strToU8(
+      ['path: .', 'train: images', 'val: images', 'names:', ...classes.map((name, index) => `  ${index}: ${name}`)].join('\n') + '\n'
+    ),
+  };
+
+  for (const image of images) {
+    const stem = image.fileName.replace(/\.[^.]+$/, '');
+    const lines = image.example.boxes
+      .filter((box) => classes.includes(box.label))
+      .map((box) => [
+        classes.indexOf(box.label),
+        round(box.x + box.width / 2),
+        round(box.y + box.height / 2),
+        round(box.width),
+        round(box.height),
+      ].join(' '));
+
+    files[`images/${image.fileName}`] = image.bytes;
+    files[`labels/${stem}.txt`] = strToU8(lines.join('\n') + (lines.length > 0 ? '\n' : ''));
+  }
+
+  return files;
+};
+
+// COCO detection layout: images/ and annotations/instances.json with pixel boxes
+export const buildCocoFiles = (images: DatasetImage[], classes: string[]) => {
+  let annotationId = 0;
+  const instances = {
+    info: { description: 'Civic issue reports reviewed by staff', date_created: new Date().toISOString() },
+    images: images.map((image, index) => ({
+      id: index + 1,
+      file_name: image.fileName,
+      width: image.width,
+      height: image.height,
+      coco_url: image.example.image_url,
+    })),
+    annotations: images.flatMap((image, index) =>
+      image.example.boxes
+        .filter((box) => classes.includes(box.label))
+        .map((box) => {
+          const bbox = [box.x * image.width, box.y * image.height, box.width * image.width, box.height * image.height].map(round);
+          return {
+            id: ++annotationId,
+            image_id: index + 1,
+            category_id: classes.indexOf(box.label) + 1,
+            bbox,
+            area: round(bbox[2] * bbox[3]),
+            iscrowd: 0,
+          };
+        })
+    ),
+    categories: classes.map((name, index) => ({ id: index + 1, name, supercategory: 'civic_issue' })),
+  };
+
+  const files: Record<string, Uint8Array> = {
+    'annotations/instances.json': strToU8(JSON.stringify(instances, null, 2)),
+  };
+  for (const image of images) {
+    files[`images/${image.fileName}`] = image.bytes;
+  }
+  return files;
+};
+
+/**
+ * Zip every reviewed photo that has boxes, with labels in the chosen format.
+ * `classes` fixes the class ids, so pass the full category list in a stable order.
+ * Returns the archive and how many reviewed photos were left out for having no boxes.
+ */
+export const buildTrainingDataset = async (format: DatasetFormat, classes: string[]) => {
+  const examples = await fetchTrainingExamples();
+  const boxed = examples.filter((example) => example.boxes.length > 0);
+  if (boxed.length === 0) throw new Error('No reviewed photos with boxes to export yet');
+
+  const images: DatasetImage[] = [];
+  for (const example of boxed) {
+    images.push(await loadDatasetImage(example));
+  }
+
+  const files = format === 'yolo' ? buildYoloFiles(images, classes) : buildCocoFiles(images, classes);
+  // Photos are already compressed, so storing them is as good as deflating
+  const archive = zipSync(files, { level: 0 });
+
+  return { archive, exported: boxed.length, skipped: examples.length - boxed.length };
+};
+
+export const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const url = window.URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
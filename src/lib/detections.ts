@@ -0,0 +1,18 @@
+import type { Detection, ReportDetection } from "@/types/detection";
+
+export const toDetection = (row: ReportDetection): Detection => ({
+  label: row.label,
+  score: row.score,
+  bbox: row.bbox_x !== null && row.bbox_y !== null && row.bbox_width !== null && row.bbox_height !== null
+    ? { x: row.bbox_x, y: row.bbox_y, width: row.bbox_width, height: row.bbox_height }
+    : null,
+});
+
+const LABEL_COLORS = ["#22c55e", "#f97316", "#3b82f6", "#eab308", "#ec4899", "#14b8a6"];
+
+// The same label gets the same colour on every photo
+export const getLabelColor = (label: string) => {
+  let hash = 0;
+  for (const char of label) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return LABEL_COLORS[hash % LABEL_COLORS.length];
+};
@@ -0,0 +1,39 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { DuplicateCandidate, IssueCategory } from "@/types/report";
+
+interface DuplicateSearch {
+  category: IssueCategory;
+  latitude: number;
+  longitude: number;
+  imageHash?: string | null;
+  excludeId?: string;
+}
+
+// Open reports of the same category nearby that may describe the same issue
+export const findDuplicateCandidates = async ({
+  category,
+  latitude,
+  longitude,
+  imageHash,
+  excludeId,
+}: DuplicateSearch): Promise<DuplicateCandidate[]> => {
+  const { data, error } = await supabase.rpc('find_duplicate_candidates', {
+    _category: category,
+    _latitude: latitude,
+    _longitude: longitude,
+    _image_hash: imageHash ?? undefined,
+    _exclude_id: excludeId,
+  });
+  if (error) throw error;
+  return data as DuplicateCandidate[];
+};
+
+// Fold duplicates into a canonical report; their reporters and followers follow and support it
+export const mergeReports = async (canonicalId: string, duplicateIds: string[]) => {
+  const { data, error } = await supabase.rpc('merge_reports', {
+    _canonical_id: canonicalId,
+    _duplicate_ids: duplicateIds,
+  });
+  if (error) throw error;
+  return data;
+};
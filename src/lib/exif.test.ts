@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { readPhotoMetadata } from "@/lib/exif";
+import { buildJpeg, JFIF_SEGMENT, SCAN_DATA, toFile } from "@/test/jpeg";
+
+const EMPTY = { location: null, capturedAt: null };
+
+describe("readPhotoMetadata", () => {
+  it("reads the GPS position and capture time from little-endian EXIF", async () => {
+    const file = toFile(
+      buildJpeg({ latitude: 12.9716, longitude: 77.5946, dateTimeOriginal: "2025:11:02 14:31:08" }),
+      "pothole.jpg"
+    );
+
+    const metadata = await readPhotoMetadata(file);
+
+    expect(metadata.location?.lat).toBeCloseTo(12.9716, 4);
+    expect(metadata.location?.lon).toBeCloseTo(77.5946, 4);
+    // Cameras write local time without a zone
+    expect(metadata.capturedAt).toBe(new Date(2025, 10, 2, 14, 31, 8).toISOString());
+  });
+
+  it("reads big-endian EXIF and makes south and west negative", async () => {
+    const file = toFile(buildJpeg({ littleEndian: false, latitude: -33.8688, longitude: -70.6693 }), "drain.jpg");
+
+    const metadata = await readPhotoMetadata(file);
+
+    expect(metadata.location?.lat).toBeCloseTo(-33.8688, 4);
+    expect(metadata.location?.lon).toBeCloseTo(-70.6693, 4);
+    expect(metadata.capturedAt).toBeNull();
+  });
+
+  it("ignores a 0,0 position written without a GPS fix", async () => {
+    const file = toFile(buildJpeg({ latitude: 0, longitude: 0, dateTimeOriginal: "2025:11:02 14:31:08" }), "dark.jpg");
+
+    const metadata = await readPhotoMetadata(file);
+
+    expect(metadata.location).toBeNull();
+    expect(metadata.capturedAt).not.toBeNull();
+  });
+
+  it("ignores capture times from before digital cameras", async () => {
+    const file = toFile(buildJpeg({ dateTimeOriginal: "1970:01:01 00:00:00" }), "reset-clock.jpg");
+
+    expect(await readPhotoMetadata(file)).toEqual(EMPTY);
+  });
+
+  it("gives empty metadata for a JPEG without EXIF", async () => {
+    const bytes = new Uint8Array([0xff, 0xd8, ...JFIF_SEGMENT, ...SCAN_DATA]);
+
+    expect(await readPhotoMetadata(toFile(bytes, "plain.jpg"))).toEqual(EMPTY);
+  });
+
+  it("gives empty metadata for other formats", async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    expect(await readPhotoMetadata(toFile(png, "screenshot.png", "image/png"))).toEqual(EMPTY);
+  });
+
+  it("gives empty metadata when the EXIF is cut short", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const bytes = buildJpeg({ latitude: 12.9716, longitude: 77.5946 });
+    // Stop partway through the GPS directory
+    const truncated = bytes.slice(0, 2 + JFIF_SEGMENT.length + 60);
+
+    expect(await readPhotoMetadata(toFile(truncated, "partial.jpg"))).toEqual(EMPTY);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
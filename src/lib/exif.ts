@@ -0,0 +1,188 @@
+import type { PhotoMetadata } from "@/types/report";
+
+// The EXIF block sits in the first APP1 segment, well inside this much of a JPEG
+const EXIF_SCAN_BYTES = 256 * 1024;
+
+const JPEG_SOI = 0xffd8;
+const JPEG_APP1 = 0xffe1;
+const JPEG_SOS = 0xffda;
+const JPEG_APP15 = 0xffef;
+const JPEG_COM = 0xfffe;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+const EMPTY_METADATA: PhotoMetadata = { location: null, capturedAt: null };
+
+// Reads tags out of the TIFF structure inside an EXIF segment
+const createTiffReader = (view: DataView, tiffStart: number) => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(offset, littleEndian);
+  const u32 = (offset: number) => view.getUint32(offset, littleEndian);
+
+  // Tag number to the offset of its 12-byte directory entry
+  const readIfd = (ifdOffset: number) => {
+    const entries = new Map<number, number>();
+    const start = tiffStart + ifdOffset;
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      entries.set(u16(entry), entry);
+    }
+    return entries;
+  };
+
+  // Values over four bytes are stored elsewhere, at an offset from the TIFF header
+  const valueOffset = (entry: number, size: number) => (size > 4 ? tiffStart + u32(entry + 8) : entry + 8);
+
+  const readAscii = (entry: number) => {
+    const count = u32(entry + 4);
+    const start = valueOffset(entry, count);
+    let text = "";
+    for (let i = 0; i < count; i++) {
+      const code = view.getUint8(start + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  };
+
+  const readRationals = (entry: number) => {
+    const count = u32(entry + 4);
+    const start = valueOffset(entry, count * 8);
+    return Array.from({ length: count }, (_, i) => {
+      const denominator = u32(start + i * 8 + 4);
+      return denominator === 0 ? 0 : u32(start + i * 8) / denominator;
+    });
+  };
+
+  const readPointer = (entry: number) => (u16(entry + 2) === TYPE_LONG ? u32(entry + 8) : null);
+
+  return { ifd0Offset: u32(tiffStart + 4), readIfd, readAscii, readRationals, readPointer, typeOf: (entry: number) => u16(entry + 2) };
+};
+
+// "2025:11:02 14:31:08" in the camera's local time
+const parseExifDate = (value: string) => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  return Number.isNaN(date.getTime()) || year < 1990 ? null : date.toISOString();
+};
+
+const toDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[], ref: string, negativeRef: string) => {
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return ref.toUpperCase() === negativeRef ? -value : value;
+};
+
+const readTiffMetadata = (view: DataView, tiffStart: number): PhotoMetadata => {
+  const tiff = createTiffReader(view, tiffStart);
+  const ifd0 = tiff.readIfd(tiff.ifd0Offset);
+
+  let capturedAt: string | null = null;
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exifOffset = exifPointer !== undefined ? tiff.readPointer(exifPointer) : null;
+  const original = exifOffset !== null ? tiff.readIfd(exifOffset).get(TAG_DATE_TIME_ORIGINAL) : undefined;
+  const dateEntry = original ?? ifd0.get(TAG_DATE_TIME);
+  if (dateEntry !== undefined && tiff.typeOf(dateEntry) === TYPE_ASCII) {
+    capturedAt = parseExifDate(tiff.readAscii(dateEntry));
+  }
+
+  let location: PhotoMetadata["location"] = null;
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  const gpsOffset = gpsPointer !== undefined ? tiff.readPointer(gpsPointer) : null;
+  if (gpsOffset !== null) {
+    const gps = tiff.readIfd(gpsOffset);
+    const latRef = gps.get(TAG_GPS_LATITUDE_REF);
+    const lat = gps.get(TAG_GPS_LATITUDE);
+    const lonRef = gps.get(TAG_GPS_LONGITUDE_REF);
+    const lon = gps.get(TAG_GPS_LONGITUDE);
+
+    if (latRef !== undefined && lat !== undefined && lonRef !== undefined && lon !== undefined) {
+      const latitude = toDegrees(tiff.readRationals(lat), tiff.readAscii(latRef), 'S');
+      const longitude = toDegrees(tiff.readRationals(lon), tiff.readAscii(lonRef), 'W');
+      // Some cameras write 0,0 when they had no fix
+      const valid = Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 && (latitude !== 0 || longitude !== 0);
+      if (valid) location = { lat: latitude, lon: longitude };
+    }
+  }
+
+  return { location, capturedAt };
+};
+
+/**
+ * Read where and when a JPEG was taken from its EXIF. Other formats, and photos whose
+ * EXIF is missing or malformed, give empty metadata rather than an error.
+ */
+export const readPhotoMetadata = async (file: File): Promise<PhotoMetadata> => {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== JPEG_SOI) return EMPTY_METADATA;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === JPEG_SOS) break;
+
+      // "Exif\0\0" then the TIFF header
+      if (marker === JPEG_APP1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        return readTiffMetadata(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch (error) {
+    // Offsets pointing past the scanned bytes end up here
+    console.warn('Could not read photo EXIF:', error);
+  }
+
+  return EMPTY_METADATA;
+};
+
+/**
+ * Copy of a JPEG without its metadata: every APP1-APP15 segment (EXIF, XMP, ICC,
+ * maker notes) and comments. The JFIF header and the image data are kept byte for
+ * byte. Returns null when the bytes are not a well-formed JPEG.
+ */
+export const stripJpegMetadata = (buffer: ArrayBuffer): Uint8Array | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== JPEG_SOI) return null;
+
+  const kept: Uint8Array[] = [new Uint8Array(buffer, 0, 2)];
+  let offset = 2;
+  let reachedScan = false;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+
+    // Everything from the start of scan on is image data
+    if (marker === JPEG_SOS) {
+      kept.push(new Uint8Array(buffer, offset));
+      reachedScan = true;
+      break;
+    }
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (end > view.byteLength) return null;
+    const isMetadata = (marker >= JPEG_APP1 && marker <= JPEG_APP15) || marker === JPEG_COM;
+    if (!isMetadata) kept.push(new Uint8Array(buffer, offset, end - offset));
+    offset = end;
+  }
+  if (!reachedScan) return null;
+
+  const stripped = new Uint8Array(kept.reduce((length, part) => length + part.length, 0));
+  kept.reduce((position, part) => {
+    stripped.set(part, position);
+    return position + part.length;
+  }, 0);
+  return stripped;
+};
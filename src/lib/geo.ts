@@ -0,0 +1,31 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points (haversine formula)
+export const distanceKm = (
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number }
+): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+// Lat/lon box around a point, used to pre-filter queries before exact distance checks
+export const getBoundingBox = (center: { lat: number; lon: number }, radiusKm: number) => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lonDelta = latDelta / Math.max(Math.cos(toRadians(center.lat)), 0.01);
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLon: center.lon - lonDelta,
+    maxLon: center.lon + lonDelta,
+  };
+};
+
+export const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
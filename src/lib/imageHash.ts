@@ -0,0 +1,49 @@
+// Difference hash (dHash): shrink to 9x8 grayscale and record whether each pixel is
+// brighter than its right neighbour. Near-identical photos differ in only a few bits.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read the image"));
+    };
+    img.src = url;
+  });
+
+// 64-bit perceptual hash of an image as 16 hex characters
+export const computeImageHash = async (file: File): Promise<string> => {
+  const img = await loadImage(file);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+
+  ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hex = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    // Each row gives 8 bits, i.e. two hex digits
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+};
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { readPhotoMetadata } from "@/lib/exif";
+import { prepareReportImage } from "@/lib/imageProcessing";
+import { buildJpeg, JFIF_SEGMENT, SCAN_DATA, toFile } from "@/test/jpeg";
+
+// There is no canvas or createImageBitmap under Node, so every photo takes the
+// path for photos the browser cannot redraw
+describe("prepareReportImage when the photo cannot be redrawn", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("uploads a JPEG with its metadata cut out", async () => {
+    const photo = toFile(
+      buildJpeg({ latitude: 18.975, longitude: 72.8258, dateTimeOriginal: "2025:11:02 14:31:08" }),
+      "IMG_0042.JPEG"
+    );
+
+    const { file, metadata } = await prepareReportImage(photo);
+
+    expect(metadata.location?.lat).toBeCloseTo(18.975, 4);
+    expect(file.name).toBe("IMG_0042.jpg");
+    expect(file.type).toBe("image/jpeg");
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(
+      new Uint8Array([0xff, 0xd8, ...JFIF_SEGMENT, ...SCAN_DATA])
+    );
+    expect(await readPhotoMetadata(file)).toEqual({ location: null, capturedAt: null });
+  });
+
+  it("refuses other formats rather than upload them with their metadata", async () => {
+    const heic = toFile(new Uint8Array([0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70]), "IMG_0043.HEIC", "image/heic");
+
+    await expect(prepareReportImage(heic)).rejects.toThrow("IMG_0043.HEIC could not be read");
+  });
+
+  it("refuses a truncated JPEG", async () => {
+    const truncated = toFile(buildJpeg().slice(0, 40), "broken.jpg");
+
+    await expect(prepareReportImage(truncated)).rejects.toThrow("broken.jpg could not be read");
+  });
+});
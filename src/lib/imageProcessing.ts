@@ -0,0 +1,68 @@
+import { readPhotoMetadata, stripJpegMetadata } from "@/lib/exif";
+import type { PhotoMetadata } from "@/types/report";
+
+// Long edge after downscaling; plenty for the detector and for staff to see the damage
+export const MAX_IMAGE_DIMENSION = 1920;
+const IMAGE_QUALITY = 0.82;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, IMAGE_QUALITY));
+
+const renameFile = (name: string, extension: string) => `${name.replace(/\.[^.]+$/, '') || 'photo'}.${extension}`;
+
+// When the browser cannot redraw a photo, a JPEG is still uploaded with its metadata
+// cut out. Anything else would go up with its EXIF intact, so it is refused.
+const stripOrReject = async (file: File) => {
+  const stripped = stripJpegMetadata(await file.arrayBuffer());
+  if (!stripped) {
+    throw new Error(`${file.name} could not be read. Please use a JPEG, PNG or WebP photo.`);
+  }
+  return new File([stripped], renameFile(file.name, 'jpg'), { type: 'image/jpeg', lastModified: file.lastModified });
+};
+
+/**
+ * Get a phone photo ready for upload: note its GPS and capture time, then redraw it
+ * upright, no larger than MAX_IMAGE_DIMENSION, as WebP (JPEG where the browser cannot
+ * encode WebP). Redrawing drops the EXIF, so nothing else about the device or owner
+ * leaves the phone. A photo the browser cannot redraw is never uploaded as it was:
+ * JPEGs are stripped of their metadata and other formats throw an error to show.
+ */
+export const prepareReportImage = async (file: File): Promise<{ file: File; metadata: PhotoMetadata }> => {
+  const metadata = await readPhotoMetadata(file);
+
+  let bitmap: ImageBitmap;
+  try {
+    // Applies the EXIF orientation, so sideways phone photos come out upright
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.warn('Could not decode photo for resizing:', error);
+    return { file: await stripOrReject(file), metadata };
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    return { file: await stripOrReject(file), metadata };
+  }
+
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  // Browsers without a WebP encoder quietly hand back a PNG instead
+  let blob = await canvasToBlob(canvas, 'image/webp');
+  if (!blob || blob.type !== 'image/webp') blob = await canvasToBlob(canvas, 'image/jpeg');
+  if (!blob) return { file: await stripOrReject(file), metadata };
+
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  return {
+    file: new File([blob], renameFile(file.name, extension), { type: blob.type, lastModified: file.lastModified }),
+    metadata,
+  };
+};
+
+// Comment, resolution and work order photos only need the privacy and size handling
+export const prepareImageForUpload = async (file: File) => (await prepareReportImage(file)).file;
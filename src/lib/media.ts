@@ -0,0 +1,106 @@
+import { prepareReportImage } from "@/lib/imageProcessing";
+import type { MediaDraft, ReportMediaType } from "@/types/report";
+
+export const MAX_REPORT_MEDIA = 6;
+// One short clip per report is enough to show a dump or a leak
+export const MAX_REPORT_VIDEOS = 1;
+export const MAX_VIDEO_SECONDS = 30;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+export const getMediaType = (file: File): ReportMediaType | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  return null;
+};
+
+const getVideoDuration = (file: File) =>
+  new Promise<number>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(video.duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read the video"));
+    };
+    video.src = url;
+  });
+
+// Turns newly picked files into drafts after the ones already chosen. Photos are resized
+// and stripped of EXIF here, keeping their location and capture time on the draft. Files
+// that would break a limit are left out and described in `rejected` so the picker can say why.
+export const createMediaDrafts = async (files: File[], existing: MediaDraft[]) => {
+  const drafts: MediaDraft[] = [];
+  const rejected: string[] = [];
+  let videoCount = existing.filter((draft) => draft.type === 'video').length;
+
+  for (const file of files) {
+    const type = getMediaType(file);
+
+    if (!type) {
+      rejected.push(`${file.name} is not a photo or video`);
+      continue;
+    }
+    if (existing.length + drafts.length >= MAX_REPORT_MEDIA) {
+      rejected.push(`Only ${MAX_REPORT_MEDIA} photos and videos can be attached`);
+      break;
+    }
+    if (type === 'video') {
+      if (videoCount >= MAX_REPORT_VIDEOS) {
+        rejected.push(`Only ${MAX_REPORT_VIDEOS} video can be attached`);
+        continue;
+      }
+      if (file.size > MAX_VIDEO_BYTES) {
+        rejected.push(`${file.name} is larger than ${MAX_VIDEO_BYTES / 1024 / 1024} MB`);
+        continue;
+      }
+      const duration = await getVideoDuration(file).catch(() => null);
+      if (duration === null || duration > MAX_VIDEO_SECONDS) {
+        rejected.push(`${file.name} must be a clip of ${MAX_VIDEO_SECONDS} seconds or less`);
+        continue;
+      }
+      videoCount++;
+      drafts.push({ id: crypto.randomUUID(), file, type, previewUrl: URL.createObjectURL(file), metadata: null });
+      continue;
+    }
+
+    let prepared: Awaited<ReturnType<typeof prepareReportImage>>;
+    try {
+      prepared = await prepareReportImage(file);
+    } catch (error) {
+      rejected.push(error instanceof Error ? error.message : `${file.name} could not be read`);
+      continue;
+    }
+    drafts.push({
+      id: crypto.randomUUID(),
+      file: prepared.file,
+      type,
+      previewUrl: URL.createObjectURL(prepared.file),
+      metadata: prepared.metadata,
+    });
+  }
+
+  return { drafts, rejected };
+};
+
+export const releaseMediaDrafts = (drafts: MediaDraft[]) => {
+  drafts.forEach((draft) => URL.revokeObjectURL(draft.previewUrl));
+};
+
+// The first photo is the cover: it is analysed first, hashed for duplicates and shown in lists
+export const getCoverImage = (drafts: MediaDraft[]) => drafts.find((draft) => draft.type === 'image') ?? null;
+
+export const moveMediaDraft = (drafts: MediaDraft[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= drafts.length) return drafts;
+  const next = [...drafts];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// The first photo in the report that says where it was taken
+export const getPhotoLocation = (drafts: MediaDraft[]) =>
+  drafts.find((draft) => draft.metadata?.location)?.metadata ?? null;
@@ -19,7 +19,7 @@ export const mockReports: Report[] = [
     description: "Overflowing garbage bins near Central Park entrance",
     location: { lat: 40.7829, lon: -73.9654 },
     category: "garbage",
-    department: "Sanitation",
+    department: "Sanitation Department",
     status: "in-progress",
     createdAt: new Date("2025-01-14"),
   },
@@ -30,21 +30,8 @@ export const mockReports: Report[] = [
     description: "Street light not working on Oak Avenue",
     location: { lat: 40.7580, lon: -73.9855 },
     category: "streetlight",
-    department: "Public Works",
+    department: "Public Works - Lighting",
     status: "resolved",
     createdAt: new Date("2025-01-13"),
   },
 ];
-
-export const getCategoryColor = (category: string): string => {
-  switch (category) {
-    case "pothole":
-      return "bg-orange-100 text-orange-800 border-orange-200";
-    case "garbage":
-      return "bg-green-100 text-green-800 border-green-200";
-    case "streetlight":
-      return "bg-yellow-100 text-yellow-800 border-yellow-200";
-    default:
-      return "bg-gray-100 text-gray-800 border-gray-200";
-  }
-};
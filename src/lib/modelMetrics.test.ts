@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildConfusionMatrix, getCalibration, getCalibrationError, getMetricsTrend
+} from "@/lib/modelMetrics";
+import type { ScoredExample } from "@/types/review";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const CLASSES = ["pothole", "garbage"];
+
+const scored = (
+  ai_category: string,
+  label_category: string | null,
+  ai_confidence: number | null = 0.9,
+  reviewed_at = "2025-12-01T10:00:00Z"
+): ScoredExample => ({
+  ai_category,
+  ai_confidence,
+  ai_model_version: "yolov8n-1",
+  label_category,
+  reviewed_at,
+  spot_check: false,
+});
+
+describe("buildConfusionMatrix", () => {
+  it("counts reviewer categories by row and model categories by column", () => {
+    const matrix = buildConfusionMatrix(
+      [
+        scored("pothole", "pothole"),
+        scored("pothole", "garbage"),
+        scored("garbage", "garbage"),
+        scored("garbage", "garbage"),
+        // Neither a retired category nor a missing label lands in the matrix
+        scored("graffiti", "pothole"),
+        scored("pothole", null),
+      ],
+      CLASSES
+    );
+
+    expect(matrix).toEqual([
+      [1, 0],
+      [1, 2],
+    ]);
+  });
+});
+
+describe("getCalibration", () => {
+  it("puts each confidence in the bin whose lower edge it reaches", () => {
+    const bins = getCalibration([
+      scored("pothole", "pothole", 0),
+      scored("pothole", "pothole", 0.1),
+      scored("pothole", "garbage", 0.19),
+      scored("pothole", "pothole", null),
+    ]);
+
+    expect(bins).toHaveLength(10);
+    expect(bins[0]).toEqual({ label: "0-10%", count: 1, meanConfidence: 0, accuracy: 1 });
+    expect(bins[1].label).toBe("10-20%");
+    expect(bins[1].count).toBe(2);
+    expect(bins[1].meanConfidence).toBeCloseTo(0.145);
+    expect(bins[1].accuracy).toBe(0.5);
+    expect(bins.slice(2).every((bin) => bin.count === 0 && bin.accuracy === null)).toBe(true);
+  });
+
+  it("keeps a confidence of exactly 1 in the top bin", () => {
+    const bins = getCalibration([scored("pothole", "pothole", 0.9), scored("pothole", "pothole", 1)]);
+
+    expect(bins[9]).toMatchObject({ label: "90-100%", count: 2, accuracy: 1 });
+    expect(bins[9].meanConfidence).toBeCloseTo(0.95);
+  });
+});
+
+describe("getCalibrationError", () => {
+  it("weights each bin's confidence gap by its share of photos", () => {
+    const bins = getCalibration([
+      scored("pothole", "pothole", 0.95),
+      scored("pothole", "garbage", 0.95),
+      scored("pothole", "pothole", 0.55),
+      scored("pothole", "pothole", 0.55),
+    ]);
+
+    // Half the photos are 0.45 over-confident, half are 0.45 under-confident
+    expect(getCalibrationError(bins)).toBeCloseTo(0.45);
+  });
+
+  it("has no error without any photos", () => {
+    expect(getCalibrationError(getCalibration([]))).toBeNull();
+  });
+});
+
+describe("getMetricsTrend", () => {
+  beforeEach(() => {
+    vi.stubEnv("TZ", "Asia/Kolkata");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("buckets reviews by the local week they start on, oldest first", () => {
+    const trend = getMetricsTrend(
+      [
+        // Monday 8 December 00:30 IST is still Sunday 7 December in UTC
+        scored("pothole", "pothole", 0.9, "2025-12-07T19:00:00Z"),
+        scored("garbage", "pothole", 0.9, "2025-12-14T18:00:00Z"),
+        // Sunday 7 December 23:00 IST belongs to the week before
+        scored("pothole", "pothole", 0.9, "2025-12-07T17:30:00Z"),
+      ],
+      CLASSES
+    );
+
+    expect(trend.map((point) => [point.week, point.examples, point.accuracy])).toEqual([
+      ["2025-12-01", 1, 1],
+      ["2025-12-08", 2, 0.5],
+    ]);
+  });
+});
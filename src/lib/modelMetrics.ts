@@ -0,0 +1,146 @@
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  CalibrationBin, CategoryMetrics, MetricsSummary, MetricsTrendPoint, ModelVersionMetrics, ScoredExample
+} from "@/types/review";
+
+const CALIBRATION_BINS = 10;
+
+// Reviewed photos the model classified and a reviewer labelled; rejected photos have no label.
+// Photos no detector could look at have no AI category, so they drop out here too.
+export const fetchScoredExamples = async () => {
+  const { data, error } = await supabase
+    .from('labeled_examples')
+    .select('ai_category, ai_confidence, ai_model_version, label_category, reviewed_at, spot_check')
+    .neq('verdict', 'rejected')
+    .not('ai_category', 'is', null)
+    .not('ai_model_version', 'is', null)
+    .order('reviewed_at', { ascending: true });
+
+  if (error) throw error;
+  return data as ScoredExample[];
+};
+
+// Taxonomy categories first, then any retired ones still present in the labels
+export const getMetricClasses = (examples: ScoredExample[], categories: string[]) => {
+  const classes = [...categories];
+  for (const example of examples) {
+    for (const category of [example.label_category, example.ai_category]) {
+      if (category && !classes.includes(category)) classes.push(category);
+    }
+  }
+  return classes;
+};
+
+// Rows are the reviewer's category, columns the model's
+export const buildConfusionMatrix = (examples: ScoredExample[], classes: string[]) => {
+  const matrix = classes.map(() => classes.map(() => 0));
+  for (const example of examples) {
+    const actual = classes.indexOf(example.label_category ?? '');
+    const predicted = classes.indexOf(example.ai_category ?? '');
+    if (actual >= 0 && predicted >= 0) matrix[actual][predicted] += 1;
+  }
+  return matrix;
+};
+
+const ratio = (value: number, total: number) => (total > 0 ? value / total : null);
+
+const mean = (values: (number | null)[]) => {
+  const defined = values.filter((value): value is number => value !== null);
+  return defined.length > 0 ? defined.reduce((sum, value) => sum + value, 0) / defined.length : null;
+};
+
+export const getCategoryMetrics = (matrix: number[][], classes: string[]): CategoryMetrics[] =>
+  classes.map((category, i) => {
+    const truePositives = matrix[i][i];
+    const support = matrix[i].reduce((sum, count) => sum + count, 0);
+    const predicted = matrix.reduce((sum, row) => sum + row[i], 0);
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+    const f1 = precision !== null && recall !== null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : null;
+
+    return { category, support, predicted, truePositives, precision, recall, f1 };
+  });
+
+export const summarizeMetrics = (examples: ScoredExample[], classes: string[]): MetricsSummary => {
+  const perCategory = getCategoryMetrics(buildConfusionMatrix(examples, classes), classes);
+  const correct = examples.filter((example) => example.ai_category === example.label_category).length;
+
+  return {
+    examples: examples.length,
+    accuracy: ratio(correct, examples.length),
+    precision: mean(perCategory.map((metrics) => metrics.precision)),
+    recall: mean(perCategory.map((metrics) => metrics.recall)),
+  };
+};
+
+// How often the model was right at each confidence it reported
+export const getCalibration = (examples: ScoredExample[]): CalibrationBin[] =>
+  Array.from({ length: CALIBRATION_BINS }, (_, bin) => {
+    const lower = bin / CALIBRATION_BINS;
+    const upper = (bin + 1) / CALIBRATION_BINS;
+    const inBin = examples.filter(
+      (example) =>
+        example.ai_confidence !== null &&
+        example.ai_confidence >= lower &&
+        (example.ai_confidence < upper || (bin === CALIBRATION_BINS - 1 && example.ai_confidence <= upper))
+    );
+
+    return {
+      label: `${Math.round(lower * 100)}-${Math.round(upper * 100)}%`,
+      count: inBin.length,
+      meanConfidence: mean(inBin.map((example) => example.ai_confidence)),
+      accuracy: ratio(inBin.filter((example) => example.ai_category === example.label_category).length, inBin.length),
+    };
+  });
+
+// Expected calibration error: the gap between confidence and accuracy, weighted by how many photos fall in each bin
+export const getCalibrationError = (bins: CalibrationBin[]) => {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return null;
+
+  return bins.reduce(
+    (sum, bin) =>
+      bin.meanConfidence !== null && bin.accuracy !== null
+        ? sum + (bin.count / total) * Math.abs(bin.accuracy - bin.meanConfidence)
+        : sum,
+    0
+  );
+};
+
+const getWeekStart = (date: string) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  // Local date, so a Monday in IST is not reported as the Sunday before
+  return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+};
+
+// Metrics per week of review, oldest first
+export const getMetricsTrend = (examples: ScoredExample[], classes: string[]): MetricsTrendPoint[] => {
+  const weeks = new Map<string, ScoredExample[]>();
+  for (const example of examples) {
+    const week = getWeekStart(example.reviewed_at);
+    weeks.set(week, [...(weeks.get(week) ?? []), example]);
+  }
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, weekExamples]) => ({ week, ...summarizeMetrics(weekExamples, classes) }));
+};
+
+export const getModelVersionMetrics = (examples: ScoredExample[], classes: string[]): ModelVersionMetrics[] => {
+  const versions = new Map<string, ScoredExample[]>();
+  for (const example of examples) {
+    versions.set(example.ai_model_version, [...(versions.get(example.ai_model_version) ?? []), example]);
+  }
+
+  return [...versions.entries()]
+    .map(([version, versionExamples]) => ({
+      version,
+      ...summarizeMetrics(versionExamples, classes),
+      calibrationError: getCalibrationError(getCalibration(versionExamples)),
+    }))
+    .sort((a, b) => b.examples - a.examples);
+};
@@ -0,0 +1,58 @@
+import type { QueuedReport } from "@/types/report";
+
+// Reports waiting for a connection are kept in IndexedDB, which unlike localStorage
+// can hold the photo itself and survives the tab being closed
+const DB_NAME = 'civic-reporter';
+const DB_VERSION = 1;
+const STORE = 'report-outbox';
+
+const openOutbox = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const isOutboxSupported = () => typeof indexedDB !== 'undefined';
+
+// `draft.id` is the report's client id, kept from the attempt that failed
+export const addToOutbox = async (draft: Omit<QueuedReport, 'created_at' | 'attempts' | 'last_error'>) => {
+  const entry: QueuedReport = {
+    ...draft,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    last_error: null,
+  };
+  await withStore('readwrite', (store) => store.put(entry));
+  return entry;
+};
+
+// Oldest first, so reports reach the server in the order they were taken
+export const listOutbox = async (userId: string) => {
+  const entries = await withStore<QueuedReport[]>('readonly', (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.user_id === userId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+export const updateOutboxEntry = (entry: QueuedReport) => withStore('readwrite', (store) => store.put(entry));
+
+export const removeFromOutbox = (id: string) => withStore('readwrite', (store) => store.delete(id));
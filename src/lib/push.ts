@@ -0,0 +1,91 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!VAPID_PUBLIC_KEY;
+
+// Registered once at startup; push and offline support both run through it
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Error registering service worker:', error);
+    });
+  });
+};
+
+// The push service wants the VAPID key as raw bytes rather than base64url
+const urlBase64ToUint8Array = (base64Url: string) => {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
+// Unlike serviceWorker.ready, this settles even when the worker never registered
+export const getPushSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// Whether this browser pushes to the given user. The browser may still be subscribed
+// for someone who used it before, so the stored row decides.
+export const isPushEnabledFor = async (userId: string) => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return false;
+
+  const { data, error } = await supabase
+    .from('push_subscriptions')
+    .select('id')
+    .eq('endpoint', subscription.endpoint)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+/**
+ * Asks for permission, subscribes this browser and stores the subscription
+ * so the backend can push status changes of followed reports to it.
+ */
+export const subscribeToPush = async () => {
+  if (!isPushSupported()) throw new Error('Push notifications are not supported in this browser');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notification permission was not granted');
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = (await registration.pushManager.getSubscription())
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) throw new Error('The browser returned an incomplete push subscription');
+
+  // Goes through an RPC so a browser another account subscribed can be taken over
+  const { error } = await supabase.rpc('save_push_subscription', {
+    _endpoint: endpoint,
+    _p256dh: keys.p256dh,
+    _auth: keys.auth,
+    _user_agent: navigator.userAgent,
+  });
+
+  if (error) throw error;
+};
+
+export const unsubscribeFromPush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+
+  if (error) throw error;
+  await subscription.unsubscribe();
+};
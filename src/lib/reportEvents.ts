@@ -0,0 +1,45 @@
+import type { ReportEvent } from "@/types/report";
+import { getStatusLabel } from "@/lib/reportStatus";
+
+const formatStatus = (status: string | null) => (status ? getStatusLabel(status) : "none");
+
+// Human-readable line for a single audit trail entry
+export const describeReportEvent = (event: ReportEvent): string => {
+  switch (event.event_type) {
+    case "created":
+      return "Report submitted";
+    case "viewed":
+      return "Viewed by staff";
+    case "status_changed":
+      return `Status changed from ${formatStatus(event.old_value)} to ${formatStatus(event.new_value)}`
+        + (event.reason ? `: ${event.reason}` : "");
+    case "department_changed":
+      return `Routed to ${event.new_value}`;
+    case "assignee_changed":
+      return event.new_value ? "Assigned to a staff member" : "Assignee removed";
+    case "sla_breached":
+      return event.new_value
+        ? `Missed its resolution deadline, escalated to ${event.new_value}`
+        : "Missed its resolution deadline, escalated";
+    case "resolution_confirmed":
+      return "Reporter confirmed the fix";
+    case "resolution_disputed":
+      return event.new_value ? `Reporter disputed the fix: "${event.new_value}"` : "Reporter disputed the fix";
+    case "duplicate_merged":
+      return `Duplicate report ${event.new_value?.slice(0, 8)} merged in`;
+    default:
+      return event.event_type;
+  }
+};
+
+// Most recent event matching the predicate, if any
+export const findLatestEvent = (
+  events: ReportEvent[],
+  predicate: (event: ReportEvent) => boolean
+): ReportEvent | undefined => [...events].reverse().find(predicate);
+
+// Earliest event matching the predicate, if any
+export const findFirstEvent = (
+  events: ReportEvent[],
+  predicate: (event: ReportEvent) => boolean
+): ReportEvent | undefined => events.find(predicate);
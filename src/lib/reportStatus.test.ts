@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAllowedTransitions, getStatusLabel, isClosedStatus, ISSUE_STATUSES, requiresStatusReason
+} from "@/lib/reportStatus";
+import type { IssueStatus } from "@/types/report";
+
+// Must match is_allowed_status_transition in the database
+const EXPECTED_TRANSITIONS: [IssueStatus, IssueStatus[]][] = [
+  ["pending", ["in-progress", "on-hold", "resolved", "rejected", "duplicate"]],
+  ["in-progress", ["pending", "on-hold", "resolved", "rejected", "duplicate"]],
+  ["on-hold", ["in-progress", "resolved", "rejected", "duplicate"]],
+  ["reopened", ["in-progress", "on-hold", "resolved", "rejected", "duplicate"]],
+  ["resolved", ["reopened"]],
+  ["rejected", ["reopened"]],
+  ["duplicate", ["reopened"]],
+];
+
+describe("getAllowedTransitions", () => {
+  it.each(EXPECTED_TRANSITIONS)("allows %s to move to %j", (from, to) => {
+    expect(getAllowedTransitions(from)).toEqual(to);
+  });
+
+  it("covers every status and never offers the current one", () => {
+    for (const status of ISSUE_STATUSES) {
+      expect(getAllowedTransitions(status)).not.toContain(status);
+    }
+    expect(EXPECTED_TRANSITIONS.map(([from]) => from).sort()).toEqual([...ISSUE_STATUSES].sort());
+  });
+
+  it("only lets closed reports be reopened", () => {
+    for (const status of ISSUE_STATUSES.filter(isClosedStatus)) {
+      expect(getAllowedTransitions(status)).toEqual(["reopened"]);
+    }
+  });
+
+  it("never sends a report back to pending once work has stopped", () => {
+    const intoPending = ISSUE_STATUSES.filter((status) => getAllowedTransitions(status).includes("pending"));
+    expect(intoPending).toEqual(["in-progress"]);
+  });
+
+  it("allows nothing from an unknown status", () => {
+    expect(getAllowedTransitions("archived" as IssueStatus)).toEqual([]);
+  });
+});
+
+describe("requiresStatusReason", () => {
+  it("asks for a reason when holding, rejecting, closing as duplicate or reopening", () => {
+    expect(ISSUE_STATUSES.filter(requiresStatusReason)).toEqual(["on-hold", "reopened", "rejected", "duplicate"]);
+  });
+});
+
+describe("isClosedStatus", () => {
+  it("treats resolved, rejected and duplicate reports as closed", () => {
+    expect(ISSUE_STATUSES.filter(isClosedStatus)).toEqual(["resolved", "rejected", "duplicate"]);
+  });
+});
+
+describe("getStatusLabel", () => {
+  it("falls back to the raw status for unknown values", () => {
+    expect(getStatusLabel("in-progress")).toBe("In Progress");
+    expect(getStatusLabel("archived")).toBe("archived");
+  });
+});
@@ -0,0 +1,61 @@
+import type { IssueStatus } from "@/types/report";
+
+// Display order for filters, selects and charts
+export const ISSUE_STATUSES: IssueStatus[] = [
+  "pending",
+  "in-progress",
+  "on-hold",
+  "reopened",
+  "resolved",
+  "rejected",
+  "duplicate",
+];
+
+export const STATUS_LABELS: Record<IssueStatus, string> = {
+  pending: "Pending",
+  "in-progress": "In Progress",
+  "on-hold": "On Hold",
+  reopened: "Reopened",
+  resolved: "Resolved",
+  rejected: "Rejected",
+  duplicate: "Duplicate",
+};
+
+// Chart colors, matching StatusBadge
+export const STATUS_COLORS: Record<IssueStatus, string> = {
+  pending: "#eab308",
+  "in-progress": "#3b82f6",
+  "on-hold": "#64748b",
+  reopened: "#f97316",
+  resolved: "#10b981",
+  rejected: "#ef4444",
+  duplicate: "#a855f7",
+};
+
+/**
+ * Allowed status changes. Mirrors is_allowed_status_transition in the database,
+ * which rejects anything else.
+ */
+const STATUS_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+  pending: ["in-progress", "on-hold", "resolved", "rejected", "duplicate"],
+  "in-progress": ["pending", "on-hold", "resolved", "rejected", "duplicate"],
+  "on-hold": ["in-progress", "resolved", "rejected", "duplicate"],
+  reopened: ["in-progress", "on-hold", "resolved", "rejected", "duplicate"],
+  resolved: ["reopened"],
+  rejected: ["reopened"],
+  duplicate: ["reopened"],
+};
+
+// Statuses that need a reason when a report moves into them
+const REASON_REQUIRED_STATUSES: IssueStatus[] = ["on-hold", "rejected", "duplicate", "reopened"];
+
+// Statuses in which no more work is expected
+const CLOSED_STATUSES: IssueStatus[] = ["resolved", "rejected", "duplicate"];
+
+export const getStatusLabel = (status: string) => STATUS_LABELS[status as IssueStatus] || status;
+
+export const getAllowedTransitions = (status: IssueStatus): IssueStatus[] => STATUS_TRANSITIONS[status] ?? [];
+
+export const requiresStatusReason = (status: IssueStatus) => REASON_REQUIRED_STATUSES.includes(status);
+
+export const isClosedStatus = (status: string) => CLOSED_STATUSES.includes(status as IssueStatus);
@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import { prepareImageForUpload } from "@/lib/imageProcessing";
+import { uploadReportImage } from "@/lib/storage";
+
+export const uploadResolutionPhoto = async (reportId: string, file: File) =>
+  uploadReportImage(`resolutions/${reportId}`, await prepareImageForUpload(file));
+
+/**
+ * Marks a report resolved with its proof of resolution.
+ * The database rejects a resolution without a new after photo and a note.
+ */
+export const resolveReport = async (reportId: string, photo: File, note: string) => {
+  const photoUrl = await uploadResolutionPhoto(reportId, photo);
+
+  const { error } = await supabase
+    .from('reports')
+    .update({ status: 'resolved', resolution_photo_url: photoUrl, resolution_note: note.trim() })
+    .eq('id', reportId);
+
+  if (error) throw error;
+  return photoUrl;
+};
+
+// The reporting citizen confirms the fix, or disputes it, which reopens the report
+export const respondToResolution = async (reportId: string, confirmed: boolean, note?: string) => {
+  const { error } = await supabase.rpc('respond_to_resolution', {
+    _report_id: reportId,
+    _confirmed: confirmed,
+    _note: note,
+  });
+  if (error) throw error;
+};
+
+// Whether the given user can still confirm or dispute this report's resolution
+export const canRespondToResolution = (
+  report: {
+    user_id: string | null;
+    status: string;
+    confirmation_due_at: string | null;
+    citizen_feedback: string | null;
+  },
+  userId: string | undefined,
+  now = new Date()
+) =>
+  !!userId &&
+  report.user_id === userId &&
+  report.status === 'resolved' &&
+  !report.citizen_feedback &&
+  !!report.confirmation_due_at &&
+  new Date(report.confirmation_due_at) > now;
@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { LabeledBox, ReviewQueueItem, ReviewVerdict } from "@/types/review";
+
+// Photos the model scored below this are queued for review by default
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+// Share of classified photos queued whatever their confidence, to measure the model fairly
+export const SPOT_CHECK_PERCENT = 10;
+
+export const fetchReviewQueue = async (maxConfidence: number) => {
+  const { data, error } = await supabase.rpc('get_ai_review_queue', {
+    _max_confidence: maxConfidence,
+    _spot_check_percent: SPOT_CHECK_PERCENT,
+  });
+  if (error) throw error;
+  return data as ReviewQueueItem[];
+};
+
+export const getReviewVerdict = (item: ReviewQueueItem, category: string | null): ReviewVerdict => {
+  if (!category) return 'rejected';
+  return category === item.ai_category ? 'confirmed' : 'corrected';
+};
+
+/**
+ * Record a reviewer's answer for one photo as a labeled example. If the report still
+ * has the category the model gave this photo and the reviewer disagrees, the report
+ * is recategorised as well.
+ */
+export const saveLabeledExample = async (
+  item: ReviewQueueItem,
+  review: {
+    category: string | null;
+    boxes: LabeledBox[];
+    imageWidth: number | null;
+    imageHeight: number | null;
+    reviewerId: string;
+  }
+) => {
+  const verdict = getReviewVerdict(item, review.category);
+
+  const { error } = await supabase.from('labeled_examples').upsert(
+    {
+      media_id: item.media_id,
+      report_id: item.report_id,
+      image_url: item.url,
+      image_width: review.imageWidth,
+      image_height: review.imageHeight,
+      verdict,
+      ai_category: item.ai_category,
+      ai_confidence: item.ai_confidence,
+      ai_model_version: item.ai_model_version,
+      label_category: review.category,
+      // A rejected photo teaches nothing about boxes
+      boxes: verdict === 'rejected' ? [] : review.boxes.map((box) => ({ ...box })),
+      reviewed_by: review.reviewerId,
+      reviewed_at: new Date().toISOString(),
+      spot_check: item.spot_check,
+    },
+    { onConflict: 'media_id' }
+  );
+  if (error) throw error;
+
+  if (verdict === 'corrected' && review.category && item.report_category === item.ai_category) {
+    const { error: reportError } = await supabase
+      .from('reports')
+      .update({ category: review.category })
+      .eq('id', item.report_id);
+    if (reportError) throw reportError;
+  }
+
+  return verdict;
+};
@@ -0,0 +1,11 @@
+import type { UserRole } from "@/types/auth";
+
+// Highest role wins when a user holds several
+const ROLE_PRECEDENCE: UserRole[] = ["admin", "staff", "citizen"];
+
+export const pickHighestRole = (roles: string[]): UserRole =>
+  ROLE_PRECEDENCE.find((role) => roles.includes(role)) ?? "citizen";
+
+// Staff and admins share the management UI; RLS narrows what staff can change
+export const isStaffRole = (role: UserRole | null | undefined): boolean =>
+  role === "staff" || role === "admin";
@@ -0,0 +1,53 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { RoutingPreview, RoutingRule, WardBoundary } from "@/types/routing";
+
+// Runs the routing evaluator for an existing report without changing it
+export const previewReportRouting = async (reportId: string): Promise<RoutingPreview | null> => {
+  const { data, error } = await supabase.rpc('preview_report_routing', { _report_id: reportId });
+  if (error) throw error;
+  return data && data.length > 0 ? (data[0] as RoutingPreview) : null;
+};
+
+// Short summary of a rule's conditions, e.g. "Garbage · Ward 12 · high · 22:00–06:00"
+export const describeRuleConditions = (
+  rule: RoutingRule,
+  getCategoryLabel: (slug: string) => string,
+  wardName?: string
+): string => {
+  const parts = [
+    rule.category ? getCategoryLabel(rule.category) : null,
+    rule.ward_id ? wardName || "Unknown ward" : null,
+    rule.severity,
+    rule.start_time && rule.end_time
+      ? `${rule.start_time.slice(0, 5)}–${rule.end_time.slice(0, 5)} ${rule.time_zone}`
+      : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" · ") : "Any report";
+};
+
+/**
+ * Accepts a pasted GeoJSON Polygon, Feature or single-feature FeatureCollection
+ * and returns the polygon geometry, or throws with a readable message.
+ */
+export const parseWardBoundary = (text: string): WardBoundary => {
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Boundary is not valid JSON");
+  }
+
+  if (json?.type === "FeatureCollection") json = json.features?.[0];
+  if (json?.type === "Feature") json = json.geometry;
+
+  const ring = json?.coordinates?.[0];
+  if (json?.type !== "Polygon" || !Array.isArray(ring) || ring.length < 3) {
+    throw new Error("Boundary must be a GeoJSON Polygon with at least three points");
+  }
+  if (!ring.every((point: unknown) => Array.isArray(point) && point.length >= 2 && point.every(Number.isFinite))) {
+    throw new Error("Polygon points must be [longitude, latitude] pairs");
+  }
+
+  return { type: "Polygon", coordinates: json.coordinates };
+};
@@ -0,0 +1,37 @@
+import type { SlaState } from "@/types/sla";
+import { isClosedStatus } from "@/lib/reportStatus";
+
+// A report is at risk once less than this share of its SLA window remains
+const AT_RISK_REMAINING_SHARE = 0.25;
+
+interface SlaTrackedReport {
+  created_at: string;
+  due_at: string | null;
+  status: string;
+}
+
+// Where an open report stands against its deadline; null once closed or without an SLA
+export const getSlaState = (report: SlaTrackedReport, now = new Date()): SlaState | null => {
+  if (!report.due_at || isClosedStatus(report.status)) return null;
+
+  const created = new Date(report.created_at).getTime();
+  const due = new Date(report.due_at).getTime();
+  const remaining = due - now.getTime();
+
+  if (remaining <= 0) return "overdue";
+  if (remaining / (due - created) <= AT_RISK_REMAINING_SHARE) return "at-risk";
+  return "on-track";
+};
+
+const formatDuration = (ms: number) => {
+  const hours = Math.floor(ms / (1000 * 60 * 60));
+  if (hours >= 48) return `${Math.floor(hours / 24)}d`;
+  if (hours >= 1) return `${hours}h`;
+  return `${Math.max(1, Math.floor(ms / (1000 * 60)))}m`;
+};
+
+// "due in 5h" or "overdue by 2d"
+export const formatTimeToDue = (dueAt: string, now = new Date()): string => {
+  const remaining = new Date(dueAt).getTime() - now.getTime();
+  return remaining > 0 ? `due in ${formatDuration(remaining)}` : `overdue by ${formatDuration(-remaining)}`;
+};
@@ -0,0 +1,19 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Uploads a photo or clip to the report image bucket under the given folder and returns its public URL
+export const uploadReportImage = async (folder: string, file: File): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${folder}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('report-images')
+    .upload(filePath, file);
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('report-images')
+    .getPublicUrl(filePath);
+
+  return publicUrl;
+};
@@ -0,0 +1,18 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Say "me too" on a report. Supporters follow it as well; support on your own report is ignored.
+export const supportReport = async (reportId: string, userId: string) => {
+  const { error } = await supabase
+    .from('report_supporters')
+    .upsert({ report_id: reportId, user_id: userId }, { ignoreDuplicates: true });
+  if (error) throw error;
+};
+
+export const withdrawSupport = async (reportId: string, userId: string) => {
+  const { error } = await supabase
+    .from('report_supporters')
+    .delete()
+    .eq('report_id', reportId)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
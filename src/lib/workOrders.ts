@@ -0,0 +1,8 @@
+import { prepareImageForUpload } from "@/lib/imageProcessing";
+import { uploadReportImage } from "@/lib/storage";
+
+// scheduled_for is a plain date; parse it as local midnight so it doesn't shift a day
+export const formatScheduledDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+export const uploadCompletionPhoto = async (workOrderId: string, file: File) =>
+  uploadReportImage(`work-orders/${workOrderId}`, await prepareImageForUpload(file));
@@ -10,20 +10,30 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import StatusBadge from "@/components/StatusBadge";
 import MapView from "@/components/MapView";
-import { getCategoryColor } from "@/lib/mockData";
-import { IssueStatus, IssueCategory } from "@/types/report";
+import CategoryBadge from "@/components/CategoryBadge";
+import SlaBadge from "@/components/SlaBadge";
+import NotificationBell from "@/components/NotificationBell";
+import AiReviewQueue from "@/components/AiReviewQueue";
+import ModelPerformance from "@/components/ModelPerformance";
+import { IssueStatus, IssueCategory, IssueSeverity } from "@/types/report";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { previewReportRouting } from "@/lib/routing";
+import { getSlaState } from "@/lib/sla";
+import {
+  ISSUE_STATUSES, STATUS_COLORS, getAllowedTransitions, getStatusLabel, isClosedStatus, requiresStatusReason
+} from "@/lib/reportStatus";
 import { toast } from "sonner";
 import {
   BarChart, Bar, PieChart, Pie, LineChart, Line, Cell, XAxis, YAxis, CartesianGrid,
   Tooltip as ChartTooltip, Legend, ResponsiveContainer
 } from "recharts";
 import {
-  Bell, Download, Filter, AlertTriangle, Clock, TrendingUp, MapPin,
-  CheckCircle2, Layers, Users, Activity, FileDown, BarChart3
+  Download, Filter, AlertTriangle, Clock, TrendingUp, MapPin,
+  CheckCircle2, Layers, Users, Activity, FileDown, BarChart3, Tags, Route, AlarmClock, ClipboardList
 } from "lucide-react";
 
 interface AdminReport {
@@ -37,11 +47,20 @@ interface AdminReport {
   department: string;
   status: IssueStatus;
   created_at: string;
-  ai_confidence?: number;
+  severity: IssueSeverity;
+  ai_confidence: number | null;
+  ai_labels: string[];
+  ai_model_version: string | null;
+  due_at: string | null;
+  escalation_level: number;
+  duplicate_of: string | null;
+  support_count: number;
 }
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
+  const { signOut, role } = useAuth();
+  const { categories, departments, getPriorityWeight } = useTaxonomy();
   const [reports, setReports] = useState<AdminReport[]>([]);
   const [filterCategory, setFilterCategory] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
@@ -51,9 +70,8 @@ const AdminDashboard = () => {
   const [selectedReports, setSelectedReports] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<"grid" | "map">("grid");
   const [mapLayerFilter, setMapLayerFilter] = useState<string>("all");
-  const [showNotifications, setShowNotifications] = useState(false);
   const [minConfidence, setMinConfidence] = useState<number>(0);
-  const [sortBy, setSortBy] = useState<"date" | "priority" | "age">("date");
+  const [sortBy, setSortBy] = useState<"date" | "priority" | "age" | "due">("date");
 
   // Fetch reports from Supabase
   useEffect(() => {
@@ -82,13 +100,7 @@ const AdminDashboard = () => {
 
       if (error) throw error;
 
-      // Add mock AI confidence scores if not present
-      const reportsWithConfidence = (data as AdminReport[]).map(report => ({
-        ...report,
-        ai_confidence: report.ai_confidence || Math.random() * 0.3 + 0.7 // 70-100%
-      }));
-
-      setReports(reportsWithConfidence);
+      setReports(data as AdminReport[]);
     } catch (error) {
       console.error('Error fetching reports:', error);
       toast.error('Failed to load reports');
@@ -110,21 +122,32 @@ const AdminDashboard = () => {
     const age = getIssueAge(report.created_at);
     score += Math.min(age * 2, 30); // Max 30 points for age
 
-    // Category severity
-    const severityMap: Record<string, number> = {
-      pothole: 20,
-      streetlight: 15,
-      garbage: 10,
-      other: 5
+    // Category weight (configured per category)
+    score += getPriorityWeight(report.category);
+
+    // Citizen-reported severity
+    const reportedSeverityMap: Record<IssueSeverity, number> = {
+      high: 15,
+      medium: 8,
+      low: 0
     };
-    score += severityMap[report.category] || 5;
+    score += reportedSeverityMap[report.severity] ?? 8;
+
+    // Other citizens affected by the same issue
+    score += Math.min(report.support_count * 3, 30); // Max 30 points for support
+
+    // Deadline pressure
+    const slaState = getSlaState(report);
+    if (slaState === 'overdue') score += 20;
+    else if (slaState === 'at-risk') score += 10;
 
     // Status urgency
-    if (report.status === 'pending') score += 15;
+    if (report.status === 'reopened') score += 20;
+    else if (report.status === 'pending') score += 15;
     else if (report.status === 'in-progress') score += 10;
 
-    // AI confidence (lower confidence = needs review)
-    score += (1 - (report.ai_confidence || 0.8)) * 10;
+    // AI confidence (lower or missing confidence = needs review)
+    score += (1 - (report.ai_confidence ?? 0)) * 10;
 
     return score;
   };
@@ -133,10 +156,13 @@ const AdminDashboard = () => {
   const getFilteredReports = () => {
     const filtered = reports.filter((report) => {
       const matchesCategory = filterCategory === "all" || report.category === filterCategory;
-      const matchesStatus = filterStatus === "all" || report.status === filterStatus;
+      // Merged duplicates only show up when asked for explicitly
+      const matchesStatus = filterStatus === "all"
+        ? report.status !== "duplicate"
+        : report.status === filterStatus;
       const matchesDepartment = filterDepartment === "all" || report.department === filterDepartment;
       const matchesSearch = report.description.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesConfidence = (report.ai_confidence || 0) * 100 >= minConfidence;
+      const matchesConfidence = (report.ai_confidence ?? 0) * 100 >= minConfidence;
 
       // Date filtering
       let matchesDate = true;
@@ -155,6 +181,11 @@ const AdminDashboard = () => {
       filtered.sort((a, b) => getPriorityScore(b) - getPriorityScore(a));
     } else if (sortBy === "age") {
       filtered.sort((a, b) => getIssueAge(b.created_at) - getIssueAge(a.created_at));
+    } else if (sortBy === "due") {
+      // Soonest deadline first; closed reports and reports without a deadline last
+      const dueTime = (r: AdminReport) =>
+        r.due_at && !isClosedStatus(r.status) ? new Date(r.due_at).getTime() : Number.MAX_SAFE_INTEGER;
+      filtered.sort((a, b) => dueTime(a) - dueTime(b));
     }
     // Default is by date (already sorted from query)
 
@@ -163,14 +194,25 @@ const AdminDashboard = () => {
 
   const filteredReports = getFilteredReports();
 
+  // How many duplicates have been merged into each canonical report
+  const mergedCounts = reports.reduce<Record<string, number>>((counts, report) => {
+    if (report.duplicate_of) counts[report.duplicate_of] = (counts[report.duplicate_of] ?? 0) + 1;
+    return counts;
+  }, {});
+
   // Analytics data
   const analyticsData = {
-    categoryDistribution: [
-      { name: 'Pothole', value: reports.filter(r => r.category === 'pothole').length, color: '#f97316' },
-      { name: 'Garbage', value: reports.filter(r => r.category === 'garbage').length, color: '#10b981' },
-      { name: 'Streetlight', value: reports.filter(r => r.category === 'streetlight').length, color: '#3b82f6' },
-      { name: 'Other', value: reports.filter(r => r.category === 'other').length, color: '#6b7280' },
-    ].filter(d => d.value > 0),
+    categoryDistribution: categories.map(c => ({
+      name: c.label,
+      value: reports.filter(r => r.category === c.slug).length,
+      color: c.color
+    })).filter(d => d.value > 0),
+
+    statusDistribution: ISSUE_STATUSES.map(status => ({
+      name: getStatusLabel(status),
+      value: reports.filter(r => r.status === status).length,
+      color: STATUS_COLORS[status]
+    })).filter(d => d.value > 0),
 
     departmentWorkload: Object.entries(
       reports.reduce((acc, r) => {
@@ -198,17 +240,29 @@ const AdminDashboard = () => {
     })(),
   };
 
-  // Get recent notifications (last 5 reports)
-  const recentNotifications = reports.slice(0, 5);
-
   const handleStatusUpdate = async (id: string, newStatus: IssueStatus) => {
+    // Resolving needs an after photo and some statuses need a reason; both are collected on the report page
+    if (newStatus === 'resolved' || requiresStatusReason(newStatus)) {
+      toast.info(newStatus === 'resolved'
+        ? "Add an after photo and a resolution note to resolve this report"
+        : `Give a reason to mark this report ${getStatusLabel(newStatus).toLowerCase()}`);
+      navigate(`/report/${id}`, { state: { status: newStatus } });
+      return;
+    }
+
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('reports')
         .update({ status: newStatus })
-        .eq('id', id);
+        .eq('id', id)
+        .select('id');
 
       if (error) throw error;
+      // RLS leaves reports this user may not manage untouched without an error
+      if (data.length === 0) {
+        toast.error('You do not have permission to update this report');
+        return;
+      }
 
       setReports((prev) =>
         prev.map((report) =>
@@ -226,31 +280,31 @@ const AdminDashboard = () => {
     const report = reports.find(r => r.id === id);
     if (!report) return;
 
-    // Auto-route based on AI-detected category
-    const departmentMap: Record<string, string> = {
-      pothole: "Road Maintenance",
-      garbage: "Sanitation Department",
-      streetlight: "Public Works - Lighting",
-      other: "General Services"
-    };
-
-    const newDepartment = departmentMap[report.category] || "General Services";
-
     try {
-      const { error } = await supabase
+      // Re-run the routing rules; falls back to the category's default department
+      const preview = await previewReportRouting(id);
+      if (!preview) return;
+
+      const { data, error } = await supabase
         .from('reports')
-        .update({ department: newDepartment })
-        .eq('id', id);
+        .update({ department: preview.department, routing_rule_id: preview.rule_id })
+        .eq('id', id)
+        .select('id');
 
       if (error) throw error;
+      // RLS leaves reports this user may not manage untouched without an error
+      if (data.length === 0) {
+        toast.error('You do not have permission to update this report');
+        return;
+      }
 
       setReports((prev) =>
         prev.map((r) =>
-          r.id === id ? { ...r, department: newDepartment } : r
+          r.id === id ? { ...r, department: preview.department } : r
         )
       );
 
-      toast.success(`Auto-routed to ${newDepartment}`);
+      toast.success(`Auto-routed to ${preview.department}${preview.rule_name ? ` (${preview.rule_name})` : ''}`);
     } catch (error) {
       console.error('Error auto-routing:', error);
       toast.error('Failed to auto-route issue');
@@ -265,20 +319,27 @@ const AdminDashboard = () => {
     }
 
     try {
-      const { error } = await supabase
+      // Reports this user may not manage are skipped by RLS, so count what came back
+      const { data, error } = await supabase
         .from('reports')
         .update({ department })
-        .in('id', selectedReports);
+        .in('id', selectedReports)
+        .select('id');
 
       if (error) throw error;
 
+      const routedIds = data.map((r) => r.id);
       setReports((prev) =>
         prev.map((r) =>
-          selectedReports.includes(r.id) ? { ...r, department } : r
+          routedIds.includes(r.id) ? { ...r, department } : r
         )
       );
 
-      toast.success(`${selectedReports.length} reports routed to ${department}`);
+      const skipped = selectedReports.length - routedIds.length;
+      toast.success(
+        `${routedIds.length} reports routed to ${department}` +
+          (skipped > 0 ? ` (${skipped} you cannot manage were skipped)` : '')
+      );
       setSelectedReports([]);
     } catch (error) {
       console.error('Error batch routing:', error);
@@ -286,6 +347,45 @@ const AdminDashboard = () => {
     }
   };
 
+  // Batch routing through the routing rules
+  const handleBatchAutoRoute = async () => {
+    if (selectedReports.length === 0) {
+      toast.error("Please select reports to route");
+      return;
+    }
+
+    try {
+      const routed = await Promise.all(selectedReports.map(async (id) => {
+        const preview = await previewReportRouting(id);
+        if (!preview) return null;
+
+        const { data, error } = await supabase
+          .from('reports')
+          .update({ department: preview.department, routing_rule_id: preview.rule_id })
+          .eq('id', id)
+          .select('id');
+
+        if (error) throw error;
+        // Nothing comes back when RLS kept the report from being updated
+        return data.length > 0 ? { id, department: preview.department } : null;
+      }));
+
+      const routedReports = routed.filter((r): r is { id: string; department: string } => r !== null);
+      setReports((prev) =>
+        prev.map((r) => {
+          const match = routedReports.find(rr => rr.id === r.id);
+          return match ? { ...r, department: match.department } : r;
+        })
+      );
+
+      toast.success(`${routedReports.length} reports routed by rules`);
+      setSelectedReports([]);
+    } catch (error) {
+      console.error('Error batch auto-routing:', error);
+      toast.error('Failed to apply routing rules');
+    }
+  };
+
   // Toggle report selection
   const toggleReportSelection = (id: string) => {
     setSelectedReports(prev =>
@@ -295,16 +395,20 @@ const AdminDashboard = () => {
 
   // Export data as CSV
   const handleExportCSV = () => {
-    const headers = ['ID', 'Category', 'Description', 'Status', 'Department', 'Location', 'Created', 'Age (days)'];
+    const headers = ['ID', 'Category', 'Severity', 'AI Confidence', 'Description', 'Status', 'Department', 'Location', 'Created', 'Age (days)', 'Due', 'SLA'];
     const rows = filteredReports.map(r => [
       r.id.slice(0, 8),
       r.category,
+      r.severity,
+      r.ai_confidence !== null ? `${Math.round(r.ai_confidence * 100)}%` : '',
       r.description.replace(/,/g, ';'),
       r.status,
       r.department,
       `${r.latitude.toFixed(4)} ${r.longitude.toFixed(4)}`,
       new Date(r.created_at).toLocaleDateString(),
-      getIssueAge(r.created_at).toString()
+      getIssueAge(r.created_at).toString(),
+      r.due_at ? new Date(r.due_at).toLocaleString().replace(/,/g, '') : '',
+      getSlaState(r) ?? ''
     ]);
 
     const csvContent = [headers, ...rows].map(row => row.join(',')).join('\n');
@@ -322,12 +426,18 @@ const AdminDashboard = () => {
 
   const handleManualAssign = async (id: string, department: string) => {
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('reports')
         .update({ department })
-        .eq('id', id);
+        .eq('id', id)
+        .select('id');
 
       if (error) throw error;
+      // RLS leaves reports this user may not manage untouched without an error
+      if (data.length === 0) {
+        toast.error('You do not have permission to update this report');
+        return;
+      }
 
       setReports((prev) =>
         prev.map((r) =>
@@ -342,12 +452,15 @@ const AdminDashboard = () => {
     }
   };
 
-  const handleLogout = () => {
-    // Clear session data
-    localStorage.removeItem("userRole");
-    localStorage.removeItem("loginTimestamp");
-    toast.success("Logged out successfully");
-    navigate("/");
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      toast.success("Logged out successfully");
+      navigate("/");
+    } catch (error) {
+      console.error('Error logging out:', error);
+      toast.error('Failed to log out');
+    }
   };
 
   return (
@@ -366,42 +479,33 @@ const AdminDashboard = () => {
             </div>
             <div className="flex items-center gap-2">
               {/* Notification Center */}
-              <Popover open={showNotifications} onOpenChange={setShowNotifications}>
-                <PopoverTrigger asChild>
-                  <Button variant="secondary" size="icon" className="relative">
-                    <Bell className="w-4 h-4" />
-                    {recentNotifications.length > 0 && (
-                      <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full text-xs flex items-center justify-center">
-                        {recentNotifications.length}
-                      </span>
-                    )}
+              <NotificationBell />
+
+              <Button variant="secondary" onClick={() => navigate("/my-work-orders")}>
+                <ClipboardList className="w-4 h-4 mr-1" />
+                My Work Orders
+              </Button>
+
+              {role === "admin" && (
+                <>
+                  <Button variant="secondary" onClick={() => navigate("/admin/taxonomy")}>
+                    <Tags className="w-4 h-4 mr-1" />
+                    Categories
                   </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-80" align="end">
-                  <div className="space-y-2">
-                    <h3 className="font-semibold text-sm flex items-center gap-2">
-                      <Bell className="w-4 h-4" />
-                      Recent Reports
-                    </h3>
-                    <ScrollArea className="h-64">
-                      {recentNotifications.map((notif) => (
-                        <div key={notif.id} className="p-2 hover:bg-accent rounded-lg cursor-pointer mb-2"
-                          onClick={() => navigate(`/report/${notif.id}`)}>
-                          <div className="flex items-center gap-2 mb-1">
-                            <Badge className={getCategoryColor(notif.category)} variant="secondary">
-                              {notif.category}
-                            </Badge>
-                            <span className="text-xs text-muted-foreground">
-                              {new Date(notif.created_at).toLocaleTimeString()}
-                            </span>
-                          </div>
-                          <p className="text-xs line-clamp-2">{notif.description}</p>
-                        </div>
-                      ))}
-                    </ScrollArea>
-                  </div>
-                </PopoverContent>
-              </Popover>
+                  <Button variant="secondary" onClick={() => navigate("/admin/routing")}>
+                    <Route className="w-4 h-4 mr-1" />
+                    Routing
+                  </Button>
+                  <Button variant="secondary" onClick={() => navigate("/admin/sla")}>
+                    <AlarmClock className="w-4 h-4 mr-1" />
+                    SLAs
+                  </Button>
+                  <Button variant="secondary" onClick={() => navigate("/admin/crews")}>
+                    <Users className="w-4 h-4 mr-1" />
+                    Crews
+                  </Button>
+                </>
+              )}
 
               <Button variant="secondary" onClick={handleLogout}>
                 Logout
@@ -410,7 +514,7 @@ const AdminDashboard = () => {
           </div>
 
           {/* Enhanced Stats */}
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
             <div className="bg-primary-foreground/10 rounded-lg p-4 backdrop-blur-sm">
               <div className="flex items-center gap-2 mb-1">
                 <Activity className="w-4 h-4 opacity-75" />
@@ -448,6 +552,15 @@ const AdminDashboard = () => {
                 {reports.filter(r => getPriorityScore(r) > 40).length}
               </p>
             </div>
+            <div className="bg-red-500/20 rounded-lg p-4 backdrop-blur-sm">
+              <div className="flex items-center gap-2 mb-1">
+                <AlarmClock className="w-4 h-4 opacity-75" />
+                <p className="text-xs opacity-90">Overdue</p>
+              </div>
+              <p className="text-3xl font-bold">
+                {reports.filter(r => getSlaState(r) === 'overdue').length}
+              </p>
+            </div>
           </div>
         </div>
       </header>
@@ -487,6 +600,31 @@ const AdminDashboard = () => {
               </CardContent>
             </Card>
 
+            {/* Status Breakdown */}
+            <Card className="shadow-md">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Activity className="w-4 h-4" />
+                  Issues by Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={180}>
+                  <BarChart data={analyticsData.statusDistribution}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" angle={-45} textAnchor="end" height={60} tick={{ fontSize: 10 }} />
+                    <YAxis allowDecimals={false} />
+                    <ChartTooltip />
+                    <Bar dataKey="value">
+                      {analyticsData.statusDistribution.map((entry, index) => (
+                        <Cell key={`status-cell-${index}`} fill={entry.color} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
             {/* Department Workload */}
             <Card className="shadow-md">
               <CardHeader className="pb-3">
@@ -531,391 +669,420 @@ const AdminDashboard = () => {
           </div>
 
           {/* Main Content */}
-          <div className="lg:col-span-3 space-y-6">
-            {/* Smart Filters */}
-            <Card className="shadow-md">
-              <CardHeader>
-                <div className="flex justify-between items-center">
-                  <div className="flex items-center gap-2">
-                    <Filter className="w-5 h-5" />
-                    <CardTitle>Smart Filters & Controls</CardTitle>
-                  </div>
-                  <div className="flex gap-2">
-                    <Button variant="outline" size="sm" onClick={handleExportCSV}>
-                      <FileDown className="w-4 h-4 mr-1" />
-                      Export CSV
-                    </Button>
-                    {selectedReports.length > 0 && (
-                      <Popover>
-                        <PopoverTrigger asChild>
-                          <Button variant="default" size="sm">
-                            Batch Route ({selectedReports.length})
-                          </Button>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-56">
-                          <div className="space-y-2">
-                            <p className="text-sm font-medium">Route to Department:</p>
-                            {["Road Maintenance", "Sanitation Department", "Public Works - Lighting", "Water Department", "General Services"].map(dept => (
-                              <Button
-                                key={dept}
-                                variant="outline"
-                                size="sm"
-                                className="w-full"
-                                onClick={() => handleBatchRoute(dept)}
-                              >
-                                {dept}
+          <div className="lg:col-span-3">
+            <Tabs defaultValue="reports" className="space-y-6">
+              <TabsList>
+                <TabsTrigger value="reports">Reports</TabsTrigger>
+                <TabsTrigger value="ai-review">AI Review</TabsTrigger>
+                <TabsTrigger value="model-performance">Model Performance</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="reports" className="space-y-6">
+                {/* Smart Filters */}
+                <Card className="shadow-md">
+                  <CardHeader>
+                    <div className="flex justify-between items-center">
+                      <div className="flex items-center gap-2">
+                        <Filter className="w-5 h-5" />
+                        <CardTitle>Smart Filters & Controls</CardTitle>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={handleExportCSV}>
+                          <FileDown className="w-4 h-4 mr-1" />
+                          Export CSV
+                        </Button>
+                        {selectedReports.length > 0 && (
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <Button variant="default" size="sm">
+                                Batch Route ({selectedReports.length})
                               </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-56">
+                              <div className="space-y-2">
+                                <Button
+                                  size="sm"
+                                  className="w-full"
+                                  onClick={handleBatchAutoRoute}
+                                >
+                                  🤖 Apply Routing Rules
+                                </Button>
+                                <p className="text-sm font-medium">Or route to Department:</p>
+                                {departments.map(dept => (
+                                  <Button
+                                    key={dept.id}
+                                    variant="outline"
+                                    size="sm"
+                                    className="w-full"
+                                    onClick={() => handleBatchRoute(dept.name)}
+                                  >
+                                    {dept.name}
+                                  </Button>
+                                ))}
+                              </div>
+                            </PopoverContent>
+                          </Popover>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <Input
+                          placeholder="Search description..."
+                          value={searchTerm}
+                          onChange={(e) => setSearchTerm(e.target.value)}
+                        />
+                        <Select value={filterCategory} onValueChange={setFilterCategory}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All Categories</SelectItem>
+                            {categories.map(c => (
+                              <SelectItem key={c.slug} value={c.slug}>{c.label}</SelectItem>
                             ))}
-                          </div>
-                        </PopoverContent>
-                      </Popover>
-                    )}
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <Input
-                      placeholder="Search description..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                    />
-                    <Select value={filterCategory} onValueChange={setFilterCategory}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Category" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">All Categories</SelectItem>
-                        <SelectItem value="pothole">Pothole</SelectItem>
-                        <SelectItem value="garbage">Garbage</SelectItem>
-                        <SelectItem value="streetlight">Street Light</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <Select value={filterStatus} onValueChange={setFilterStatus}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Status" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">All Status</SelectItem>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="in-progress">In Progress</SelectItem>
-                        <SelectItem value="resolved">Resolved</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                          </SelectContent>
+                        </Select>
+                        <Select value={filterStatus} onValueChange={setFilterStatus}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Status" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All Status</SelectItem>
+                            {ISSUE_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <Select value={filterDate} onValueChange={setFilterDate}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Time Range" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">All Time</SelectItem>
-                        <SelectItem value="today">Today</SelectItem>
-                        <SelectItem value="week">This Week</SelectItem>
-                        <SelectItem value="month">This Month</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <Select value={filterDepartment} onValueChange={setFilterDepartment}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Department" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">All Departments</SelectItem>
-                        <SelectItem value="Road Maintenance">Road Maintenance</SelectItem>
-                        <SelectItem value="Sanitation Department">Sanitation</SelectItem>
-                        <SelectItem value="Public Works - Lighting">Lighting</SelectItem>
-                        <SelectItem value="Water Department">Water</SelectItem>
-                        <SelectItem value="General Services">General</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <Select value={sortBy} onValueChange={(v) => setSortBy(v as "date" | "priority" | "age")}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Sort By" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="date">Latest First</SelectItem>
-                        <SelectItem value="priority">Priority</SelectItem>
-                        <SelectItem value="age">Oldest First</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <Select value={filterDate} onValueChange={setFilterDate}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Time Range" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All Time</SelectItem>
+                            <SelectItem value="today">Today</SelectItem>
+                            <SelectItem value="week">This Week</SelectItem>
+                            <SelectItem value="month">This Month</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Select value={filterDepartment} onValueChange={setFilterDepartment}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Department" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All Departments</SelectItem>
+                            {departments.map(d => (
+                              <SelectItem key={d.id} value={d.name}>{d.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={sortBy} onValueChange={(v) => setSortBy(v as "date" | "priority" | "age" | "due")}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Sort By" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="date">Latest First</SelectItem>
+                            <SelectItem value="priority">Priority</SelectItem>
+                            <SelectItem value="age">Oldest First</SelectItem>
+                            <SelectItem value="due">Due Soonest</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">
-                      AI Confidence Threshold: {minConfidence}%
-                    </label>
-                    <Slider
-                      value={[minConfidence]}
-                      onValueChange={(v) => setMinConfidence(v[0])}
-                      max={100}
-                      step={5}
-                      className="w-full"
-                    />
-                  </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">
+                          AI Confidence Threshold: {minConfidence}%
+                        </label>
+                        <Slider
+                          value={[minConfidence]}
+                          onValueChange={(v) => setMinConfidence(v[0])}
+                          max={100}
+                          step={5}
+                          className="w-full"
+                        />
+                      </div>
 
-                  <Separator />
-
-                  <div className="flex items-center gap-4">
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant={viewMode === "grid" ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => setViewMode("grid")}
-                      >
-                        Grid View
-                      </Button>
-                      <Button
-                        variant={viewMode === "map" ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => setViewMode("map")}
-                      >
-                        <MapPin className="w-4 h-4 mr-1" />
-                        Map View
-                      </Button>
-                    </div>
-                    {viewMode === "map" && (
-                      <Select value={mapLayerFilter} onValueChange={setMapLayerFilter}>
-                        <SelectTrigger className="w-48">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="all">
-                            <div className="flex items-center gap-2">
-                              <Layers className="w-4 h-4" />
-                              All Layers
-                            </div>
-                          </SelectItem>
-                          <SelectItem value="pothole">Potholes Only</SelectItem>
-                          <SelectItem value="garbage">Garbage Only</SelectItem>
-                          <SelectItem value="streetlight">Streetlights Only</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    )}
-                    <div className="ml-auto text-sm text-muted-foreground">
-                      Showing {filteredReports.length} of {reports.length} reports
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+                      <Separator />
 
-            {/* Map View Mode */}
-            {viewMode === "map" && (
-              <Card className="shadow-md">
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <MapPin className="w-5 h-5" />
-                    Interactive Map Dashboard
-                  </CardTitle>
-                  <CardDescription>
-                    Click on markers for details • Showing {filteredReports.filter(r => mapLayerFilter === "all" || r.category === mapLayerFilter).length} issues
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {/* Map Legend */}
-                  <div className="mb-4 p-4 bg-accent/50 rounded-lg border border-border">
-                    <h4 className="font-semibold text-sm mb-3 flex items-center gap-2">
-                      <Layers className="w-4 h-4" />
-                      Map Legend
-                    </h4>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                      <div className="flex items-center gap-2">
-                        <div className="w-6 h-6 rounded-full bg-orange-500 border-2 border-white shadow-md flex items-center justify-center text-xs">
-                          🕳️
+                      <div className="flex items-center gap-4">
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant={viewMode === "grid" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setViewMode("grid")}
+                          >
+                            Grid View
+                          </Button>
+                          <Button
+                            variant={viewMode === "map" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setViewMode("map")}
+                          >
+                            <MapPin className="w-4 h-4 mr-1" />
+                            Map View
+                          </Button>
                         </div>
-                        <span className="text-sm">Pothole</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-6 h-6 rounded-full bg-green-500 border-2 border-white shadow-md flex items-center justify-center text-xs">
-                          🗑️
+                        {viewMode === "map" && (
+                          <Select value={mapLayerFilter} onValueChange={setMapLayerFilter}>
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">
+                                <div className="flex items-center gap-2">
+                                  <Layers className="w-4 h-4" />
+                                  All Layers
+                                </div>
+                              </SelectItem>
+                              {categories.map(c => (
+                                <SelectItem key={c.slug} value={c.slug}>{c.label} Only</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <div className="ml-auto text-sm text-muted-foreground">
+                          Showing {filteredReports.length} of {reports.length} reports
                         </div>
-                        <span className="text-sm">Garbage</span>
                       </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-6 h-6 rounded-full bg-blue-500 border-2 border-white shadow-md flex items-center justify-center text-xs">
-                          💡
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Map View Mode */}
+                {viewMode === "map" && (
+                  <Card className="shadow-md">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <MapPin className="w-5 h-5" />
+                        Interactive Map Dashboard
+                      </CardTitle>
+                      <CardDescription>
+                        Click on markers for details • Showing {filteredReports.filter(r => mapLayerFilter === "all" || r.category === mapLayerFilter).length} issues
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {/* Map Legend */}
+                      <div className="mb-4 p-4 bg-accent/50 rounded-lg border border-border">
+                        <h4 className="font-semibold text-sm mb-3 flex items-center gap-2">
+                          <Layers className="w-4 h-4" />
+                          Map Legend
+                        </h4>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          {categories.map(c => (
+                            <div key={c.slug} className="flex items-center gap-2">
+                              <div
+                                className="w-6 h-6 rounded-full border-2 border-white shadow-md flex items-center justify-center text-xs"
+                                style={{ backgroundColor: c.color }}
+                              >
+                                {c.icon}
+                              </div>
+                              <span className="text-sm">{c.label}</span>
+                            </div>
+                          ))}
                         </div>
-                        <span className="text-sm">Streetlight</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-6 h-6 rounded-full bg-gray-500 border-2 border-white shadow-md flex items-center justify-center text-xs">
-                          ⚠️
+                        <div className="mt-3 pt-3 border-t border-border">
+                          <p className="text-xs text-muted-foreground">
+                            💡 <strong>Tip:</strong> Faded markers indicate closed issues (resolved, rejected or duplicate). Click any marker to view full details.
+                          </p>
                         </div>
-                        <span className="text-sm">Other</span>
                       </div>
-                    </div>
-                    <div className="mt-3 pt-3 border-t border-border">
-                      <p className="text-xs text-muted-foreground">
-                        💡 <strong>Tip:</strong> Faded markers indicate resolved issues. Click any marker to view full details.
-                      </p>
-                    </div>
-                  </div>
 
-                  <MapView
-                    reports={filteredReports
-                      .filter(r => mapLayerFilter === "all" || r.category === mapLayerFilter)
-                      .map(r => ({
-                        id: r.id,
-                        image: r.image_url,
-                        aiProcessedImage: r.ai_processed_image_url || undefined,
-                        description: r.description,
-                        location: { lat: r.latitude, lon: r.longitude },
-                        category: r.category,
-                        department: r.department,
-                        status: r.status,
-                        createdAt: new Date(r.created_at)
-                      }))}
-                    height="600px"
-                    zoom={12}
-                    showLayerControl={true}
-                  />
-                </CardContent>
-              </Card>
-            )}
-
-            {/* Grid View Mode */}
-            {viewMode === "grid" && (
-              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                {filteredReports.map((report) => {
-                  const age = getIssueAge(report.created_at);
-                  const priorityScore = getPriorityScore(report);
-                  const isHighPriority = priorityScore > 40;
-
-                  return (
-                    <Card key={report.id} className={`shadow-md hover:shadow-xl transition-all ${isHighPriority ? 'border-2 border-orange-500' : ''}`}>
-                      <CardHeader className="pb-3">
-                        <div className="flex justify-between items-start mb-2">
-                          <div className="flex items-center gap-2">
-                            <Checkbox
-                              checked={selectedReports.includes(report.id)}
-                              onCheckedChange={() => toggleReportSelection(report.id)}
-                            />
-                            <Badge className={getCategoryColor(report.category)}>
-                              {report.category}
-                            </Badge>
-                            {isHighPriority && (
-                              <Badge variant="destructive" className="text-xs">
-                                <AlertTriangle className="w-3 h-3 mr-1" />
-                                HIGH
-                              </Badge>
-                            )}
-                          </div>
-                          <StatusBadge status={report.status} />
-                        </div>
-                        <div className="flex items-center justify-between text-xs text-muted-foreground">
-                          <span>ID: {report.id.slice(0, 8)}</span>
-                          <span className={age > 7 ? 'text-orange-600 font-medium' : ''}>
-                            <Clock className="w-3 h-3 inline mr-1" />
-                            {age}d old
-                          </span>
-                        </div>
-                      </CardHeader>
-                      <CardContent className="space-y-3">
-                        {/* Image Tabs: Original vs AI-Processed */}
-                        {report.ai_processed_image_url ? (
-                          <Tabs defaultValue="original" className="w-full">
-                            <TabsList className="grid w-full grid-cols-2">
-                              <TabsTrigger value="original">Original</TabsTrigger>
-                              <TabsTrigger value="ai">AI {Math.round((report.ai_confidence || 0.8) * 100)}%</TabsTrigger>
-                            </TabsList>
-                            <TabsContent value="original" className="mt-2">
+                      <MapView
+                        reports={filteredReports
+                          .filter(r => mapLayerFilter === "all" || r.category === mapLayerFilter)
+                          .map(r => ({
+                            id: r.id,
+                            image: r.image_url,
+                            aiProcessedImage: r.ai_processed_image_url || undefined,
+                            description: r.description,
+                            location: { lat: r.latitude, lon: r.longitude },
+                            category: r.category,
+                            department: r.department,
+                            status: r.status,
+                            severity: r.severity,
+                            supportCount: r.support_count,
+                            createdAt: new Date(r.created_at)
+                          }))}
+                        height="600px"
+                        zoom={12}
+                        showLayerControl={true}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Grid View Mode */}
+                {viewMode === "grid" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {filteredReports.map((report) => {
+                      const age = getIssueAge(report.created_at);
+                      const priorityScore = getPriorityScore(report);
+                      const isHighPriority = priorityScore > 40;
+
+                      return (
+                        <Card key={report.id} className={`shadow-md hover:shadow-xl transition-all ${isHighPriority ? 'border-2 border-orange-500' : ''}`}>
+                          <CardHeader className="pb-3">
+                            <div className="flex justify-between items-start mb-2">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <Checkbox
+                                  checked={selectedReports.includes(report.id)}
+                                  onCheckedChange={() => toggleReportSelection(report.id)}
+                                />
+                                <CategoryBadge category={report.category} />
+                                {isHighPriority && (
+                                  <Badge variant="destructive" className="text-xs">
+                                    <AlertTriangle className="w-3 h-3 mr-1" />
+                                    HIGH
+                                  </Badge>
+                                )}
+                                <SlaBadge report={report} />
+                                {report.support_count > 0 && (
+                                  <Badge variant="outline" className="text-xs">
+                                    👥 {report.support_count}
+                                  </Badge>
+                                )}
+                                {mergedCounts[report.id] && (
+                                  <Badge variant="outline" className="text-xs">
+                                    🔗 {mergedCounts[report.id]} merged
+                                  </Badge>
+                                )}
+                              </div>
+                              <StatusBadge status={report.status} />
+                            </div>
+                            <div className="flex items-center justify-between text-xs text-muted-foreground">
+                              <span>ID: {report.id.slice(0, 8)}</span>
+                              <span className={age > 7 ? 'text-orange-600 font-medium' : ''}>
+                                <Clock className="w-3 h-3 inline mr-1" />
+                                {age}d old
+                              </span>
+                            </div>
+                          </CardHeader>
+                          <CardContent className="space-y-3">
+                            {/* Image Tabs: Original vs AI-Processed */}
+                            {report.ai_processed_image_url ? (
+                              <Tabs defaultValue="original" className="w-full">
+                                <TabsList className="grid w-full grid-cols-2">
+                                  <TabsTrigger value="original">Original</TabsTrigger>
+                                  <TabsTrigger value="ai">
+                                    AI {report.ai_confidence !== null ? `${Math.round(report.ai_confidence * 100)}%` : ''}
+                                  </TabsTrigger>
+                                </TabsList>
+                                <TabsContent value="original" className="mt-2">
+                                  <img
+                                    src={report.image_url}
+                                    alt="Original Issue"
+                                    className="w-full h-48 object-cover rounded-lg"
+                                  />
+                                </TabsContent>
+                                <TabsContent value="ai" className="mt-2">
+                                  <img
+                                    src={report.ai_processed_image_url}
+                                    alt="AI Processed with Detection"
+                                    className="w-full h-48 object-cover rounded-lg border-2 border-green-500"
+                                  />
+                                  <div className="mt-2 p-2 bg-green-50 dark:bg-green-900/20 rounded">
+                                    <p className="text-xs text-green-700 dark:text-green-300">
+                                      ✅ AI Detection: {report.ai_confidence !== null
+                                        ? `${Math.round(report.ai_confidence * 100)}% confidence`
+                                        : 'confidence not reported'}
+                                    </p>
+                                    {(report.ai_confidence ?? 0) < 0.75 && (
+                                      <p className="text-xs text-orange-600 mt-1">
+                                        ⚠️ Low confidence - manual review recommended
+                                      </p>
+                                    )}
+                                  </div>
+                                </TabsContent>
+                              </Tabs>
+                            ) : (
                               <img
                                 src={report.image_url}
-                                alt="Original Issue"
+                                alt="Issue"
                                 className="w-full h-48 object-cover rounded-lg"
                               />
-                            </TabsContent>
-                            <TabsContent value="ai" className="mt-2">
-                              <img
-                                src={report.ai_processed_image_url}
-                                alt="AI Processed with Detection"
-                                className="w-full h-48 object-cover rounded-lg border-2 border-green-500"
-                              />
-                              <div className="mt-2 p-2 bg-green-50 dark:bg-green-900/20 rounded">
-                                <p className="text-xs text-green-700 dark:text-green-300">
-                                  ✅ AI Detection: {Math.round((report.ai_confidence || 0.8) * 100)}% confidence
-                                </p>
-                                {(report.ai_confidence || 0.8) < 0.75 && (
-                                  <p className="text-xs text-orange-600 mt-1">
-                                    ⚠️ Low confidence - manual review recommended
-                                  </p>
-                                )}
-                              </div>
-                            </TabsContent>
-                          </Tabs>
-                        ) : (
-                          <img
-                            src={report.image_url}
-                            alt="Issue"
-                            className="w-full h-48 object-cover rounded-lg"
-                          />
-                        )}
+                            )}
 
-                        <div>
-                          <p className="text-sm text-muted-foreground line-clamp-2">{report.description}</p>
-                        </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground line-clamp-2">{report.description}</p>
+                            </div>
 
-                        <div className="grid grid-cols-2 gap-2 text-xs">
-                          <div>
-                            <p className="text-muted-foreground">Department</p>
-                            <Badge variant="outline" className="text-xs">{report.department}</Badge>
-                          </div>
-                          <div>
-                            <p className="text-muted-foreground">Priority Score</p>
-                            <Badge variant="secondary" className="text-xs">{priorityScore.toFixed(0)}</Badge>
-                          </div>
-                        </div>
+                            <div className="grid grid-cols-2 gap-2 text-xs">
+                              <div>
+                                <p className="text-muted-foreground">Department</p>
+                                <Badge variant="outline" className="text-xs">{report.department}</Badge>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Priority Score</p>
+                                <Badge variant="secondary" className="text-xs">{priorityScore.toFixed(0)}</Badge>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Severity</p>
+                                <Badge variant="outline" className="text-xs capitalize">{report.severity}</Badge>
+                              </div>
+                            </div>
 
-                        <div className="flex gap-2">
-                          <Select
-                            value={report.status}
-                            onValueChange={(value) => handleStatusUpdate(report.id, value as IssueStatus)}
-                          >
-                            <SelectTrigger className="flex-1 h-9">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="pending">Pending</SelectItem>
-                              <SelectItem value="in-progress">In Progress</SelectItem>
-                              <SelectItem value="resolved">Resolved</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleAutoRoute(report.id)}
-                            title="Auto-route based on AI detection"
-                          >
-                            🤖
-                          </Button>
-                        </div>
+                            <div className="flex gap-2">
+                              <Select
+                                value={report.status}
+                                onValueChange={(value) => handleStatusUpdate(report.id, value as IssueStatus)}
+                              >
+                                <SelectTrigger className="flex-1 h-9">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {[report.status, ...getAllowedTransitions(report.status)].map((status) => (
+                                    <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleAutoRoute(report.id)}
+                                title="Auto-route using the routing rules"
+                              >
+                                🤖
+                              </Button>
+                            </div>
 
-                        <Button
-                          variant="secondary"
-                          className="w-full"
-                          onClick={() => navigate(`/report/${report.id}`)}
-                        >
-                          📋 Full Details
-                        </Button>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
-              </div>
-            )}
-
-            {filteredReports.length === 0 && (
-              <Card className="shadow-md">
-                <CardContent className="py-12 text-center">
-                  <Filter className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-                  <h3 className="text-lg font-semibold mb-2">No Reports Found</h3>
-                  <p className="text-muted-foreground">Try adjusting your filters</p>
-                </CardContent>
-              </Card>
-            )}
+                            <Button
+                              variant="secondary"
+                              className="w-full"
+                              onClick={() => navigate(`/report/${report.id}`)}
+                            >
+                              📋 Full Details
+                            </Button>
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {filteredReports.length === 0 && (
+                  <Card className="shadow-md">
+                    <CardContent className="py-12 text-center">
+                      <Filter className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+                      <h3 className="text-lg font-semibold mb-2">No Reports Found</h3>
+                      <p className="text-muted-foreground">Try adjusting your filters</p>
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+
+              <TabsContent value="ai-review">
+                <AiReviewQueue />
+              </TabsContent>
+
+              <TabsContent value="model-performance">
+                <ModelPerformance />
+              </TabsContent>
+            </Tabs>
           </div>
         </div>
       </main>
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useStaffDirectory } from "@/hooks/use-staff-directory";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { toast } from "sonner";
+import { ArrowLeft, Plus, Trash2, Users, X } from "lucide-react";
+
+// Select value standing in for "no department"
+const NONE = "none";
+
+const Crews = () => {
+  const navigate = useNavigate();
+  const { departments } = useTaxonomy();
+  const { staff, crews, loading, getStaffName, refresh } = useStaffDirectory();
+  const [newCrew, setNewCrew] = useState({ name: "", department: NONE });
+
+  const handleAddCrew = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newCrew.name.trim()) {
+      toast.error("Crew name is required");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('crews')
+        .insert({
+          name: newCrew.name.trim(),
+          department: newCrew.department === NONE ? null : newCrew.department,
+        });
+
+      if (error) throw error;
+
+      toast.success("Crew added");
+      setNewCrew({ name: "", department: NONE });
+      refresh();
+    } catch (error) {
+      console.error('Error adding crew:', error);
+      toast.error('Failed to add crew. Is the name already taken?');
+    }
+  };
+
+  const handleDeleteCrew = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('crews')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success("Crew deleted");
+      refresh();
+    } catch (error) {
+      console.error('Error deleting crew:', error);
+      toast.error('Failed to delete crew');
+    }
+  };
+
+  const handleAddMember = async (crewId: string, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('crew_members')
+        .insert({ crew_id: crewId, user_id: userId });
+
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error adding crew member:', error);
+      toast.error('Failed to add crew member');
+    }
+  };
+
+  const handleRemoveMember = async (crewId: string, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from('crew_members')
+        .delete()
+        .eq('crew_id', crewId)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error removing crew member:', error);
+      toast.error('Failed to remove crew member');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted">
+      <header className="bg-gradient-to-r from-primary to-primary/90 text-primary-foreground shadow-lg">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => navigate("/admin-dashboard")}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Crews</h1>
+              <p className="text-xs opacity-80">Field crews that work orders can be assigned to</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Crews
+            </CardTitle>
+            <CardDescription>
+              Every member of a crew sees the crew's work orders under "My Work Orders".
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {loading ? (
+              <div className="py-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Members</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {crews.map((crew) => (
+                    <TableRow key={crew.id}>
+                      <TableCell className="font-medium">{crew.name}</TableCell>
+                      <TableCell>{crew.department ?? "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-2">
+                          {crew.member_ids.map((userId) => (
+                            <Badge key={userId} variant="secondary" className="gap-1">
+                              {getStaffName(userId)}
+                              <button type="button" onClick={() => handleRemoveMember(crew.id, userId)}>
+                                <X className="w-3 h-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                          <Select value="" onValueChange={(userId) => handleAddMember(crew.id, userId)}>
+                            <SelectTrigger className="w-40 h-8">
+                              <SelectValue placeholder="Add member" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {staff
+                                .filter((member) => !crew.member_ids.includes(member.id))
+                                .map((member) => (
+                                  <SelectItem key={member.id} value={member.id}>
+                                    {member.display_name || "Unnamed staff member"}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => handleDeleteCrew(crew.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <form onSubmit={handleAddCrew} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end border-t pt-4">
+              <div className="space-y-1">
+                <Label htmlFor="crew-name">Name</Label>
+                <Input
+                  id="crew-name"
+                  placeholder="e.g. North Road Crew"
+                  value={newCrew.name}
+                  onChange={(e) => setNewCrew({ ...newCrew, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Department</Label>
+                <Select value={newCrew.department} onValueChange={(value) => setNewCrew({ ...newCrew, department: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No department</SelectItem>
+                    {departments.map((d) => (
+                      <SelectItem key={d.id} value={d.name}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit">
+                <Plus className="w-4 h-4 mr-1" />
+                Add Crew
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Crews;
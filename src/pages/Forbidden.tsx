@@ -0,0 +1,36 @@
+import { useLocation, useNavigate } from "react-router-dom";
+import { useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { isStaffRole } from "@/lib/roles";
+
+const Forbidden = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { role } = useAuth();
+
+  useEffect(() => {
+    console.error("403 Error: User attempted to access a restricted route:", location.pathname, "as", role);
+  }, [location.pathname, role]);
+
+  const homeRoute = isStaffRole(role) ? "/admin-dashboard" : "/user-dashboard";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background">
+      <div className="text-center space-y-6">
+        <h1 className="mb-4 text-6xl font-bold text-foreground">403</h1>
+        <p className="mb-4 text-2xl text-muted-foreground">Access denied</p>
+        <p className="text-sm text-muted-foreground max-w-md mx-auto">
+          Your account doesn't have permission to view this page. Sign in with a staff or admin account if you need access.
+        </p>
+        <button
+          onClick={() => navigate(homeRoute)}
+          className="inline-block mt-6 px-6 py-3 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+        >
+          Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,9 +7,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "sonner";
-import { UserCircle, Shield, Loader2, MapPin } from "lucide-react";
-
-type UserRole = "citizen" | "admin" | "guest";
+import { UserCircle, Shield, Loader2, MapPin, Mail } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { isStaffRole } from "@/lib/roles";
+import type { UserRole } from "@/types/auth";
 
 const Login = () => {
   const [email, setEmail] = useState("");
@@ -17,102 +18,132 @@ const Login = () => {
   const [selectedRole, setSelectedRole] = useState<UserRole>("citizen");
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const {
+    session, role, loading: authLoading,
+    signInWithPassword, signInWithMagicLink, signInAsGuest, signOut, isSessionResumable
+  } = useAuth();
+  const resumeCheckedRef = useRef(false);
+
+  // Only same-origin paths are honoured so the parameter can't be used as an open redirect
+  const returnTo = searchParams.get("returnTo");
+  const safeReturnTo = returnTo && returnTo.startsWith("/") && !returnTo.startsWith("//") ? returnTo : null;
+
+  const getDestination = (sessionRole: UserRole | null) =>
+    safeReturnTo || (isStaffRole(sessionRole) ? "/admin-dashboard" : "/user-dashboard");
 
-  // Check for saved session on mount
+  // Check for saved session once auth has loaded
   useEffect(() => {
-    const savedRole = localStorage.getItem("userRole");
-    const savedTimestamp = localStorage.getItem("loginTimestamp");
+    if (authLoading || resumeCheckedRef.current) return;
+    if (!session) return;
+    resumeCheckedRef.current = true;
 
-    // Auto-login if session is less than 24 hours old
-    if (savedRole && savedTimestamp) {
-      const hoursSinceLogin = (Date.now() - parseInt(savedTimestamp)) / (1000 * 60 * 60);
+    // Guests coming here to sign in to a real account stay on the login screen
+    if (searchParams.get("switchAccount")) return;
 
-      if (hoursSinceLogin < 24) {
-        toast.info(`Resuming session as ${savedRole}`);
-        setTimeout(() => {
-          if (savedRole === "admin") {
-            navigate("/admin-dashboard");
-          } else {
-            navigate("/user-dashboard");
-          }
-        }, 1000);
-      } else {
-        // Clear expired session
-        localStorage.removeItem("userRole");
-        localStorage.removeItem("loginTimestamp");
-      }
+    // Auto-login if session is less than 24 hours old
+    if (isSessionResumable()) {
+      toast.info(`Resuming session as ${role}`);
+      setTimeout(() => {
+        navigate(getDestination(role));
+      }, 1000);
+    } else {
+      // Clear expired session
+      signOut().catch((error) => console.error('Error clearing expired session:', error));
     }
-  }, [navigate]);
+  }, [authLoading, session, role]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    resumeCheckedRef.current = true;
 
-    // Simulate loading animation
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    // Test credentials based on selected role
-    let isValid = false;
-    let destination = "/user-dashboard";
+    try {
+      const accountRole = await signInWithPassword(email, password);
 
-    if (selectedRole === "citizen") {
-      if (email === "user@test.com" && password === "user123") {
-        isValid = true;
-        destination = "/user-dashboard";
-        saveSession("citizen");
+      if (selectedRole === "admin" && !isStaffRole(accountRole)) {
+        await signOut();
+        setIsLoading(false);
+        toast.error("This account does not have admin access.");
+        return;
       }
-    } else if (selectedRole === "admin") {
-      if (email === "admin@test.com" && password === "admin123") {
-        isValid = true;
-        destination = "/admin-dashboard";
-        saveSession("admin");
-      }
-    }
 
-    if (isValid) {
-      toast.success(`Welcome! Logging in as ${selectedRole}...`);
+      toast.success(`Welcome! Logging in as ${accountRole}...`);
       setTimeout(() => {
-        navigate(destination);
+        navigate(getDestination(accountRole));
       }, 500);
-    } else {
+    } catch (error) {
+      console.error('Login error:', error);
+      setIsLoading(false);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Login failed: ${errorMessage}`);
+    }
+  };
+
+  const handleMagicLink = async () => {
+    if (!email) {
+      toast.error("Enter your email to receive a sign-in link");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await signInWithMagicLink(email);
+      toast.success(`Sign-in link sent to ${email}. Check your inbox.`);
+    } catch (error) {
+      console.error('Magic link error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to send sign-in link: ${errorMessage}`);
+    } finally {
       setIsLoading(false);
-      toast.error(`Invalid credentials for ${selectedRole}. Check the test credentials below.`);
     }
   };
 
-  const handleGuestMode = () => {
+  const handleGuestMode = async () => {
     setIsLoading(true);
-    toast.success("Entering Guest Mode...");
-    saveSession("guest");
+    resumeCheckedRef.current = true;
 
-    setTimeout(() => {
-      navigate("/user-dashboard");
-    }, 1500);
+    try {
+      await signInAsGuest();
+      toast.success("Entering Guest Mode...");
+      setTimeout(() => {
+        navigate(getDestination("guest"));
+      }, 1500);
+    } catch (error) {
+      console.error('Guest sign-in error:', error);
+      setIsLoading(false);
+      toast.error("Guest mode is unavailable right now");
+    }
   };
 
-  const handleQuickLogin = (role: UserRole) => {
+  // Quick access continues the current session instead of signing in again
+  const handleQuickLogin = (targetRole: UserRole) => {
+    if (!session) {
+      toast.error("Sign in first to use quick access");
+      return;
+    }
+
+    if (targetRole === "admin" && !isStaffRole(role)) {
+      toast.error("Your account does not have admin access.");
+      return;
+    }
+
     setIsLoading(true);
-    toast.success(`Quick login as ${role}...`);
-    saveSession(role);
+    toast.success(`Quick login as ${targetRole}...`);
 
     setTimeout(() => {
-      if (role === "admin") {
-        navigate("/admin-dashboard");
-      } else {
-        navigate("/user-dashboard");
-      }
+      navigate(targetRole === "admin" ? getDestination(role) : "/user-dashboard");
     }, 1500);
   };
 
-  const saveSession = (role: string) => {
-    localStorage.setItem("userRole", role);
-    localStorage.setItem("loginTimestamp", Date.now().toString());
-  };
-
-  const clearSession = () => {
-    localStorage.removeItem("userRole");
-    localStorage.removeItem("loginTimestamp");
-    toast.info("Session cleared");
+  const clearSession = async () => {
+    try {
+      await signOut();
+      toast.info("Session cleared");
+    } catch (error) {
+      console.error('Error clearing session:', error);
+      toast.error("Failed to clear session");
+    }
   };
 
   return (
@@ -178,7 +209,7 @@ const Login = () => {
                 <SelectItem value="admin">
                   <div className="flex items-center gap-2">
                     <Shield className="w-4 h-4" />
-                    <span>Admin - Manage Issues</span>
+                    <span>Staff / Admin - Manage Issues</span>
                   </div>
                 </SelectItem>
               </SelectContent>
@@ -192,7 +223,7 @@ const Login = () => {
               <Input
                 id="email"
                 type="email"
-                placeholder={selectedRole === "citizen" ? "user@test.com" : "admin@test.com"}
+                placeholder="you@example.com"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 required
@@ -205,7 +236,7 @@ const Login = () => {
               <Input
                 id="password"
                 type="password"
-                placeholder={selectedRole === "citizen" ? "user123" : "admin123"}
+                placeholder="Your password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 required
@@ -220,9 +251,19 @@ const Login = () => {
                   Logging in...
                 </>
               ) : (
-                `Login as ${selectedRole === "citizen" ? "Citizen" : "Admin"}`
+                `Login as ${selectedRole === "citizen" ? "Citizen" : "Staff / Admin"}`
               )}
             </Button>
+            <Button
+              type="button"
+              variant="link"
+              className="w-full"
+              onClick={handleMagicLink}
+              disabled={isLoading}
+            >
+              <Mail className="w-4 h-4 mr-2" />
+              Email me a sign-in link instead
+            </Button>
           </form>
 
           <div className="relative">
@@ -265,23 +306,8 @@ const Login = () => {
             </Button>
           </div>
 
-          {/* Test Credentials Info */}
-          <div className="mt-6 p-4 bg-gradient-to-r from-muted/50 to-muted/30 rounded-lg text-sm border">
-            <p className="font-semibold mb-2 text-foreground flex items-center gap-2">
-              🔑 Test Credentials:
-            </p>
-            <div className="space-y-1 text-muted-foreground">
-              <p>
-                <span className="font-medium text-foreground">Citizen:</span> user@test.com / user123
-              </p>
-              <p>
-                <span className="font-medium text-foreground">Admin:</span> admin@test.com / admin123
-              </p>
-            </div>
-          </div>
-
           {/* Session Management */}
-          {localStorage.getItem("userRole") && (
+          {session && (
             <Button
               variant="link"
               className="w-full text-xs text-muted-foreground"
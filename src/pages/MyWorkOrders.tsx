@@ -0,0 +1,292 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CategoryBadge from "@/components/CategoryBadge";
+import WorkOrderStatusBadge from "@/components/WorkOrderStatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { formatScheduledDate, uploadCompletionPhoto } from "@/lib/workOrders";
+import type { WorkOrderWithReport } from "@/types/workOrder";
+import { toast } from "sonner";
+import { ArrowLeft, CalendarDays, CheckCircle2, ClipboardList, Eye, MapPin, Play } from "lucide-react";
+
+type WorkOrderFilter = "open" | "completed" | "all";
+
+const MyWorkOrders = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [workOrders, setWorkOrders] = useState<WorkOrderWithReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<WorkOrderFilter>("open");
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [completionNotes, setCompletionNotes] = useState("");
+  const [completionPhotos, setCompletionPhotos] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchWorkOrders = async () => {
+    if (!user) return;
+
+    try {
+      const { data: memberships, error: membershipError } = await supabase
+        .from('crew_members')
+        .select('crew_id')
+        .eq('user_id', user.id);
+
+      if (membershipError) throw membershipError;
+
+      // Work given to me directly, or to any crew I belong to
+      const crewIds = memberships.map((m) => m.crew_id);
+      const assignment = crewIds.length > 0
+        ? `assignee_id.eq.${user.id},crew_id.in.(${crewIds.join(',')})`
+        : `assignee_id.eq.${user.id}`;
+
+      const { data, error } = await supabase
+        .from('work_orders')
+        .select('*, reports(id, description, category, status, image_url, latitude, longitude)')
+        .or(assignment)
+        .order('scheduled_for', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setWorkOrders(data as WorkOrderWithReport[]);
+    } catch (error) {
+      console.error('Error fetching work orders:', error);
+      toast.error('Failed to load your work orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWorkOrders();
+
+    const subscription = supabase
+      .channel('my-work-orders')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'work_orders' },
+        () => fetchWorkOrders()
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleStart = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('work_orders')
+        .update({ status: 'in-progress' })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setWorkOrders((prev) => prev.map((o) => (o.id === id ? { ...o, status: 'in-progress' } : o)));
+      toast.success("Work order started");
+    } catch (error) {
+      console.error('Error starting work order:', error);
+      toast.error('Failed to start work order');
+    }
+  };
+
+  const openCompletion = (order: WorkOrderWithReport) => {
+    setCompletingId(order.id);
+    setCompletionNotes(order.notes ?? "");
+    setCompletionPhotos([]);
+  };
+
+  const handleComplete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const order = workOrders.find((o) => o.id === completingId);
+    if (!order) return;
+
+    if (completionPhotos.length === 0) {
+      toast.error("Add at least one photo of the completed work");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const photoUrls = await Promise.all(completionPhotos.map((file) => uploadCompletionPhoto(order.id, file)));
+
+      const { error } = await supabase
+        .from('work_orders')
+        .update({
+          status: 'completed',
+          notes: completionNotes.trim() || null,
+          completion_photos: [...order.completion_photos, ...photoUrls],
+        })
+        .eq('id', order.id);
+
+      if (error) throw error;
+
+      toast.success("Work order completed");
+      setCompletingId(null);
+      fetchWorkOrders();
+    } catch (error) {
+      console.error('Error completing work order:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to complete work order: ${errorMessage}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const filteredWorkOrders = workOrders.filter((order) => {
+    if (filter === "open") return order.status === "scheduled" || order.status === "in-progress";
+    if (filter === "completed") return order.status === "completed";
+    return true;
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted">
+      <header className="bg-gradient-to-r from-primary to-primary/90 text-primary-foreground shadow-lg">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => navigate("/admin-dashboard")}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">My Work Orders</h1>
+              <p className="text-xs opacity-80">Field work assigned to you and your crews</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as WorkOrderFilter)}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="completed">Completed</TabsTrigger>
+            <TabsTrigger value="all">All</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="py-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : filteredWorkOrders.length === 0 ? (
+          <Card className="shadow-md">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <ClipboardList className="w-10 h-10 mx-auto mb-2 opacity-50" />
+              No work orders here.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {filteredWorkOrders.map((order) => (
+              <Card key={order.id} className="shadow-md">
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    {order.reports && <CategoryBadge category={order.reports.category} />}
+                    <WorkOrderStatusBadge status={order.status} />
+                  </div>
+                  <CardTitle className="text-base line-clamp-2">
+                    {order.reports?.description || "Report unavailable"}
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-3 flex-wrap">
+                    {order.scheduled_for && (
+                      <span className="flex items-center gap-1">
+                        <CalendarDays className="w-4 h-4" />
+                        {formatScheduledDate(order.scheduled_for)}
+                      </span>
+                    )}
+                    {order.reports && (
+                      <span className="flex items-center gap-1">
+                        <MapPin className="w-4 h-4" />
+                        {order.reports.latitude.toFixed(4)}, {order.reports.longitude.toFixed(4)}
+                      </span>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  {order.notes && <p className="text-muted-foreground">{order.notes}</p>}
+                  {order.materials.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Materials: {order.materials.join(", ")}</p>
+                  )}
+                  {order.completion_photos.length > 0 && (
+                    <div className="flex gap-2 flex-wrap">
+                      {order.completion_photos.map((url) => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer">
+                          <img src={url} alt="Completion" className="w-16 h-16 object-cover rounded" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  {completingId === order.id ? (
+                    <form onSubmit={handleComplete} className="space-y-3 border-t pt-3">
+                      <div className="space-y-1">
+                        <Label htmlFor={`photos-${order.id}`}>Completion Photos</Label>
+                        <Input
+                          id={`photos-${order.id}`}
+                          type="file"
+                          accept="image/*"
+                          multiple
+                          onChange={(e) => setCompletionPhotos(Array.from(e.target.files ?? []))}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={`notes-${order.id}`}>Notes</Label>
+                        <Textarea
+                          id={`notes-${order.id}`}
+                          rows={3}
+                          value={completionNotes}
+                          onChange={(e) => setCompletionNotes(e.target.value)}
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <Button type="submit" className="flex-1" disabled={saving}>
+                          {saving ? "Uploading..." : "Mark Completed"}
+                        </Button>
+                        <Button type="button" variant="outline" onClick={() => setCompletingId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <div className="flex gap-2 flex-wrap">
+                      {order.status === "scheduled" && (
+                        <Button size="sm" onClick={() => handleStart(order.id)}>
+                          <Play className="w-4 h-4 mr-1" />
+                          Start
+                        </Button>
+                      )}
+                      {order.status === "in-progress" && (
+                        <Button size="sm" onClick={() => openCompletion(order)}>
+                          <CheckCircle2 className="w-4 h-4 mr-1" />
+                          Complete
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/report/${order.report_id}`)}>
+                        <Eye className="w-4 h-4 mr-1" />
+                        View Report
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MyWorkOrders;
@@ -1,18 +1,36 @@
 import { useState, useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import StatusBadge from "@/components/StatusBadge";
 import MapView from "@/components/MapView";
-import { getCategoryColor } from "@/lib/mockData";
-import { IssueStatus, IssueCategory } from "@/types/report";
+import CategoryBadge from "@/components/CategoryBadge";
+import SlaBadge from "@/components/SlaBadge";
+import WorkOrdersCard from "@/components/WorkOrdersCard";
+import DuplicateMergeCard from "@/components/DuplicateMergeCard";
+import SupportButton from "@/components/SupportButton";
+import ReportCommentsCard from "@/components/ReportCommentsCard";
+import ReportMediaGallery from "@/components/ReportMediaGallery";
+import { IssueStatus, IssueCategory, IssueSeverity, CitizenFeedback } from "@/types/report";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { previewReportRouting } from "@/lib/routing";
+import { canRespondToResolution, resolveReport, respondToResolution } from "@/lib/resolution";
+import { getAllowedTransitions, getStatusLabel, isClosedStatus, requiresStatusReason } from "@/lib/reportStatus";
+import type { RoutingPreview } from "@/types/routing";
+import { isStaffRole } from "@/lib/roles";
+import { describeReportEvent } from "@/lib/reportEvents";
+import { useReportEvents } from "@/hooks/use-report-events";
 import { toast } from "sonner";
-import { ArrowLeft, Calendar, MapPin, Building2, CheckCircle2 } from "lucide-react";
+import { ArrowLeft, Calendar, MapPin, Building2, CheckCircle2, Eye, RefreshCw, UserCheck, AlarmClock, ThumbsUp, ThumbsDown } from "lucide-react";
 
 interface ReportDetail {
     id: string;
@@ -25,21 +43,54 @@ interface ReportDetail {
     department: string;
     status: IssueStatus;
     created_at: string;
+    user_id: string | null;
+    routing_rule_id: string | null;
+    due_at: string | null;
+    escalation_level: number;
+    severity: IssueSeverity;
+    ai_confidence: number | null;
+    ai_labels: string[];
+    ai_model_version: string | null;
+    resolution_photo_url: string | null;
+    resolution_note: string | null;
+    resolved_at: string | null;
+    confirmation_due_at: string | null;
+    citizen_feedback: CitizenFeedback | null;
+    citizen_feedback_note: string | null;
+    status_reason: string | null;
+    duplicate_of: string | null;
+    image_hash: string | null;
+    support_count: number;
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 const ReportDetails = () => {
     const navigate = useNavigate();
+    const location = useLocation();
     const { id } = useParams<{ id: string }>();
     const [report, setReport] = useState<ReportDetail | null>(null);
     const [loading, setLoading] = useState(true);
-    const [userRole, setUserRole] = useState<string>("");
-
-    // Get user role from localStorage on mount and set it in state
-    useEffect(() => {
-        const role = localStorage.getItem("userRole");
-        console.log("🔍 ReportDetails - Retrieved role from localStorage:", role);
-        setUserRole(role || "citizen"); // Default to citizen if no role found
-    }, []);
+    const { role, user } = useAuth();
+    const userRole = role || "citizen"; // Default to citizen if not signed in
+    const isStaffView = isStaffRole(role);
+    const { departments } = useTaxonomy();
+    const [routingPreview, setRoutingPreview] = useState<RoutingPreview | null>(null);
+    const [isEditingDescription, setIsEditingDescription] = useState(false);
+    const [descriptionDraft, setDescriptionDraft] = useState("");
+    // Status picked but not yet saved, because it needs an after photo or a reason.
+    // The dashboard sends staff here with one preselected.
+    const [pendingStatus, setPendingStatus] = useState<IssueStatus | null>(
+        (location.state as { status?: IssueStatus } | null)?.status ?? null
+    );
+    const [statusReason, setStatusReason] = useState("");
+    const [duplicateOfId, setDuplicateOfId] = useState("");
+    const [resolutionPhoto, setResolutionPhoto] = useState<File | null>(null);
+    const [resolutionNote, setResolutionNote] = useState("");
+    const [savingResolution, setSavingResolution] = useState(false);
+    const [isDisputing, setIsDisputing] = useState(false);
+    const [disputeNote, setDisputeNote] = useState("");
+    const events = useReportEvents(id ? [id] : []);
 
     const fetchReportDetails = async () => {
         try {
@@ -54,7 +105,7 @@ const ReportDetails = () => {
         } catch (error) {
             console.error('Error fetching report:', error);
             toast.error('Failed to load report details');
-            const dashboardRoute = userRole === "admin" ? '/admin-dashboard' : '/user-reports';
+            const dashboardRoute = isStaffView ? '/admin-dashboard' : '/user-reports';
             navigate(dashboardRoute);
         } finally {
             setLoading(false);
@@ -84,6 +135,24 @@ const ReportDetails = () => {
         };
     };
 
+    // Record the first time staff open this report
+    useEffect(() => {
+        if (id && isStaffView) {
+            supabase.rpc('mark_report_viewed', { _report_id: id }).then(({ error }) => {
+                if (error) console.error('Error marking report as viewed:', error);
+            });
+        }
+    }, [id, isStaffView]);
+
+    // Show staff which routing rule the current rule set picks for this report
+    useEffect(() => {
+        if (id && isStaffView) {
+            previewReportRouting(id)
+                .then(setRoutingPreview)
+                .catch((error) => console.error('Error previewing routing:', error));
+        }
+    }, [id, isStaffView]);
+
     useEffect(() => {
         if (id) {
             fetchReportDetails();
@@ -93,47 +162,121 @@ const ReportDetails = () => {
     }, [id]); // eslint-disable-line react-hooks/exhaustive-deps
 
 
-    const handleStatusUpdate = async (newStatus: IssueStatus) => {
+    const handleStatusSelect = (newStatus: IssueStatus) => {
+        if (newStatus === 'resolved' || requiresStatusReason(newStatus)) {
+            setPendingStatus(newStatus);
+            setStatusReason("");
+            setDuplicateOfId("");
+            return;
+        }
+
+        handleStatusUpdate(newStatus);
+    };
+
+    const handleStatusUpdate = async (newStatus: IssueStatus, reason?: string, duplicateOf?: string) => {
         if (!report) return;
 
+        if (requiresStatusReason(newStatus) && !reason?.trim()) {
+            toast.error('Please give a reason');
+            return;
+        }
+
+        if (newStatus === 'duplicate' && (!duplicateOf || !UUID_PATTERN.test(duplicateOf) || duplicateOf === report.id)) {
+            toast.error("Enter the full ID of the original report");
+            return;
+        }
+
         try {
             const { error } = await supabase
                 .from('reports')
-                .update({ status: newStatus })
+                .update({
+                    status: newStatus,
+                    status_reason: reason?.trim() || null,
+                    duplicate_of: newStatus === 'duplicate' ? duplicateOf : null,
+                })
                 .eq('id', report.id);
 
             if (error) throw error;
 
-            setReport({ ...report, status: newStatus });
-            toast.success(`Status updated to ${newStatus}`);
+            setPendingStatus(null);
+            fetchReportDetails();
+            toast.success(`Status updated to ${getStatusLabel(newStatus)}`);
         } catch (error) {
             console.error('Error updating status:', error);
             toast.error('Failed to update status');
         }
     };
 
-    const handleAutoRoute = async () => {
+    const handleResolve = async () => {
         if (!report) return;
 
-        const departmentMap: Record<string, string> = {
-            pothole: "Road Maintenance",
-            garbage: "Sanitation Department",
-            streetlight: "Public Works - Lighting",
-            other: "General Services"
-        };
+        if (!resolutionPhoto || !resolutionNote.trim()) {
+            toast.error('Add an after photo and a resolution note');
+            return;
+        }
+
+        setSavingResolution(true);
+        try {
+            await resolveReport(report.id, resolutionPhoto, resolutionNote);
+
+            setPendingStatus(null);
+            setResolutionPhoto(null);
+            setResolutionNote("");
+            fetchReportDetails();
+            toast.success('Report resolved');
+        } catch (error) {
+            console.error('Error resolving report:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            toast.error(`Failed to resolve report: ${errorMessage}`);
+        } finally {
+            setSavingResolution(false);
+        }
+    };
 
-        const newDepartment = departmentMap[report.category] || "General Services";
+    const handleResolutionResponse = async (confirmed: boolean) => {
+        if (!report) return;
+
+        if (!confirmed && !disputeNote.trim()) {
+            toast.error('Please describe what is still wrong');
+            return;
+        }
 
         try {
-            const { error } = await supabase
+            await respondToResolution(report.id, confirmed, confirmed ? undefined : disputeNote);
+
+            setIsDisputing(false);
+            setDisputeNote("");
+            fetchReportDetails();
+            toast.success(confirmed ? 'Thanks for confirming the fix!' : 'Sorry about that. The report has been reopened.');
+        } catch (error) {
+            console.error('Error responding to resolution:', error);
+            toast.error('Failed to send your response');
+        }
+    };
+
+    const handleAutoRoute = async () => {
+        if (!report) return;
+
+        try {
+            const preview = await previewReportRouting(report.id);
+            if (!preview) return;
+
+            const { data, error } = await supabase
                 .from('reports')
-                .update({ department: newDepartment })
-                .eq('id', report.id);
+                .update({ department: preview.department, routing_rule_id: preview.rule_id })
+                .eq('id', report.id)
+                .select('id');
 
             if (error) throw error;
-
-            setReport({ ...report, department: newDepartment });
-            toast.success(`Auto-routed to ${newDepartment}`);
+            // RLS leaves reports this user may not manage untouched without an error
+            if (data.length === 0) {
+                toast.error('You do not have permission to update this report');
+                return;
+            }
+
+            setRoutingPreview(preview);
+            setReport({ ...report, department: preview.department, routing_rule_id: preview.rule_id });
+            toast.success(`Auto-routed to ${preview.department}`);
         } catch (error) {
             console.error('Error auto-routing:', error);
             toast.error('Failed to auto-route issue');
@@ -144,12 +287,18 @@ const ReportDetails = () => {
         if (!report) return;
 
         try {
-            const { error } = await supabase
+            const { data, error } = await supabase
                 .from('reports')
                 .update({ department })
-                .eq('id', report.id);
+                .eq('id', report.id)
+                .select('id');
 
             if (error) throw error;
+            // RLS leaves reports this user may not manage untouched without an error
+            if (data.length === 0) {
+                toast.error('You do not have permission to update this report');
+                return;
+            }
 
             setReport({ ...report, department });
             toast.success(`Assigned to ${department}`);
@@ -159,21 +308,56 @@ const ReportDetails = () => {
         }
     };
 
+    const handleDescriptionSave = async () => {
+        if (!report) return;
+
+        try {
+            const { data, error } = await supabase
+                .from('reports')
+                .update({ description: descriptionDraft })
+                .eq('id', report.id)
+                .select('id');
+
+            if (error) throw error;
+            // RLS leaves reports this user may not manage untouched without an error
+            if (data.length === 0) {
+                toast.error('You do not have permission to update this report');
+                return;
+            }
+
+            setReport({ ...report, description: descriptionDraft });
+            setIsEditingDescription(false);
+            toast.success('Description updated');
+        } catch (error) {
+            console.error('Error updating description:', error);
+            toast.error('Failed to update description');
+        }
+    };
+
+    // Build the timeline from the recorded history, newest entry last
     const getStatusTimeline = () => {
         if (!report) return [];
 
-        const statuses = [
-            { label: "Submitted", value: "pending", icon: Calendar },
-            { label: "In Progress", value: "in-progress", icon: Building2 },
-            { label: "Resolved", value: "resolved", icon: CheckCircle2 }
-        ];
-
-        const currentIndex = statuses.findIndex(s => s.value === report.status);
+        const eventIcons: Record<string, typeof Calendar> = {
+            created: Calendar,
+            viewed: Eye,
+            status_changed: RefreshCw,
+            department_changed: Building2,
+            assignee_changed: UserCheck,
+            sla_breached: AlarmClock,
+            resolution_confirmed: ThumbsUp,
+            resolution_disputed: ThumbsDown
+        };
 
-        return statuses.map((status, index) => ({
-            ...status,
-            completed: index <= currentIndex,
-            current: index === currentIndex
+        return events.map((event, index) => ({
+            id: event.id,
+            label: describeReportEvent(event),
+            icon: event.event_type === 'status_changed' && event.new_value === 'resolved'
+                ? CheckCircle2
+                : eventIcons[event.event_type] || Calendar,
+            date: new Date(event.created_at),
+            byYou: !!user && event.actor_id === user.id,
+            current: index === events.length - 1
         }));
     };
 
@@ -192,6 +376,15 @@ const ReportDetails = () => {
     }
 
     const timeline = getStatusTimeline();
+    // Citizens may only edit their own reports while they are still pending
+    const canEditDescription = !!user && report.user_id === user.id && report.status === 'pending';
+    const canRespond = canRespondToResolution(report, user?.id);
+    // Other citizens can add their support while the issue is still open
+    const canSupport = !isStaffView && !!user && report.user_id !== user.id && !isClosedStatus(report.status);
+    const allowedTransitions = getAllowedTransitions(report.status);
+    // Ignore a preselected status the report can no longer move to
+    const statusForm = pendingStatus && allowedTransitions.includes(pendingStatus) ? pendingStatus : null;
+    const imageTabCount = 1 + (report.ai_processed_image_url ? 1 : 0) + (report.resolution_photo_url ? 1 : 0);
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted">
@@ -202,14 +395,14 @@ const ReportDetails = () => {
                             variant="secondary"
                             size="sm"
                             onClick={() => {
-                                const route = userRole === "admin" ? '/admin-dashboard' : '/user-reports';
+                                const route = isStaffView ? '/admin-dashboard' : '/user-reports';
                                 console.log("🔙 Navigating back with role:", userRole, "to:", route);
                                 navigate(route);
                             }}
                             className="flex items-center gap-2"
                         >
                             <ArrowLeft className="w-4 h-4" />
-                            Back to {userRole === "admin" ? "Dashboard" : "Reports"}
+                            Back to {isStaffView ? "Dashboard" : "Reports"}
                         </Button>
                         <div className="flex-1">
                             <h1 className="text-2xl font-bold">Report Details</h1>
@@ -217,13 +410,12 @@ const ReportDetails = () => {
                                 <p className="text-sm opacity-90">Report ID: {report.id.slice(0, 8)}...</p>
                                 {/* Role indicator badge for debugging */}
                                 <Badge variant="secondary" className="text-xs">
-                                    {userRole === "admin" ? "👑 Admin View" : "👤 User View"}
+                                    {userRole === "admin" ? "👑 Admin View" : isStaffView ? "🛠️ Staff View" : "👤 User View"}
                                 </Badge>
                             </div>
                         </div>
-                        <Badge className={getCategoryColor(report.category)}>
-                            {report.category}
-                        </Badge>
+                        <CategoryBadge category={report.category} />
+                        <SlaBadge report={report} showOnTrack />
                         <StatusBadge status={report.status} />
                     </div>
                 </div>
@@ -237,52 +429,85 @@ const ReportDetails = () => {
                         <Card className="shadow-lg">
                             <CardHeader>
                                 <CardTitle>Issue Images</CardTitle>
-                                <CardDescription>Original and AI-processed images</CardDescription>
+                                <CardDescription>
+                                    {report.resolution_photo_url
+                                        ? 'Original, AI-processed and after-resolution images'
+                                        : 'Original and AI-processed images'}
+                                </CardDescription>
                             </CardHeader>
                             <CardContent>
-                                {report.ai_processed_image_url ? (
+                                {imageTabCount > 1 ? (
                                     <Tabs defaultValue="original" className="w-full">
-                                        <TabsList className="grid w-full grid-cols-2">
-                                            <TabsTrigger value="original">Original Image</TabsTrigger>
-                                            <TabsTrigger value="ai">AI Detected</TabsTrigger>
+                                        <TabsList className={`grid w-full ${imageTabCount === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                                            <TabsTrigger value="original">Original</TabsTrigger>
+                                            {report.ai_processed_image_url && (
+                                                <TabsTrigger value="ai">AI Detected</TabsTrigger>
+                                            )}
+                                            {report.resolution_photo_url && (
+                                                <TabsTrigger value="before-after">Before / After</TabsTrigger>
+                                            )}
                                         </TabsList>
                                         <TabsContent value="original" className="mt-4">
-                                            <img
-                                                src={report.image_url}
-                                                alt="Original Issue"
-                                                className="w-full h-[500px] object-contain rounded-lg bg-muted"
+                                            <ReportMediaGallery
+                                                reportId={report.id}
+                                                coverUrl={report.image_url}
+                                                caption="Original uploaded image"
                                             />
-                                            <p className="text-sm text-muted-foreground mt-2 text-center">
-                                                Original uploaded image
-                                            </p>
-                                        </TabsContent>
-                                        <TabsContent value="ai" className="mt-4">
-                                            <img
-                                                src={report.ai_processed_image_url}
-                                                alt="AI Processed with Detection"
-                                                className="w-full h-[500px] object-contain rounded-lg bg-muted border-4 border-green-500"
-                                            />
-                                            <div className="mt-2 text-center">
-                                                <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
-                                                    ✅ AI Detection Applied (YOLO)
-                                                </Badge>
-                                                <p className="text-sm text-muted-foreground mt-1">
-                                                    Image processed with object detection
-                                                </p>
-                                            </div>
                                         </TabsContent>
+                                        {report.ai_processed_image_url && (
+                                            <TabsContent value="ai" className="mt-4">
+                                                <img
+                                                    src={report.ai_processed_image_url}
+                                                    alt="AI Processed with Detection"
+                                                    className="w-full h-[500px] object-contain rounded-lg bg-muted border-4 border-green-500"
+                                                />
+                                                <div className="mt-2 text-center">
+                                                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-300">
+                                                        ✅ AI Detection Applied (YOLO)
+                                                    </Badge>
+                                                    <p className="text-sm text-muted-foreground mt-1">
+                                                        Image processed with object detection
+                                                        {report.ai_confidence !== null && ` • ${Math.round(report.ai_confidence * 100)}% confidence`}
+                                                    </p>
+                                                </div>
+                                            </TabsContent>
+                                        )}
+                                        {report.resolution_photo_url && (
+                                            <TabsContent value="before-after" className="mt-4 space-y-3">
+                                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                                    <div>
+                                                        <img
+                                                            src={report.image_url}
+                                                            alt="Before"
+                                                            className="w-full h-[350px] object-contain rounded-lg bg-muted"
+                                                        />
+                                                        <p className="text-sm text-muted-foreground mt-2 text-center">Before</p>
+                                                    </div>
+                                                    <div>
+                                                        <img
+                                                            src={report.resolution_photo_url}
+                                                            alt="After"
+                                                            className="w-full h-[350px] object-contain rounded-lg bg-muted border-4 border-green-500"
+                                                        />
+                                                        <p className="text-sm text-muted-foreground mt-2 text-center">
+                                                            After{report.resolved_at && ` • ${new Date(report.resolved_at).toLocaleDateString()}`}
+                                                        </p>
+                                                    </div>
+                                                </div>
+                                                {report.resolution_note && (
+                                                    <p className="text-sm p-3 bg-accent/50 rounded-lg">
+                                                        <span className="font-medium">Resolution note:</span> {report.resolution_note}
+                                                    </p>
+                                                )}
+                                            </TabsContent>
+                                        )}
                                     </Tabs>
                                 ) : (
-                                    <div>
-                                        <img
-                                            src={report.image_url}
-                                            alt="Issue"
-                                            className="w-full h-[500px] object-contain rounded-lg bg-muted"
-                                        />
-                                        <p className="text-sm text-muted-foreground mt-2 text-center">
-                                            ⚠️ No AI processing available for this image
-                                        </p>
-                                    </div>
+                                    <ReportMediaGallery
+                                        reportId={report.id}
+                                        coverUrl={report.image_url}
+                                        caption="⚠️ No AI processing available for this image"
+                                    />
                                 )}
                             </CardContent>
                         </Card>
@@ -290,12 +515,45 @@ const ReportDetails = () => {
                         {/* Description */}
                         <Card className="shadow-lg">
                             <CardHeader>
-                                <CardTitle>Description</CardTitle>
+                                <div className="flex items-center justify-between">
+                                    <CardTitle>Description</CardTitle>
+                                    {canEditDescription && !isEditingDescription && (
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => {
+                                                setDescriptionDraft(report.description);
+                                                setIsEditingDescription(true);
+                                            }}
+                                        >
+                                            Edit
+                                        </Button>
+                                    )}
+                                </div>
                             </CardHeader>
                             <CardContent>
-                                <p className="text-foreground leading-relaxed">
-                                    {report.description || "No description provided"}
-                                </p>
+                                {isEditingDescription ? (
+                                    <div className="space-y-3">
+                                        <Textarea
+                                            value={descriptionDraft}
+                                            onChange={(e) => setDescriptionDraft(e.target.value)}
+                                            rows={4}
+                                            className="resize-none"
+                                        />
+                                        <div className="flex gap-2 justify-end">
+                                            <Button variant="ghost" size="sm" onClick={() => setIsEditingDescription(false)}>
+                                                Cancel
+                                            </Button>
+                                            <Button size="sm" onClick={handleDescriptionSave} disabled={!descriptionDraft.trim()}>
+                                                Save
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <p className="text-foreground leading-relaxed">
+                                        {report.description || "No description provided"}
+                                    </p>
+                                )}
                             </CardContent>
                         </Card>
 
@@ -321,6 +579,8 @@ const ReportDetails = () => {
                                         category: report.category,
                                         department: report.department,
                                         status: report.status,
+                                        severity: report.severity,
+                                        supportCount: report.support_count,
                                         createdAt: new Date(report.created_at)
                                     }]}
                                     center={{ lat: report.latitude, lon: report.longitude }}
@@ -329,6 +589,9 @@ const ReportDetails = () => {
                                 />
                             </CardContent>
                         </Card>
+
+                        {/* Comments and internal notes */}
+                        <ReportCommentsCard reportId={report.id} reporterId={report.user_id} isStaffView={isStaffView} />
                     </div>
 
                     {/* Right Column: Status and Actions */}
@@ -337,25 +600,26 @@ const ReportDetails = () => {
                         <Card className="shadow-lg">
                             <CardHeader>
                                 <CardTitle>
-                                    {userRole === "admin" ? "Status Timeline" : "🎯 Your Report Progress"}
+                                    {isStaffView ? "Status Timeline" : "🎯 Your Report Progress"}
                                 </CardTitle>
                                 <CardDescription>
-                                    {userRole === "admin"
+                                    {isStaffView
                                         ? "Track the progress of this report"
                                         : "Track your report status in real-time"}
                                 </CardDescription>
                             </CardHeader>
                             <CardContent>
                                 <div className="space-y-4">
-                                    {timeline.map((step, index) => {
+                                    {timeline.length === 0 && (
+                                        <p className="text-sm text-muted-foreground">No history recorded yet</p>
+                                    )}
+                                    {timeline.map((step) => {
                                         const Icon = step.icon;
                                         return (
-                                            <div key={step.value} className="flex items-start gap-3">
+                                            <div key={step.id} className="flex items-start gap-3">
                                                 <div className={`
-                          w-10 h-10 rounded-full flex items-center justify-center
-                          ${step.completed
-                                                        ? 'bg-primary text-primary-foreground'
-                                                        : 'bg-muted text-muted-foreground'}
+                          w-10 h-10 rounded-full flex items-center justify-center shrink-0
+                          bg-primary text-primary-foreground
                           ${step.current ? 'ring-4 ring-primary/30' : ''}
                         `}>
                                                     <Icon className="w-5 h-5" />
@@ -365,34 +629,124 @@ const ReportDetails = () => {
                                                         {step.label}
                                                     </p>
                                                     <p className="text-sm text-muted-foreground">
-                                                        {step.completed ? 'Completed' : 'Pending'}
+                                                        {step.date.toLocaleString()}{step.byYou && ' • by you'}
                                                     </p>
                                                 </div>
-                                                {index < timeline.length - 1 && (
-                                                    <div className={`absolute left-5 w-0.5 h-8 mt-10 
-                            ${step.completed ? 'bg-primary' : 'bg-muted'}`}
-                                                    />
-                                                )}
                                             </div>
                                         );
                                     })}
                                 </div>
 
+                                {(report.status_reason || report.duplicate_of) && (
+                                    <div className="mt-4 p-3 rounded-lg border text-sm space-y-2">
+                                        {report.status_reason && (
+                                            <p>
+                                                <span className="font-medium">{getStatusLabel(report.status)}:</span> {report.status_reason}
+                                            </p>
+                                        )}
+                                        {report.duplicate_of && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => navigate(`/report/${report.duplicate_of}`)}
+                                            >
+                                                🔗 View original report
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
+
                                 {/* Gamified message for users (non-admin) */}
-                                {userRole !== "admin" && (
+                                {!isStaffView && (
                                     <div className="mt-4 p-3 bg-accent/50 rounded-lg border-2 border-primary/20">
                                         <p className="text-sm text-center font-medium">
                                             {report.status === 'pending' && '⏰ Your report is being reviewed by our team...'}
                                             {report.status === 'in-progress' && '🚀 Great! Your issue is actively being worked on!'}
                                             {report.status === 'resolved' && '🎊 Awesome! Issue resolved! Thank you for making your community better!'}
+                                            {report.status === 'on-hold' && '⏸️ Your issue is on hold for now, we will get back to it'}
+                                            {report.status === 'reopened' && '🔁 Your issue has been reopened and is back in the queue'}
+                                            {report.status === 'rejected' && '🚫 This report was closed without action'}
+                                            {report.status === 'duplicate' && '🔗 This issue was already reported, follow the original report for updates'}
                                         </p>
                                     </div>
                                 )}
                             </CardContent>
                         </Card>
 
+                        {/* Me too - OTHER CITIZENS ONLY */}
+                        {canSupport && (
+                            <Card className="shadow-lg">
+                                <CardHeader>
+                                    <CardTitle>Affects you too?</CardTitle>
+                                    <CardDescription>
+                                        Add your support so staff know how many people this issue affects.
+                                        You'll also get its updates.
+                                    </CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <SupportButton
+                                        reportId={report.id}
+                                        supportCount={report.support_count}
+                                        size="default"
+                                        onToggle={(supporting) => setReport({
+                                            ...report,
+                                            support_count: report.support_count + (supporting ? 1 : -1),
+                                        })}
+                                    />
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {/* Resolution confirmation - REPORTER ONLY */}
+                        {canRespond && (
+                            <Card className="shadow-lg border-2 border-primary/40">
+                                <CardHeader>
+                                    <CardTitle>Is it fixed?</CardTitle>
+                                    <CardDescription>
+                                        Check the after photo and let us know by {new Date(report.confirmation_due_at!).toLocaleDateString()}
+                                    </CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-3">
+                                    {isDisputing ? (
+                                        <>
+                                            <Textarea
+                                                rows={3}
+                                                placeholder="What is still wrong?"
+                                                value={disputeNote}
+                                                onChange={(e) => setDisputeNote(e.target.value)}
+                                            />
+                                            <div className="flex gap-2">
+                                                <Button
+                                                    variant="destructive"
+                                                    className="flex-1"
+                                                    onClick={() => handleResolutionResponse(false)}
+                                                    disabled={!disputeNote.trim()}
+                                                >
+                                                    Reopen Report
+                                                </Button>
+                                                <Button variant="outline" onClick={() => setIsDisputing(false)}>
+                                                    Cancel
+                                                </Button>
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <div className="flex gap-2">
+                                            <Button className="flex-1" onClick={() => handleResolutionResponse(true)}>
+                                                <ThumbsUp className="w-4 h-4 mr-1" />
+                                                Yes, it's fixed
+                                            </Button>
+                                            <Button variant="outline" className="flex-1" onClick={() => setIsDisputing(true)}>
+                                                <ThumbsDown className="w-4 h-4 mr-1" />
+                                                Not fixed
+                                            </Button>
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        )}
+
                         {/* Update Status - ADMIN ONLY */}
-                        {userRole === "admin" && (
+                        {isStaffView && (
                             <Card className="shadow-lg">
                                 <CardHeader>
                                     <CardTitle>Update Status</CardTitle>
@@ -400,36 +754,119 @@ const ReportDetails = () => {
                                 <CardContent className="space-y-3">
                                     <Select
                                         value={report.status}
-                                        onValueChange={(value) => handleStatusUpdate(value as IssueStatus)}
+                                        onValueChange={(value) => handleStatusSelect(value as IssueStatus)}
                                     >
                                         <SelectTrigger>
                                             <SelectValue />
                                         </SelectTrigger>
                                         <SelectContent>
-                                            <SelectItem value="pending">Pending</SelectItem>
-                                            <SelectItem value="in-progress">In Progress</SelectItem>
-                                            <SelectItem value="resolved">Resolved</SelectItem>
+                                            {[report.status, ...allowedTransitions].map((status) => (
+                                                <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                                            ))}
                                         </SelectContent>
                                     </Select>
                                     <p className="text-xs text-muted-foreground">
-                                        Current status: <span className="font-medium">{report.status}</span>
+                                        Current status: <span className="font-medium">{getStatusLabel(report.status)}</span>
                                     </p>
+                                    {statusForm && statusForm !== 'resolved' && (
+                                        <div className="space-y-3 border-t pt-3">
+                                            <p className="text-sm font-medium">Mark as {getStatusLabel(statusForm)}</p>
+                                            {statusForm === 'duplicate' && (
+                                                <div className="space-y-1">
+                                                    <Label htmlFor="duplicate-of">Original Report ID</Label>
+                                                    <Input
+                                                        id="duplicate-of"
+                                                        placeholder="Full ID from the original report's URL"
+                                                        value={duplicateOfId}
+                                                        onChange={(e) => setDuplicateOfId(e.target.value.trim())}
+                                                    />
+                                                </div>
+                                            )}
+                                            <div className="space-y-1">
+                                                <Label htmlFor="status-reason">Reason</Label>
+                                                <Textarea
+                                                    id="status-reason"
+                                                    rows={3}
+                                                    placeholder={statusForm === 'on-hold' ? 'e.g. Waiting for the contractor' : 'Why is the status changing?'}
+                                                    value={statusReason}
+                                                    onChange={(e) => setStatusReason(e.target.value)}
+                                                />
+                                            </div>
+                                            <div className="flex gap-2">
+                                                <Button
+                                                    className="flex-1"
+                                                    onClick={() => handleStatusUpdate(statusForm, statusReason, duplicateOfId)}
+                                                    disabled={!statusReason.trim() || (statusForm === 'duplicate' && !duplicateOfId)}
+                                                >
+                                                    Mark {getStatusLabel(statusForm)}
+                                                </Button>
+                                                <Button variant="outline" onClick={() => setPendingStatus(null)}>
+                                                    Cancel
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {statusForm === 'resolved' && (
+                                        <div className="space-y-3 border-t pt-3">
+                                            <p className="text-sm font-medium">Proof of resolution</p>
+                                            <div className="space-y-1">
+                                                <Label htmlFor="resolution-photo">After Photo</Label>
+                                                <Input
+                                                    id="resolution-photo"
+                                                    type="file"
+                                                    accept="image/*"
+                                                    onChange={(e) => setResolutionPhoto(e.target.files?.[0] ?? null)}
+                                                />
+                                            </div>
+                                            <div className="space-y-1">
+                                                <Label htmlFor="resolution-note">Resolution Note</Label>
+                                                <Textarea
+                                                    id="resolution-note"
+                                                    rows={3}
+                                                    placeholder="What was done to fix the issue?"
+                                                    value={resolutionNote}
+                                                    onChange={(e) => setResolutionNote(e.target.value)}
+                                                />
+                                            </div>
+                                            <div className="flex gap-2">
+                                                <Button
+                                                    className="flex-1"
+                                                    onClick={handleResolve}
+                                                    disabled={savingResolution || !resolutionPhoto || !resolutionNote.trim()}
+                                                >
+                                                    {savingResolution ? 'Uploading...' : 'Mark Resolved'}
+                                                </Button>
+                                                <Button variant="outline" onClick={() => setPendingStatus(null)}>
+                                                    Cancel
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {report.citizen_feedback && (
+                                        <div className="text-xs p-2 rounded-lg bg-accent/50">
+                                            {report.citizen_feedback === 'confirmed'
+                                                ? '👍 The reporter confirmed the fix'
+                                                : `👎 The reporter disputed the fix${report.citizen_feedback_note ? `: "${report.citizen_feedback_note}"` : ''}`}
+                                        </div>
+                                    )}
                                 </CardContent>
                             </Card>
                         )}
 
                         {/* Department Assignment - ADMIN ONLY */}
-                        {userRole === "admin" && (
+                        {isStaffView && (
                             <Card className="shadow-lg">
                                 <CardHeader>
                                     <CardTitle>Department Assignment</CardTitle>
                                     <CardDescription>
-                                        AI Suggested: {
-                                            report.category === 'pothole' ? 'Road Maintenance' :
-                                                report.category === 'garbage' ? 'Sanitation' :
-                                                    report.category === 'streetlight' ? 'Public Works' :
-                                                        'General Services'
-                                        }
+                                        {routingPreview ? (
+                                            <>
+                                                Rules suggest: <span className="font-medium">{routingPreview.department}</span>
+                                                {' '}({routingPreview.rule_name ? `matched "${routingPreview.rule_name}"` : 'no rule matched, category default'})
+                                            </>
+                                        ) : (
+                                            'Checking routing rules...'
+                                        )}
                                     </CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-3">
@@ -441,11 +878,9 @@ const ReportDetails = () => {
                                             <SelectValue />
                                         </SelectTrigger>
                                         <SelectContent>
-                                            <SelectItem value="Road Maintenance">Road Maintenance</SelectItem>
-                                            <SelectItem value="Sanitation Department">Sanitation Department</SelectItem>
-                                            <SelectItem value="Public Works - Lighting">Public Works - Lighting</SelectItem>
-                                            <SelectItem value="Water Department">Water Department</SelectItem>
-                                            <SelectItem value="General Services">General Services</SelectItem>
+                                            {departments.map((dept) => (
+                                                <SelectItem key={dept.id} value={dept.name}>{dept.name}</SelectItem>
+                                            ))}
                                         </SelectContent>
                                     </Select>
                                     <Button
@@ -453,7 +888,7 @@ const ReportDetails = () => {
                                         className="w-full"
                                         onClick={handleAutoRoute}
                                     >
-                                        🤖 Auto-Route Based on AI
+                                        🤖 Apply Routing Rules
                                     </Button>
                                     <p className="text-xs text-muted-foreground">
                                         Currently assigned to: <span className="font-medium">{report.department}</span>
@@ -462,6 +897,12 @@ const ReportDetails = () => {
                             </Card>
                         )}
 
+                        {/* Work Orders - STAFF ONLY */}
+                        {isStaffView && <WorkOrdersCard reportId={report.id} />}
+
+                        {/* Duplicate Merging - STAFF ONLY, duplicates cannot absorb other reports */}
+                        {isStaffView && report.status !== 'duplicate' && <DuplicateMergeCard report={report} />}
+
                         {/* Submission Info */}
                         <Card className="shadow-lg">
                             <CardHeader>
@@ -486,17 +927,67 @@ const ReportDetails = () => {
                                 <Separator />
                                 <div className="flex justify-between">
                                     <span className="text-muted-foreground">Category:</span>
-                                    <Badge className={getCategoryColor(report.category)}>
-                                        {report.category}
-                                    </Badge>
+                                    <CategoryBadge category={report.category} />
+                                </div>
+                                <Separator />
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Due:</span>
+                                    <span>
+                                        {report.due_at ? new Date(report.due_at).toLocaleDateString('en-US', {
+                                            month: 'short',
+                                            day: 'numeric',
+                                            hour: '2-digit',
+                                            minute: '2-digit'
+                                        }) : 'No deadline'}
+                                        {report.escalation_level > 0 && (
+                                            <Badge variant="destructive" className="ml-2 text-xs">Escalated</Badge>
+                                        )}
+                                    </span>
+                                </div>
+                                <Separator />
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Also Affected:</span>
+                                    <span>{report.support_count} {report.support_count === 1 ? 'citizen' : 'citizens'}</span>
+                                </div>
+                                <Separator />
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Severity:</span>
+                                    <Badge variant="outline" className="capitalize">{report.severity}</Badge>
                                 </div>
                                 <Separator />
                                 <div className="flex justify-between">
                                     <span className="text-muted-foreground">AI Processing:</span>
                                     <span>{report.ai_processed_image_url ? '✅ Yes' : '❌ No'}</span>
                                 </div>
+                                <Separator />
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">AI Confidence:</span>
+                                    <span>{report.ai_confidence !== null ? `${Math.round(report.ai_confidence * 100)}%` : 'Not reported'}</span>
+                                </div>
+                                {report.ai_labels.length > 0 && (
+                                    <>
+                                        <Separator />
+                                        <div className="flex justify-between gap-4">
+                                            <span className="text-muted-foreground">Detected Labels:</span>
+                                            <div className="flex flex-wrap justify-end gap-1">
+                                                {report.ai_labels.map(label => (
+                                                    <Badge key={label} variant="secondary" className="text-xs">{label}</Badge>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    </>
+                                )}
+                                {isStaffView && report.ai_model_version && (
+                                    <>
+                                        <Separator />
+                                        <div className="flex justify-between gap-4">
+                                            <span className="text-muted-foreground">Model:</span>
+                                            <span className="font-mono text-xs text-right break-all">{report.ai_model_version}</span>
+                                        </div>
+                                    </>
+                                )}
                                 {/* Show department only to admins */}
-                                {userRole === "admin" && (
+                                {isStaffView && (
                                     <>
                                         <Separator />
                                         <div className="flex justify-between">
@@ -0,0 +1,460 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { describeRuleConditions, parseWardBoundary } from "@/lib/routing";
+import type { RoutingRule, Ward } from "@/types/routing";
+import { toast } from "sonner";
+import { ArrowLeft, Map, Plus, Route, Trash2 } from "lucide-react";
+
+// Select value standing in for "no condition"
+const ANY = "any";
+
+const emptyRule = {
+  name: "",
+  priority: 100,
+  category: ANY,
+  ward_id: ANY,
+  severity: ANY,
+  start_time: "",
+  end_time: "",
+  time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+  department: "",
+};
+
+const RoutingRules = () => {
+  const navigate = useNavigate();
+  const { activeCategories, departments, getCategoryLabel } = useTaxonomy();
+  const [rules, setRules] = useState<RoutingRule[]>([]);
+  const [wards, setWards] = useState<Ward[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [newWardName, setNewWardName] = useState("");
+  const [newWardBoundary, setNewWardBoundary] = useState("");
+
+  useEffect(() => {
+    fetchRoutingData();
+  }, []);
+
+  const fetchRoutingData = async () => {
+    try {
+      const [rulesResult, wardsResult] = await Promise.all([
+        supabase.from('routing_rules').select('*').order('priority').order('created_at'),
+        supabase.from('wards').select('*').order('name'),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (wardsResult.error) throw wardsResult.error;
+
+      setRules(rulesResult.data as RoutingRule[]);
+      setWards(wardsResult.data as unknown as Ward[]);
+    } catch (error) {
+      console.error('Error fetching routing rules:', error);
+      toast.error('Failed to load routing rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newRule.name.trim() || !newRule.department) {
+      toast.error("Name and department are required");
+      return;
+    }
+    if (!newRule.start_time !== !newRule.end_time) {
+      toast.error("Set both a start and an end time, or neither");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('routing_rules')
+        .insert({
+          name: newRule.name.trim(),
+          priority: newRule.priority,
+          category: newRule.category === ANY ? null : newRule.category,
+          ward_id: newRule.ward_id === ANY ? null : newRule.ward_id,
+          severity: newRule.severity === ANY ? null : newRule.severity,
+          start_time: newRule.start_time || null,
+          end_time: newRule.end_time || null,
+          time_zone: newRule.time_zone.trim() || "UTC",
+          department: newRule.department,
+        });
+
+      if (error) throw error;
+
+      toast.success(`Added rule "${newRule.name.trim()}"`);
+      setNewRule(emptyRule);
+      fetchRoutingData();
+    } catch (error) {
+      console.error('Error adding routing rule:', error);
+      toast.error('Failed to add routing rule');
+    }
+  };
+
+  const handleUpdateRule = async (id: string, changes: Partial<Pick<RoutingRule, "is_active" | "priority">>) => {
+    try {
+      const { error } = await supabase
+        .from('routing_rules')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...changes } : r)));
+    } catch (error) {
+      console.error('Error updating routing rule:', error);
+      toast.error('Failed to update routing rule');
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('routing_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setRules((prev) => prev.filter((r) => r.id !== id));
+      toast.success("Rule deleted");
+    } catch (error) {
+      console.error('Error deleting routing rule:', error);
+      toast.error('Failed to delete routing rule');
+    }
+  };
+
+  const handleAddWard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWardName.trim()) return;
+
+    try {
+      const boundary = parseWardBoundary(newWardBoundary);
+      const { error } = await supabase
+        .from('wards')
+        .insert({ name: newWardName.trim(), boundary: boundary as unknown as Json });
+
+      if (error) throw error;
+
+      toast.success(`Added ${newWardName.trim()}`);
+      setNewWardName("");
+      setNewWardBoundary("");
+      fetchRoutingData();
+    } catch (error) {
+      console.error('Error adding ward:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add ward');
+    }
+  };
+
+  const handleDeleteWard = async (ward: Ward) => {
+    try {
+      // Rules scoped to the ward are removed with it
+      const { error } = await supabase
+        .from('wards')
+        .delete()
+        .eq('id', ward.id);
+
+      if (error) throw error;
+
+      toast.success(`Deleted ${ward.name}`);
+      fetchRoutingData();
+    } catch (error) {
+      console.error('Error deleting ward:', error);
+      toast.error('Failed to delete ward');
+    }
+  };
+
+  const wardName = (id: string | null) => wards.find((w) => w.id === id)?.name;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted">
+      <header className="bg-gradient-to-r from-primary to-primary/90 text-primary-foreground shadow-lg">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => navigate("/admin-dashboard")}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Routing Rules</h1>
+              <p className="text-xs opacity-80">Where new reports are sent, by category, ward, severity and time of day</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {loading && (
+          <Card className="shadow-md">
+            <CardContent className="py-12 text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+              <p className="text-muted-foreground">Loading routing rules...</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && (
+          <>
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Route className="w-5 h-5" />
+                  Rules
+                </CardTitle>
+                <CardDescription>
+                  Rules are checked from the lowest priority number up; the first match wins.
+                  Reports that match no rule go to their category's default department.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {rules.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">
+                    No rules yet — every report uses its category's default department
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Priority</TableHead>
+                        <TableHead>Rule</TableHead>
+                        <TableHead>Conditions</TableHead>
+                        <TableHead>Department</TableHead>
+                        <TableHead>Active</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map((rule) => (
+                        <TableRow key={rule.id}>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              defaultValue={rule.priority}
+                              onBlur={(e) => {
+                                const priority = Number(e.target.value);
+                                if (priority !== rule.priority) handleUpdateRule(rule.id, { priority });
+                              }}
+                              className="w-20"
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{rule.name}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {describeRuleConditions(rule, getCategoryLabel, wardName(rule.ward_id))}
+                          </TableCell>
+                          <TableCell>{rule.department}</TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={rule.is_active}
+                              onCheckedChange={(checked) => handleUpdateRule(rule.id, { is_active: checked })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="outline" onClick={() => handleDeleteRule(rule.id)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <form onSubmit={handleAddRule} className="space-y-3 border-t pt-4">
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <div className="space-y-1 md:col-span-3">
+                      <Label htmlFor="rule-name">Name</Label>
+                      <Input
+                        id="rule-name"
+                        placeholder="Night garbage in Ward 12"
+                        value={newRule.name}
+                        onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="rule-priority">Priority</Label>
+                      <Input
+                        id="rule-priority"
+                        type="number"
+                        value={newRule.priority}
+                        onChange={(e) => setNewRule({ ...newRule, priority: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label>Category</Label>
+                      <Select value={newRule.category} onValueChange={(value) => setNewRule({ ...newRule, category: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any category</SelectItem>
+                          {activeCategories.map((c) => (
+                            <SelectItem key={c.slug} value={c.slug}>{c.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Ward</Label>
+                      <Select value={newRule.ward_id} onValueChange={(value) => setNewRule({ ...newRule, ward_id: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any ward</SelectItem>
+                          {wards.map((w) => (
+                            <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Severity</Label>
+                      <Select value={newRule.severity} onValueChange={(value) => setNewRule({ ...newRule, severity: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any severity</SelectItem>
+                          <SelectItem value="low">Low</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="high">High</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="rule-start">From (optional)</Label>
+                      <Input
+                        id="rule-start"
+                        type="time"
+                        value={newRule.start_time}
+                        onChange={(e) => setNewRule({ ...newRule, start_time: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="rule-end">Until</Label>
+                      <Input
+                        id="rule-end"
+                        type="time"
+                        value={newRule.end_time}
+                        onChange={(e) => setNewRule({ ...newRule, end_time: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1 md:col-span-2">
+                      <Label htmlFor="rule-tz">Time zone</Label>
+                      <Input
+                        id="rule-tz"
+                        value={newRule.time_zone}
+                        onChange={(e) => setNewRule({ ...newRule, time_zone: e.target.value })}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                    <div className="space-y-1 md:col-span-3">
+                      <Label>Route to</Label>
+                      <Select value={newRule.department} onValueChange={(value) => setNewRule({ ...newRule, department: value })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose department" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {departments.map((d) => (
+                            <SelectItem key={d.id} value={d.name}>{d.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button type="submit">
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add Rule
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Map className="w-5 h-5" />
+                  Wards
+                </CardTitle>
+                <CardDescription>
+                  Ward boundaries used by rules. Paste a GeoJSON Polygon exported from any GIS tool.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {wards.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Boundary points</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {wards.map((ward) => (
+                        <TableRow key={ward.id}>
+                          <TableCell className="font-medium">{ward.name}</TableCell>
+                          <TableCell>{ward.boundary.coordinates[0]?.length ?? 0}</TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="outline" onClick={() => handleDeleteWard(ward)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <form onSubmit={handleAddWard} className="space-y-3">
+                  <Input
+                    placeholder="Ward name, e.g. Ward 12"
+                    value={newWardName}
+                    onChange={(e) => setNewWardName(e.target.value)}
+                  />
+                  <Textarea
+                    placeholder='{"type": "Polygon", "coordinates": [[[lon, lat], [lon, lat], [lon, lat], [lon, lat]]]}'
+                    value={newWardBoundary}
+                    onChange={(e) => setNewWardBoundary(e.target.value)}
+                    className="font-mono text-xs min-h-32"
+                  />
+                  <Button type="submit" disabled={!newWardName.trim() || !newWardBoundary.trim()}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Ward
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RoutingRules;
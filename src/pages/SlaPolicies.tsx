@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import type { SlaPolicy } from "@/types/sla";
+import { toast } from "sonner";
+import { AlarmClock, ArrowLeft, Plus, Trash2 } from "lucide-react";
+
+// Select value standing in for "any" / "no escalation department"
+const ANY = "any";
+
+const emptyPolicy = {
+  category: ANY,
+  severity: ANY,
+  resolve_within_hours: 72,
+  escalate_to_department: ANY,
+};
+
+const SlaPolicies = () => {
+  const navigate = useNavigate();
+  const { categories, departments, getCategoryLabel } = useTaxonomy();
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newPolicy, setNewPolicy] = useState(emptyPolicy);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  const fetchPolicies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sla_policies')
+        .select('*')
+        .order('category', { nullsFirst: true })
+        .order('severity', { nullsFirst: true });
+
+      if (error) throw error;
+      setPolicies(data as SlaPolicy[]);
+    } catch (error) {
+      console.error('Error fetching SLA policies:', error);
+      toast.error('Failed to load SLA policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddPolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPolicy.resolve_within_hours <= 0) {
+      toast.error("The deadline must be at least one hour");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('sla_policies')
+        .insert({
+          category: newPolicy.category === ANY ? null : newPolicy.category,
+          severity: newPolicy.severity === ANY ? null : newPolicy.severity,
+          resolve_within_hours: newPolicy.resolve_within_hours,
+          escalate_to_department: newPolicy.escalate_to_department === ANY ? null : newPolicy.escalate_to_department,
+        });
+
+      if (error) throw error;
+
+      toast.success("SLA policy added");
+      setNewPolicy(emptyPolicy);
+      fetchPolicies();
+    } catch (error) {
+      console.error('Error adding SLA policy:', error);
+      toast.error('Failed to add SLA policy. Is there already one for this category and severity?');
+    }
+  };
+
+  const handleUpdatePolicy = async (
+    id: string,
+    changes: Partial<Pick<SlaPolicy, "resolve_within_hours" | "escalate_to_department">>
+  ) => {
+    try {
+      const { error } = await supabase
+        .from('sla_policies')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setPolicies((prev) => prev.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+      toast.success("SLA policy updated");
+    } catch (error) {
+      console.error('Error updating SLA policy:', error);
+      toast.error('Failed to update SLA policy');
+    }
+  };
+
+  const handleDeletePolicy = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('sla_policies')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setPolicies((prev) => prev.filter((p) => p.id !== id));
+      toast.success("SLA policy deleted");
+    } catch (error) {
+      console.error('Error deleting SLA policy:', error);
+      toast.error('Failed to delete SLA policy');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted">
+      <header className="bg-gradient-to-r from-primary to-primary/90 text-primary-foreground shadow-lg">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => navigate("/admin-dashboard")}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">SLA Policies</h1>
+              <p className="text-xs opacity-80">Resolution deadlines and escalation for unresolved reports</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlarmClock className="w-5 h-5" />
+              Deadlines
+            </CardTitle>
+            <CardDescription>
+              New reports get the most specific matching policy. Reports still open at their deadline are
+              escalated automatically every 15 minutes, and moved to the escalation department if one is set.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {loading ? (
+              <div className="py-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Severity</TableHead>
+                    <TableHead>Resolve Within (hours)</TableHead>
+                    <TableHead>Escalate To</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policies.map((policy) => (
+                    <TableRow key={policy.id}>
+                      <TableCell>{policy.category ? getCategoryLabel(policy.category) : "Any category"}</TableCell>
+                      <TableCell className="capitalize">{policy.severity ?? "Any severity"}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          defaultValue={policy.resolve_within_hours}
+                          onBlur={(e) => {
+                            const hours = Number(e.target.value);
+                            if (hours > 0 && hours !== policy.resolve_within_hours) {
+                              handleUpdatePolicy(policy.id, { resolve_within_hours: hours });
+                            }
+                          }}
+                          className="w-24"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={policy.escalate_to_department ?? ANY}
+                          onValueChange={(value) =>
+                            handleUpdatePolicy(policy.id, { escalate_to_department: value === ANY ? null : value })
+                          }
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ANY}>Keep current department</SelectItem>
+                            {departments.map((d) => (
+                              <SelectItem key={d.id} value={d.name}>{d.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => handleDeletePolicy(policy.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <form onSubmit={handleAddPolicy} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end border-t pt-4">
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={newPolicy.category} onValueChange={(value) => setNewPolicy({ ...newPolicy, category: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any category</SelectItem>
+                    {categories.map((c) => (
+                      <SelectItem key={c.slug} value={c.slug}>{c.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Severity</Label>
+                <Select value={newPolicy.severity} onValueChange={(value) => setNewPolicy({ ...newPolicy, severity: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any severity</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sla-hours">Hours</Label>
+                <Input
+                  id="sla-hours"
+                  type="number"
+                  min={1}
+                  value={newPolicy.resolve_within_hours}
+                  onChange={(e) => setNewPolicy({ ...newPolicy, resolve_within_hours: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Escalate To</Label>
+                <Select
+                  value={newPolicy.escalate_to_department}
+                  onValueChange={(value) => setNewPolicy({ ...newPolicy, escalate_to_department: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Keep current department</SelectItem>
+                    {departments.map((d) => (
+                      <SelectItem key={d.id} value={d.name}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit">
+                <Plus className="w-4 h-4 mr-1" />
+                Add Policy
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default SlaPolicies;
@@ -0,0 +1,444 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import CategoryBadge from "@/components/CategoryBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import type { Category, Department } from "@/types/report";
+import { toast } from "sonner";
+import { ArrowLeft, Building2, Plus, Save, Tags, Trash2 } from "lucide-react";
+
+const emptyCategory = {
+  slug: "",
+  label: "",
+  color: "#6b7280",
+  icon: "⚠️",
+  default_department: "",
+  priority_weight: 5,
+};
+
+interface CategoryRowProps {
+  category: Category;
+  departments: Department[];
+  onSaved: () => void;
+}
+
+const CategoryRow = ({ category, departments, onSaved }: CategoryRowProps) => {
+  const [draft, setDraft] = useState(category);
+  const [saving, setSaving] = useState(false);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(category);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .update({
+          label: draft.label,
+          color: draft.color,
+          icon: draft.icon,
+          default_department: draft.default_department,
+          priority_weight: draft.priority_weight,
+          sort_order: draft.sort_order,
+          is_active: draft.is_active,
+        })
+        .eq('slug', category.slug);
+
+      if (error) throw error;
+
+      toast.success(`Saved ${draft.label}`);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving category:', error);
+      toast.error('Failed to save category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <CategoryBadge category={category.slug} />
+        <p className="font-mono text-xs text-muted-foreground mt-1">{category.slug}</p>
+      </TableCell>
+      <TableCell>
+        <Input value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} />
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center gap-2">
+          <Input
+            type="color"
+            value={draft.color}
+            onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+            className="w-12 p-1"
+          />
+          <Input
+            value={draft.icon}
+            onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+            className="w-16 text-center"
+          />
+        </div>
+      </TableCell>
+      <TableCell>
+        <Select
+          value={draft.default_department}
+          onValueChange={(value) => setDraft({ ...draft, default_department: value })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {departments.map((dept) => (
+              <SelectItem key={dept.id} value={dept.name}>{dept.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={0}
+          max={50}
+          value={draft.priority_weight}
+          onChange={(e) => setDraft({ ...draft, priority_weight: Number(e.target.value) })}
+          className="w-20"
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          value={draft.sort_order}
+          onChange={(e) => setDraft({ ...draft, sort_order: Number(e.target.value) })}
+          className="w-20"
+        />
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={draft.is_active}
+          onCheckedChange={(checked) => setDraft({ ...draft, is_active: checked })}
+        />
+      </TableCell>
+      <TableCell>
+        <Button size="sm" onClick={handleSave} disabled={!isDirty || saving}>
+          <Save className="w-4 h-4" />
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+interface DepartmentRowProps {
+  department: Department;
+  onSaved: () => void;
+}
+
+const DepartmentRow = ({ department, onSaved }: DepartmentRowProps) => {
+  const [name, setName] = useState(department.name);
+  const [description, setDescription] = useState(department.description || "");
+  const isDirty = name !== department.name || description !== (department.description || "");
+
+  const handleSave = async () => {
+    try {
+      // Renames cascade to reports, categories and staff profiles
+      const { error } = await supabase
+        .from('departments')
+        .update({ name: name.trim(), description: description.trim() || null })
+        .eq('id', department.id);
+
+      if (error) throw error;
+
+      toast.success(`Saved ${name.trim()}`);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving department:', error);
+      toast.error('Failed to save department');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const { error } = await supabase
+        .from('departments')
+        .delete()
+        .eq('id', department.id);
+
+      if (error) throw error;
+
+      toast.success(`Deleted ${department.name}`);
+      onSaved();
+    } catch (error) {
+      console.error('Error deleting department:', error);
+      toast.error('This department still has reports or categories routed to it');
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Input value={name} onChange={(e) => setName(e.target.value)} />
+      </TableCell>
+      <TableCell>
+        <Input
+          value={description}
+          placeholder="Optional"
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </TableCell>
+      <TableCell>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleSave} disabled={!isDirty || !name.trim()}>
+            <Save className="w-4 h-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleDelete}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+const TaxonomySettings = () => {
+  const navigate = useNavigate();
+  const { categories, departments, loading, refresh } = useTaxonomy();
+  const [newCategory, setNewCategory] = useState(emptyCategory);
+  const [newDepartment, setNewDepartment] = useState("");
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const slug = newCategory.slug.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    if (!slug || !newCategory.label.trim() || !newCategory.default_department) {
+      toast.error("Slug, label and default department are required");
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .insert({
+          ...newCategory,
+          slug,
+          label: newCategory.label.trim(),
+          sort_order: (categories[categories.length - 1]?.sort_order ?? 0) + 10,
+        });
+
+      if (error) throw error;
+
+      toast.success(`Added ${newCategory.label.trim()}`);
+      setNewCategory(emptyCategory);
+      refresh();
+    } catch (error) {
+      console.error('Error adding category:', error);
+      toast.error('Failed to add category');
+    }
+  };
+
+  const handleAddDepartment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDepartment.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('departments')
+        .insert({ name: newDepartment.trim() });
+
+      if (error) throw error;
+
+      toast.success(`Added ${newDepartment.trim()}`);
+      setNewDepartment("");
+      refresh();
+    } catch (error) {
+      console.error('Error adding department:', error);
+      toast.error('Failed to add department');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted">
+      <header className="bg-gradient-to-r from-primary to-primary/90 text-primary-foreground shadow-lg">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => navigate("/admin-dashboard")}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">Categories & Departments</h1>
+              <p className="text-xs opacity-80">Colors, icons and default routing used across the app</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {loading && (
+          <Card className="shadow-md">
+            <CardContent className="py-12 text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+              <p className="text-muted-foreground">Loading taxonomy...</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && (
+          <>
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Tags className="w-5 h-5" />
+                  Issue Categories
+                </CardTitle>
+                <CardDescription>
+                  Inactive categories stay on existing reports but are no longer assigned to new ones
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Label</TableHead>
+                      <TableHead>Color & Icon</TableHead>
+                      <TableHead>Default Department</TableHead>
+                      <TableHead>Priority Weight</TableHead>
+                      <TableHead>Order</TableHead>
+                      <TableHead>Active</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categories.map((category) => (
+                      <CategoryRow
+                        // Remount when the saved row changes so the draft resets
+                        key={`${category.slug}-${JSON.stringify(category)}`}
+                        category={category}
+                        departments={departments}
+                        onSaved={refresh}
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <form onSubmit={handleAddCategory} className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="new-category-slug">Slug</Label>
+                    <Input
+                      id="new-category-slug"
+                      placeholder="water-leak"
+                      value={newCategory.slug}
+                      onChange={(e) => setNewCategory({ ...newCategory, slug: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="new-category-label">Label</Label>
+                    <Input
+                      id="new-category-label"
+                      placeholder="Water Leak"
+                      value={newCategory.label}
+                      onChange={(e) => setNewCategory({ ...newCategory, label: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Color & Icon</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="color"
+                        value={newCategory.color}
+                        onChange={(e) => setNewCategory({ ...newCategory, color: e.target.value })}
+                        className="w-12 p-1"
+                      />
+                      <Input
+                        value={newCategory.icon}
+                        onChange={(e) => setNewCategory({ ...newCategory, icon: e.target.value })}
+                        className="w-16 text-center"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <Label>Default Department</Label>
+                    <Select
+                      value={newCategory.default_department}
+                      onValueChange={(value) => setNewCategory({ ...newCategory, default_department: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose department" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {departments.map((dept) => (
+                          <SelectItem key={dept.id} value={dept.name}>{dept.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button type="submit">
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Category
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-md">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="w-5 h-5" />
+                  Departments
+                </CardTitle>
+                <CardDescription>
+                  Renaming a department updates every report and staff member assigned to it
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {departments.map((department) => (
+                      <DepartmentRow
+                        key={`${department.id}-${department.name}-${department.description}`}
+                        department={department}
+                        onSaved={refresh}
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <form onSubmit={handleAddDepartment} className="flex gap-3">
+                  <Input
+                    placeholder="New department name"
+                    value={newDepartment}
+                    onChange={(e) => setNewDepartment(e.target.value)}
+                  />
+                  <Button type="submit" disabled={!newDepartment.trim()}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Department
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TaxonomySettings;
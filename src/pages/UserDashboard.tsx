@@ -12,13 +12,27 @@ import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
 import MapView from "@/components/MapView";
 import StatusBadge from "@/components/StatusBadge";
+import CategoryBadge from "@/components/CategoryBadge";
+import DuplicateReportDialog from "@/components/DuplicateReportDialog";
+import NotificationBell from "@/components/NotificationBell";
+import MediaPicker from "@/components/MediaPicker";
+import PendingReportsCard from "@/components/PendingReportsCard";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
 import {
   Upload, MapPin, Camera, CheckCircle2, Clock, AlertCircle,
   Mic, MicOff, Moon, Sun, Award, TrendingUp
 } from "lucide-react";
-import type { Report } from "@/types/report";
-import { detectIssueWithAI } from "@/services/aiService";
+import type { DuplicateCandidate, IssueStatus, MediaDraft } from "@/types/report";
+import { detectIssueWithAI, UNAVAILABLE_MODEL_VERSION } from "@/services/aiService";
+import { computeImageHash } from "@/lib/imageHash";
+import { findDuplicateCandidates } from "@/lib/duplicates";
+import { supportReport } from "@/lib/support";
+import { getCoverImage, getPhotoLocation, releaseMediaDrafts } from "@/lib/media";
+import { addToOutbox, isOutboxSupported } from "@/lib/outbox";
+import { useReportOutbox } from "@/hooks/use-report-outbox";
+import { pickReportResult, useReportSubmission, type DetectedIssue } from "@/hooks/use-report-submission";
 
 // Extend Window interface for Web Speech API
 declare global {
@@ -52,8 +66,11 @@ interface RecentReport {
 
 const UserDashboard = () => {
   const navigate = useNavigate();
-  const [image, setImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string>("");
+  const { signOut, user, role, upgradeGuestAccount } = useAuth();
+  const { resolveCategory, getDefaultDepartment, getCategoryLabel } = useTaxonomy();
+  const { detectEachImage, insertReport } = useReportSubmission();
+  const outbox = useReportOutbox();
+  const [media, setMedia] = useState<MediaDraft[]>([]);
   const [description, setDescription] = useState("");
   const [location, setLocation] = useState<{ lat: number; lon: number } | null>(null);
   const [address, setAddress] = useState<string>("");
@@ -63,26 +80,48 @@ const UserDashboard = () => {
   const [showSuccessAlert, setShowSuccessAlert] = useState(false);
   const [detectedCategory, setDetectedCategory] = useState<string>("");
   const [detectedDepartment, setDetectedDepartment] = useState<string>("");
-  const [aiConfidence, setAiConfidence] = useState<number>(0);
+  const [aiConfidence, setAiConfidence] = useState<number | null>(null);
   const [isAnalyzingImage, setIsAnalyzingImage] = useState(false);
   const [severity, setSeverity] = useState<number>(50); // Default to medium (50%)
   const [totalReports, setTotalReports] = useState<number>(0);
   const [isRecording, setIsRecording] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [guestEmail, setGuestEmail] = useState("");
+  const [isUpgrading, setIsUpgrading] = useState(false);
+  // Possible duplicates found on submit, with what is needed to submit anyway
+  const [duplicateCheck, setDuplicateCheck] = useState<{
+    candidates: DuplicateCandidate[];
+    clientId: string;
+    imageResults: DetectedIssue[];
+    imageHash: string | null;
+  } | null>(null);
   const recognitionRef = useRef<SpeechRecognitionType | null>(null);
+  const image = getCoverImage(media)?.file ?? null;
+  // Offered as the report location; the citizen may be reporting from somewhere else now
+  const photoMetadata = getPhotoLocation(media);
+  const photoLocation = photoMetadata?.location ?? null;
 
   // Load recent reports and total count on component mount
   useEffect(() => {
     fetchRecentReports();
     fetchTotalReportsCount();
     loadDarkModePreference();
-  }, []);
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Saved reports can be sent while another page is open; pick them up here too
+  useEffect(() => {
+    if (outbox.lastSentAt === null) return;
+    fetchRecentReports();
+    fetchTotalReportsCount();
+  }, [outbox.lastSentAt]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const fetchRecentReports = async () => {
     try {
+      if (!user) return;
       const { data, error } = await supabase
         .from('reports')
         .select('*')
+        .eq('user_id', user.id)
         .order('created_at', { ascending: false })
         .limit(5);
 
@@ -125,30 +164,37 @@ const UserDashboard = () => {
     }
   };
 
-  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImage(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleMediaChange = async (next: MediaDraft[]) => {
+    setMedia(next);
 
+    // Only a new cover photo is previewed; every photo is analysed on submit
+    const file = getCoverImage(next)?.file;
+    if (!file) {
+      setDetectedCategory("");
+      setDetectedDepartment("");
+      setAiConfidence(null);
+    } else if (file !== image) {
       // Automatically analyze image with AI
       setIsAnalyzingImage(true);
       const loadingToastId = toast.loading("Analyzing image with AI...");
       try {
-        const hfToken = import.meta.env.VITE_HUGGING_FACE_TOKEN;
-        const result = await detectIssueWithAI(file, hfToken);
+        const result = await detectIssueWithAI(file);
+        if (result.modelVersion === UNAVAILABLE_MODEL_VERSION) {
+          throw new Error("No detection provider available");
+        }
 
-        setDetectedCategory(result.category);
-        setDetectedDepartment(result.department);
-        // Simulate confidence (in production, this would come from the AI model)
-        const confidence = Math.floor(Math.random() * 20) + 75; // 75-95%
+        const category = resolveCategory(result.category);
+        setDetectedCategory(category);
+        setDetectedDepartment(getDefaultDepartment(category));
+        const confidence = result.confidence !== undefined ? Math.round(result.confidence * 100) : null;
         setAiConfidence(confidence);
 
-        toast.success(`AI detected: ${result.category} (${confidence}% confidence)`, { id: loadingToastId });
+        toast.success(
+          confidence !== null
+            ? `AI detected: ${getCategoryLabel(category)} (${confidence}% confidence)`
+            : `AI detected: ${getCategoryLabel(category)}`,
+          { id: loadingToastId }
+        );
       } catch (error) {
         console.error('AI analysis error:', error);
         toast.error('AI analysis failed, but you can still submit', { id: loadingToastId });
@@ -256,26 +302,107 @@ const UserDashboard = () => {
     }
   };
 
-  // Function to call Hugging Face AI API
-  const detectIssueCategory = async (imageFile: File) => {
-    // Get Hugging Face token from environment variable
-    const hfToken = import.meta.env.VITE_HUGGING_FACE_TOKEN;
+  const applyPhotoLocation = async () => {
+    if (!photoLocation) return;
+    setLocation(photoLocation);
+    const addr = await reverseGeocode(photoLocation.lat, photoLocation.lon);
+    toast.success(`Using photo location: ${addr}`);
+  };
+
+  // Save the report once any duplicate check has passed
+  const saveReport = async (
+    clientId: string,
+    imageResults: DetectedIssue[],
+    imageHash: string | null,
+    loadingToast: string | number
+  ) => {
+    if (!image || !location) return;
+
+    toast.loading(media.length > 1 ? `Uploading ${media.length} files...` : "Uploading image...", { id: loadingToast });
+    const { department, severityLabel } = await insertReport(
+      {
+        clientId,
+        files: media.map((item) => item.file),
+        description,
+        latitude: location.lat,
+        longitude: location.lon,
+        severity,
+      },
+      imageResults,
+      imageHash
+    );
+
+    // The routing rules may have sent it somewhere other than the category default
+    setDetectedDepartment(department);
+
+    // Success!
+    toast.success(`Report submitted successfully! Severity: ${severityLabel}`, { id: loadingToast });
+    setShowSuccessAlert(true);
+
+    // Refresh recent reports and update total count
+    await fetchRecentReports();
+    await fetchTotalReportsCount();
+
+    // Reset form after a short delay
+    setTimeout(() => {
+      resetForm();
+      setShowSuccessAlert(false);
+    }, 3000);
+  };
+
+  // Keep the report on this device when it cannot be sent, rather than losing it
+  const queueReport = async (clientId: string, loadingToast: string | number) => {
+    if (!image || !location || !user || !isOutboxSupported()) return false;
+
+    try {
+      await addToOutbox({
+        id: clientId,
+        user_id: user.id,
+        image,
+        media: media.map((item) => ({ file: item.file, file_name: item.file.name })),
+        description,
+        latitude: location.lat,
+        longitude: location.lon,
+        severity,
+      });
+      await outbox.refresh();
+      toast.success("Report saved on this device. It will be sent automatically once you're back online.", {
+        id: loadingToast,
+      });
+      resetForm();
+      return true;
+    } catch (error) {
+      console.error('Error queueing report:', error);
+      return false;
+    }
+  };
 
-    // Call AI service (uses Gradio YOLO API)
-    const result = await detectIssueWithAI(imageFile, hfToken);
+  const handleDiscardQueued = async (id: string) => {
+    try {
+      await outbox.discard(id);
+      toast.success("Saved report discarded");
+    } catch (error) {
+      console.error('Error discarding queued report:', error);
+      toast.error('Failed to discard report');
+    }
+  };
 
-    return {
-      category: result.category,
-      department: result.department,
-      processedImageUrl: result.processedImageUrl
-    };
+  const resetForm = () => {
+    releaseMediaDrafts(media);
+    setMedia([]);
+    setDescription("");
+    setSeverity(50); // Reset to medium
+    setDetectedCategory("");
+    setDetectedDepartment("");
+    setAiConfidence(null);
+    // Keep location for convenience
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!image) {
-      toast.error("Please upload an image");
+      toast.error("Please add at least one photo");
       return;
     }
 
@@ -287,94 +414,125 @@ const UserDashboard = () => {
     setIsSubmitting(true);
     setShowSuccessAlert(false);
 
-    try {
-      // Show processing toast
-      const loadingToast = toast.loading("Processing your report...");
+    // Show processing toast
+    const loadingToast = toast.loading("Processing your report...");
+    // Kept through every retry of this report, including from the outbox
+    const clientId = crypto.randomUUID();
 
-      // Step 1: Call AI API to detect issue type
-      toast.loading("AI is analyzing the image...", { id: loadingToast });
-      const aiResult = await detectIssueCategory(image);
+    try {
+      // Without a connection none of the steps below can succeed, so keep it for later
+      if (!navigator.onLine && await queueReport(clientId, loadingToast)) return;
+
+      // Step 1: Call AI API to detect issue type on every photo
+      const imageResults = await detectEachImage(media.map((item) => item.file), (current, total) => {
+        toast.loading(
+          total > 1 ? `AI is analyzing photo ${current} of ${total}...` : "AI is analyzing the image...",
+          { id: loadingToast }
+        );
+      });
+      const aiResult = pickReportResult(imageResults);
 
       setDetectedCategory(aiResult.category);
       setDetectedDepartment(aiResult.department);
 
-      // Step 2: Upload image to Supabase storage
-      toast.loading("Uploading image...", { id: loadingToast });
-      const fileExt = image.name.split('.').pop();
-      const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
-      const filePath = fileName;
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('report-images')
-        .upload(filePath, image);
-
-      if (uploadError) {
-        throw uploadError;
+      // Step 2: Look for an open report of the same issue close by.
+      // Neither check should stop the report from being filed if it fails.
+      toast.loading("Checking for similar reports nearby...", { id: loadingToast });
+      const imageHash = await computeImageHash(image).catch((error) => {
+        console.error('Error hashing image:', error);
+        return null;
+      });
+      const candidates = await findDuplicateCandidates({
+        category: aiResult.category,
+        latitude: location.lat,
+        longitude: location.lon,
+        imageHash,
+      }).catch((error) => {
+        console.error('Error checking for duplicates:', error);
+        return [];
+      });
+
+      if (candidates.length > 0) {
+        toast.dismiss(loadingToast);
+        setDuplicateCheck({ candidates, clientId, imageResults, imageHash });
+        return;
       }
 
-      // Get public URL of uploaded image
-      const { data: { publicUrl } } = supabase.storage
-        .from('report-images')
-        .getPublicUrl(filePath);
+      // Step 3: Upload and save
+      await saveReport(clientId, imageResults, imageHash, loadingToast);
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      if (await queueReport(clientId, loadingToast)) return;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to submit report: ${errorMessage}`, { id: loadingToast });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-      // Step 3: Insert report into database (including severity)
-      toast.loading("Saving report...", { id: loadingToast });
-      const severityLabel = severity <= 33 ? 'low' : severity <= 66 ? 'medium' : 'high';
-      const { error: insertError } = await supabase
-        .from('reports')
-        .insert({
-          image_url: publicUrl,
-          ai_processed_image_url: aiResult.processedImageUrl || null, // Save AI-processed image URL
-          description: description || "No description provided",
-          latitude: location.lat,
-          longitude: location.lon,
-          category: aiResult.category,
-          department: aiResult.department,
-          status: 'pending',
-          // Note: Add 'severity' column to your Supabase reports table if needed
-          // severity: severityLabel
-        });
-
-      if (insertError) {
-        throw insertError;
-      }
+  // The citizen decided their issue is not one of the suggested duplicates
+  const handleSubmitAnyway = async () => {
+    if (!duplicateCheck) return;
+    const { clientId, imageResults, imageHash } = duplicateCheck;
+    setDuplicateCheck(null);
+    setIsSubmitting(true);
 
-      // Success!
-      toast.success(`Report submitted successfully! Severity: ${severityLabel}`, { id: loadingToast });
-      setShowSuccessAlert(true);
-
-      // Refresh recent reports and update total count
-      await fetchRecentReports();
-      await fetchTotalReportsCount();
-
-      // Reset form after a short delay
-      setTimeout(() => {
-        setImage(null);
-        setImagePreview("");
-        setDescription("");
-        setSeverity(50); // Reset to medium
-        setDetectedCategory("");
-        setDetectedDepartment("");
-        setAiConfidence(0);
-        // Keep location for convenience
-        setShowSuccessAlert(false);
-      }, 3000);
+    const loadingToast = toast.loading("Saving report...");
 
+    try {
+      await saveReport(clientId, imageResults, imageHash, loadingToast);
     } catch (error) {
       console.error('Error submitting report:', error);
+      if (await queueReport(clientId, loadingToast)) return;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      toast.error(`Failed to submit report: ${errorMessage}`);
+      toast.error(`Failed to submit report: ${errorMessage}`, { id: loadingToast });
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleLogout = () => {
-    // Clear session data
-    localStorage.removeItem("userRole");
-    localStorage.removeItem("loginTimestamp");
-    toast.success("Logged out successfully");
-    navigate("/");
+  // Support the existing report instead of filing a new one
+  const handleSupportExisting = async (reportId: string) => {
+    if (!user) return;
+    setDuplicateCheck(null);
+
+    try {
+      await supportReport(reportId, user.id);
+      toast.success("Thanks! Your support was added and you'll get updates on this report.");
+      resetForm();
+      navigate(`/report/${reportId}`);
+    } catch (error) {
+      console.error('Error following report:', error);
+      toast.error('Failed to add your support');
+    }
+  };
+
+  // Guests keep their reports when they add an email to their session
+  const handleGuestUpgrade = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUpgrading(true);
+    try {
+      await upgradeGuestAccount(guestEmail);
+      toast.success(`Check ${guestEmail} to confirm your account. Your reports will stay with you.`);
+      setGuestEmail("");
+    } catch (error) {
+      console.error('Error creating account:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      toast.error(`Failed to create account: ${errorMessage}`);
+    } finally {
+      setIsUpgrading(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      toast.success("Logged out successfully");
+      navigate("/");
+    } catch (error) {
+      console.error('Error logging out:', error);
+      toast.error('Failed to log out');
+    }
   };
 
   return (
@@ -399,6 +557,8 @@ const UserDashboard = () => {
               {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </Button>
 
+            <NotificationBell />
+
             <Button variant="secondary" onClick={() => navigate("/user-reports")}>
               My Reports
             </Button>
@@ -410,6 +570,39 @@ const UserDashboard = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8 max-w-6xl">
+        {/* Guest account prompt */}
+        {role === "guest" && (
+          <Alert className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>You're reporting as a guest</AlertTitle>
+            <AlertDescription>
+              <p className="mb-3">Create an account to follow your reports from any device.</p>
+              <form onSubmit={handleGuestUpgrade} className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="email"
+                  placeholder="you@example.com"
+                  value={guestEmail}
+                  onChange={(e) => setGuestEmail(e.target.value)}
+                  required
+                  disabled={isUpgrading}
+                  className="sm:max-w-xs"
+                />
+                <Button type="submit" size="sm" disabled={isUpgrading}>
+                  Create Account
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  onClick={() => navigate("/?switchAccount=1")}
+                >
+                  I already have an account
+                </Button>
+              </form>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid lg:grid-cols-3 gap-6">
           {/* Main Report Form */}
           <div className="lg:col-span-2">
@@ -431,7 +624,7 @@ const UserDashboard = () => {
                     <AlertTitle className="text-green-800">Report Submitted Successfully!</AlertTitle>
                     <AlertDescription className="text-green-700">
                       <div className="mt-2">
-                        <p><strong>Detected Issue:</strong> {detectedCategory}</p>
+                        <p><strong>Detected Issue:</strong> {getCategoryLabel(detectedCategory)}</p>
                         <p><strong>Assigned Department:</strong> {detectedDepartment}</p>
                         <p className="text-sm mt-2">Your report has been forwarded to the appropriate department.</p>
                       </div>
@@ -440,39 +633,13 @@ const UserDashboard = () => {
                 )}
 
                 <form onSubmit={handleSubmit} className="space-y-6">
-                  {/* Image Upload */}
+                  {/* Photos and Video */}
                   <div className="space-y-3">
-                    <Label htmlFor="image" className="text-base font-semibold flex items-center gap-2">
+                    <Label className="text-base font-semibold flex items-center gap-2">
                       <Camera className="w-4 h-4" />
-                      Upload Image *
+                      Photos & Video *
                     </Label>
-                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 hover:border-primary transition-colors">
-                      <Input
-                        id="image"
-                        type="file"
-                        accept="image/*"
-                        capture="environment"
-                        onChange={handleImageChange}
-                        className="cursor-pointer"
-                        required
-                      />
-                      <p className="text-sm text-muted-foreground mt-2">
-                        Take a photo or upload from gallery
-                      </p>
-                    </div>
-                    {imagePreview && (
-                      <div className="mt-4 relative">
-                        <img
-                          src={imagePreview}
-                          alt="Preview"
-                          className="w-full max-w-md h-64 object-cover rounded-lg shadow-lg mx-auto border-4 border-white"
-                        />
-                        <Badge className="absolute top-2 right-2 bg-green-500">
-                          <CheckCircle2 className="w-3 h-3 mr-1" />
-                          Image Ready
-                        </Badge>
-                      </div>
-                    )}
+                    <MediaPicker items={media} onChange={handleMediaChange} disabled={isSubmitting} />
 
                     {/* Loading State for AI Analysis */}
                     {isAnalyzingImage && (
@@ -488,9 +655,15 @@ const UserDashboard = () => {
                         <AlertTitle>AI Detection Complete</AlertTitle>
                         <AlertDescription>
                           <div className="space-y-2">
-                            <p><strong>Category:</strong> {detectedCategory}</p>
-                            <p><strong>Confidence:</strong> {aiConfidence}%</p>
-                            <Progress value={aiConfidence} className="h-2" />
+                            <p><strong>Category:</strong> {getCategoryLabel(detectedCategory)}</p>
+                            {aiConfidence !== null ? (
+                              <>
+                                <p><strong>Confidence:</strong> {aiConfidence}%</p>
+                                <Progress value={aiConfidence} className="h-2" />
+                              </>
+                            ) : (
+                              <p><strong>Confidence:</strong> Not reported by the model</p>
+                            )}
                           </div>
                         </AlertDescription>
                       </Alert>
@@ -544,6 +717,20 @@ const UserDashboard = () => {
                         {isDetectingLocation ? "Detecting..." : "Detect My Location"}
                       </Button>
                     </div>
+                    {photoLocation && (location?.lat !== photoLocation.lat || location?.lon !== photoLocation.lon) && (
+                      <Alert>
+                        <Camera className="h-4 w-4" />
+                        <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                          <span className="text-sm">
+                            Your photo was taken at {photoLocation.lat.toFixed(5)}, {photoLocation.lon.toFixed(5)}
+                            {photoMetadata?.capturedAt && ` on ${new Date(photoMetadata.capturedAt).toLocaleString()}`}
+                          </span>
+                          <Button type="button" size="sm" variant="outline" onClick={applyPhotoLocation}>
+                            Use Photo Location
+                          </Button>
+                        </AlertDescription>
+                      </Alert>
+                    )}
                     <div className="rounded-lg overflow-hidden border-2 border-border shadow-md">
                       <MapView
                         height="300px"
@@ -615,7 +802,13 @@ const UserDashboard = () => {
           </div>
 
           {/* Recent Reports Sidebar */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-4">
+            <PendingReportsCard
+              entries={outbox.entries}
+              syncing={outbox.syncing}
+              onSyncNow={outbox.syncNow}
+              onDiscard={handleDiscardQueued}
+            />
             <Card className="shadow-xl sticky top-4">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -648,10 +841,8 @@ const UserDashboard = () => {
                           />
                           <div className="flex-1 min-w-0">
                             <div className="flex items-start justify-between gap-2 mb-1">
-                              <Badge variant="secondary" className="text-xs">
-                                {report.category}
-                              </Badge>
-                              <StatusBadge status={report.status as "pending" | "in-progress" | "resolved"} />
+                              <CategoryBadge category={report.category} className="text-xs" />
+                              <StatusBadge status={report.status as IssueStatus} />
                             </div>
                             <p className="text-sm text-gray-600 line-clamp-2 mb-1">
                               {report.description}
@@ -670,6 +861,14 @@ const UserDashboard = () => {
           </div>
         </div>
       </main>
+
+      <DuplicateReportDialog
+        candidates={duplicateCheck?.candidates ?? []}
+        open={duplicateCheck !== null}
+        onSupport={handleSupportExisting}
+        onSubmitAnyway={handleSubmitAnyway}
+        onCancel={() => setDuplicateCheck(null)}
+      />
     </div>
   );
 };
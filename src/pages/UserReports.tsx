@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,13 +9,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import StatusBadge from "@/components/StatusBadge";
 import MapView from "@/components/MapView";
-import { getCategoryColor } from "@/lib/mockData";
-import { IssueStatus, IssueCategory } from "@/types/report";
+import NearbyIssuesFeed from "@/components/NearbyIssuesFeed";
+import CategoryBadge from "@/components/CategoryBadge";
+import NotificationBell from "@/components/NotificationBell";
+import { IssueStatus, IssueCategory, IssueSeverity } from "@/types/report";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useReportEvents } from "@/hooks/use-report-events";
+import { useTaxonomy } from "@/hooks/use-taxonomy";
+import { findFirstEvent, findLatestEvent } from "@/lib/reportEvents";
+import { isStaffRole } from "@/lib/roles";
+import { ISSUE_STATUSES, getStatusLabel, isClosedStatus } from "@/lib/reportStatus";
+import { canRespondToResolution } from "@/lib/resolution";
 import { toast } from "sonner";
 import {
     ArrowLeft, Search, Filter, Image as ImageIcon, Map, Download,
-    Bell, RefreshCw, Clock, Eye, UserCheck, CheckCircle, Zap
+    Bell, RefreshCw, Clock, Eye, UserCheck, CheckCircle, Zap, MapPin
 } from "lucide-react";
 
 interface UserReport {
@@ -28,11 +37,13 @@ interface UserReport {
     category: IssueCategory;
     department: string;
     status: IssueStatus;
+    severity: IssueSeverity;
     created_at: string;
     updated_at?: string;
-    viewed_at?: string;
-    assigned_at?: string;
-    resolved_at?: string;
+    user_id: string | null;
+    confirmation_due_at: string | null;
+    citizen_feedback: string | null;
+    support_count: number;
 }
 
 const UserReports = () => {
@@ -43,25 +54,19 @@ const UserReports = () => {
     const [filterStatus, setFilterStatus] = useState<string>("all");
     const [searchTerm, setSearchTerm] = useState("");
     const [viewMode, setViewMode] = useState<"grid" | "map">("grid");
-    const [autoRefresh, setAutoRefresh] = useState(true);
     const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
-    const autoRefreshInterval = useRef<NodeJS.Timeout | null>(null);
+    const reportEvents = useReportEvents(reports.map(r => r.id));
+    const { categories, getCategoryLabel } = useTaxonomy();
 
-    // Get user role from localStorage
-    const userRole = localStorage.getItem("userRole") || "user";
+    // Staff and admins see the staff view, citizens and guests the citizen view
+    const { role, user } = useAuth();
+    const userRole = isStaffRole(role) ? "admin" : "user";
+    const [feed, setFeed] = useState<"mine" | "nearby">("mine");
 
-    // Fetch all reports (for testing, we show all reports)
-    // In production, you would filter by user_id
+    // Citizens see only their own submissions; staff see every report
     useEffect(() => {
         fetchReports();
 
-        // Set up auto-refresh every 30 seconds
-        if (autoRefresh) {
-            autoRefreshInterval.current = setInterval(() => {
-                fetchReports(true); // Silent refresh
-            }, 30000);
-        }
-
         // Set up real-time subscription for status updates
         const subscription = supabase
             .channel('reports-channel')
@@ -70,24 +75,13 @@ const UserReports = () => {
                 {
                     event: '*',
                     schema: 'public',
-                    table: 'reports'
+                    table: 'reports',
+                    ...(userRole === "user" && user ? { filter: `user_id=eq.${user.id}` } : {})
                 },
                 (payload) => {
                     console.log('Report updated:', payload);
 
-                    // Show toast notification for status changes
-                    if (payload.eventType === 'UPDATE' && payload.new) {
-                        const newReport = payload.new as UserReport;
-                        const oldReport = reports.find(r => r.id === newReport.id);
-
-                        if (oldReport && oldReport.status !== newReport.status) {
-                            toast.success(
-                                `🔔 Status Updated: Report #${newReport.id.slice(0, 8)} is now ${newReport.status}!`,
-                                { duration: 5000 }
-                            );
-                        }
-                    }
-
+                    // Status change alerts arrive through the notification bell
                     fetchReports(true); // Refresh reports
                 }
             )
@@ -95,20 +89,24 @@ const UserReports = () => {
 
         return () => {
             subscription.unsubscribe();
-            if (autoRefreshInterval.current) {
-                clearInterval(autoRefreshInterval.current);
-            }
         };
-    }, [autoRefresh]); // eslint-disable-line react-hooks/exhaustive-deps
+    }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
     const fetchReports = async (silent = false) => {
         try {
             if (!silent) setLoading(true);
-            const { data, error } = await supabase
+            let query = supabase
                 .from('reports')
                 .select('*')
                 .order('created_at', { ascending: false });
 
+            if (userRole === "user") {
+                if (!user) return;
+                query = query.eq('user_id', user.id);
+            }
+
+            const { data, error } = await query;
+
             if (error) throw error;
 
             setReports(data as UserReport[]);
@@ -137,8 +135,19 @@ const UserReports = () => {
         resolved: reports.filter(r => r.status === 'resolved').length,
     };
 
-    // Get timeline stages for a report
+    // Get timeline stages for a report from its recorded history
     const getReportTimeline = (report: UserReport) => {
+        const events = reportEvents.filter(e => e.report_id === report.id);
+        const viewed = findFirstEvent(events, e => e.event_type === 'viewed');
+        const assigned = findFirstEvent(events, e =>
+            e.event_type === 'department_changed' ||
+            e.event_type === 'assignee_changed' ||
+            (e.event_type === 'status_changed' && e.new_value === 'in-progress')
+        );
+        // Rejected and duplicate reports close the journey instead of a resolution
+        const closed = findLatestEvent(events, e => e.event_type === 'status_changed' && e.new_value === report.status);
+        const isClosed = isClosedStatus(report.status);
+
         const stages = [
             {
                 label: "Submitted",
@@ -150,22 +159,22 @@ const UserReports = () => {
             {
                 label: "Viewed by Admin",
                 icon: Eye,
-                completed: report.viewed_at !== null || report.status !== 'pending',
-                date: report.viewed_at ? new Date(report.viewed_at) : null,
+                completed: !!viewed || report.status !== 'pending',
+                date: viewed ? new Date(viewed.created_at) : null,
                 color: "text-purple-600"
             },
             {
                 label: "Assigned",
                 icon: UserCheck,
-                completed: report.assigned_at !== null || report.status === 'in-progress' || report.status === 'resolved',
-                date: report.assigned_at ? new Date(report.assigned_at) : null,
+                completed: !!assigned || ['in-progress', 'on-hold', 'reopened', 'resolved'].includes(report.status),
+                date: assigned ? new Date(assigned.created_at) : null,
                 color: "text-yellow-600"
             },
             {
-                label: "Resolved",
+                label: isClosed && report.status !== 'resolved' ? getStatusLabel(report.status) : "Resolved",
                 icon: CheckCircle,
-                completed: report.status === 'resolved',
-                date: report.resolved_at ? new Date(report.resolved_at) : null,
+                completed: isClosed,
+                date: isClosed && closed ? new Date(closed.created_at) : null,
                 color: "text-green-600"
             }
         ];
@@ -196,8 +205,9 @@ CIVIC ISSUE REPORT
 ==================
 
 Report ID: ${report.id}
-Status: ${report.status.toUpperCase()}
-Category: ${report.category}
+Status: ${getStatusLabel(report.status).toUpperCase()}
+Category: ${getCategoryLabel(report.category)}
+Severity: ${report.severity}
 ${userRole === "admin" ? `Department: ${report.department}\n` : ''}
 
 TIMELINE:
@@ -245,12 +255,6 @@ Generated by Community Alert Dashboard
         }
     };
 
-    // Toggle auto-refresh
-    const toggleAutoRefresh = () => {
-        setAutoRefresh(!autoRefresh);
-        toast.info(autoRefresh ? "Auto-refresh disabled" : "Auto-refresh enabled");
-    };
-
     return (
         <div className="min-h-screen bg-gradient-to-br from-accent via-background to-muted">
             <header className="bg-gradient-to-r from-primary to-primary/90 text-primary-foreground shadow-lg">
@@ -259,7 +263,7 @@ Generated by Community Alert Dashboard
                         <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => navigate(userRole === "admin" ? "/admin" : "/user-dashboard")}
+                            onClick={() => navigate(userRole === "admin" ? "/admin-dashboard" : "/user-dashboard")}
                             className="text-primary-foreground hover:bg-primary-foreground/20"
                         >
                             <ArrowLeft className="w-5 h-5" />
@@ -280,15 +284,13 @@ Generated by Community Alert Dashboard
 
                         {/* View Mode Toggle */}
                         <div className="ml-auto flex items-center gap-2">
-                            <Button
-                                variant={autoRefresh ? "secondary" : "ghost"}
-                                size="sm"
-                                onClick={toggleAutoRefresh}
-                                className="gap-2"
-                            >
-                                {autoRefresh ? <Zap className="w-4 h-4" /> : <RefreshCw className="w-4 h-4" />}
-                                {autoRefresh ? "Live" : "Manual"}
-                            </Button>
+                            <NotificationBell />
+
+                            {/* Kept current by the realtime subscription, no polling needed */}
+                            <Badge variant="secondary" className="gap-1">
+                                <Zap className="w-4 h-4" />
+                                Live
+                            </Badge>
 
                             <Button
                                 variant="ghost"
@@ -346,284 +348,320 @@ Generated by Community Alert Dashboard
             </header>
 
             <main className="container mx-auto px-4 py-8">
-                {/* Filters */}
-                <Card className="mb-6 shadow-md">
-                    <CardHeader>
-                        <div className="flex items-center gap-2">
-                            <Filter className="w-5 h-5" />
-                            <CardTitle>Filter Reports</CardTitle>
-                        </div>
-                        <CardDescription>Search and filter your submitted reports</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                            <div className="relative">
-                                <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-                                <Input
-                                    placeholder="Search description..."
-                                    value={searchTerm}
-                                    onChange={(e) => setSearchTerm(e.target.value)}
-                                    className="pl-9"
-                                />
-                            </div>
-                            <div>
-                                <Select value={filterCategory} onValueChange={setFilterCategory}>
-                                    <SelectTrigger>
-                                        <SelectValue placeholder="Filter by category" />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                        <SelectItem value="all">All Categories</SelectItem>
-                                        <SelectItem value="pothole">Pothole</SelectItem>
-                                        <SelectItem value="garbage">Garbage</SelectItem>
-                                        <SelectItem value="streetlight">Street Light</SelectItem>
-                                        <SelectItem value="other">Other</SelectItem>
-                                    </SelectContent>
-                                </Select>
-                            </div>
-                            <div>
-                                <Select value={filterStatus} onValueChange={setFilterStatus}>
-                                    <SelectTrigger>
-                                        <SelectValue placeholder="Filter by status" />
-                                    </SelectTrigger>
-                                    <SelectContent>
-                                        <SelectItem value="all">All Status</SelectItem>
-                                        <SelectItem value="pending">Pending</SelectItem>
-                                        <SelectItem value="in-progress">In Progress</SelectItem>
-                                        <SelectItem value="resolved">Resolved</SelectItem>
-                                    </SelectContent>
-                                </Select>
-                            </div>
-                        </div>
-                    </CardContent>
-                </Card>
-
-                {/* Loading State */}
-                {loading && (
-                    <Card className="shadow-md">
-                        <CardContent className="py-12 text-center">
-                            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-                            <p className="text-muted-foreground">Loading your reports...</p>
-                        </CardContent>
-                    </Card>
-                )}
-
-                {/* Reports Grid */}
-                {!loading && filteredReports.length > 0 && viewMode === "grid" && (
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                        {filteredReports.map((report) => {
-                            const timeline = getReportTimeline(report);
-                            return (
-                                <Card key={report.id} className="shadow-md hover:shadow-xl transition-all duration-300 border-2 hover:border-primary/50">
-                                    <CardHeader className="pb-3">
-                                        <div className="flex justify-between items-start mb-2">
-                                            <Badge className={getCategoryColor(report.category)}>
-                                                {report.category}
-                                            </Badge>
-                                            <StatusBadge status={report.status} />
-                                        </div>
-                                        <div className="text-xs text-muted-foreground">
-                                            Submitted: {new Date(report.created_at).toLocaleDateString('en-US', {
-                                                month: 'short',
-                                                day: 'numeric',
-                                                year: 'numeric',
-                                                hour: '2-digit',
-                                                minute: '2-digit'
-                                            })}
-                                        </div>
-                                    </CardHeader>
-                                    <CardContent className="space-y-4">
-                                        {/* Image Preview with AI Detection Toggle */}
-                                        {report.ai_processed_image_url ? (
-                                            <Tabs defaultValue="original" className="w-full">
-                                                <TabsList className="grid w-full grid-cols-2">
-                                                    <TabsTrigger value="original">Original</TabsTrigger>
-                                                    <TabsTrigger value="ai">AI Detected</TabsTrigger>
-                                                </TabsList>
-                                                <TabsContent value="original" className="mt-2">
-                                                    <img
-                                                        src={report.image_url}
-                                                        alt="Original"
-                                                        className="w-full h-48 object-cover rounded-lg"
-                                                    />
-                                                    <p className="text-xs text-muted-foreground mt-1 text-center">Original Image</p>
-                                                </TabsContent>
-                                                <TabsContent value="ai" className="mt-2">
-                                                    <img
-                                                        src={report.ai_processed_image_url}
-                                                        alt="AI Processed"
-                                                        className="w-full h-48 object-cover rounded-lg border-2 border-green-500"
-                                                    />
-                                                    <p className="text-xs text-green-600 mt-1 text-center font-medium">
-                                                        ✅ AI Detection (YOLO)
-                                                    </p>
-                                                </TabsContent>
-                                            </Tabs>
-                                        ) : (
-                                            <div>
-                                                <img
-                                                    src={report.image_url}
-                                                    alt="Report"
-                                                    className="w-full h-48 object-cover rounded-lg"
-                                                />
-                                                <p className="text-xs text-muted-foreground mt-1 text-center">
-                                                    No AI processing
-                                                </p>
-                                            </div>
-                                        )}
-
-                                        {/* AI Explanation */}
-                                        {userRole === "user" && (
-                                            <Alert className="bg-blue-50 border-blue-200">
-                                                <Zap className="w-4 h-4 text-blue-600" />
-                                                <AlertDescription className="text-xs text-blue-800">
-                                                    {getAIExplanation(report.category)}
-                                                </AlertDescription>
-                                            </Alert>
-                                        )}
-
-                                        {/* Description */}
-                                        <div>
-                                            <p className="text-sm font-medium text-foreground mb-1">Description</p>
-                                            <p className="text-sm text-muted-foreground line-clamp-2">
-                                                {report.description || "No description provided"}
-                                            </p>
-                                        </div>
-
-                                        {/* Department - Only show to admins */}
-                                        {userRole === "admin" && (
-                                            <div>
-                                                <p className="text-sm font-medium text-foreground mb-1">Department</p>
-                                                <Badge variant="outline" className="text-xs">
-                                                    {report.department}
-                                                </Badge>
-                                            </div>
-                                        )}
-
-                                        {/* Location */}
-                                        <div>
-                                            <p className="text-sm font-medium text-foreground mb-1">Location</p>
-                                            <p className="text-xs text-muted-foreground">
-                                                {report.latitude.toFixed(4)}, {report.longitude.toFixed(4)}
-                                            </p>
-                                        </div>
-
-                                        {/* Timeline Visualization */}
-                                        <div className="pt-2 border-t">
-                                            <p className="text-xs font-medium text-foreground mb-3">
-                                                {userRole === "user" ? "🎯 Report Journey" : "Timeline"}
-                                            </p>
-                                            <div className="space-y-2">
-                                                {timeline.map((stage, index) => {
-                                                    const Icon = stage.icon;
-                                                    return (
-                                                        <div key={stage.label} className="flex items-center gap-2">
-                                                            <div className={`w-6 h-6 rounded-full flex items-center justify-center ${stage.completed ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-400'
-                                                                }`}>
-                                                                <Icon className="w-3 h-3" />
-                                                            </div>
-                                                            <div className="flex-1">
-                                                                <p className={`text-xs ${stage.completed ? 'font-medium' : 'text-muted-foreground'}`}>
-                                                                    {stage.label}
-                                                                </p>
-                                                                {stage.date && (
-                                                                    <p className="text-[10px] text-muted-foreground">
-                                                                        {stage.date.toLocaleString()}
-                                                                    </p>
-                                                                )}
-                                                            </div>
-                                                            {stage.completed && <CheckCircle className="w-4 h-4 text-green-500" />}
-                                                        </div>
-                                                    );
-                                                })}
-                                            </div>
-                                        </div>
-
-                                        {/* Gamified message for users */}
-                                        {userRole === "user" && (
-                                            <div className="mt-2 p-2 bg-accent/50 rounded-md">
-                                                <p className="text-xs text-center font-medium">
-                                                    {report.status === 'pending' && '⏰ Your report is being reviewed...'}
-                                                    {report.status === 'in-progress' && '🚀 Great! Your issue is being worked on!'}
-                                                    {report.status === 'resolved' && '🎊 Awesome! Issue resolved! Thanks for reporting!'}
-                                                </p>
-                                            </div>
-                                        )}
-
-                                        {/* Action Buttons */}
-                                        <div className="flex gap-2 pt-2">
-                                            <Button
-                                                variant="outline"
-                                                className="flex-1 text-xs"
-                                                onClick={() => navigate(`/report/${report.id}`)}
-                                            >
-                                                📋 View Details
-                                            </Button>
-                                            <Button
-                                                variant="outline"
-                                                size="icon"
-                                                onClick={() => downloadReportPDF(report)}
-                                                title="Download as PDF"
-                                            >
-                                                <Download className="w-4 h-4" />
-                                            </Button>
-                                        </div>
-                                    </CardContent>
-                                </Card>
-                            );
-                        })}
+                {/* Feed Toggle - citizens can switch between their reports and the public nearby feed */}
+                {userRole === "user" && (
+                    <div className="flex gap-2 mb-6">
+                        <Button
+                            variant={feed === "mine" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setFeed("mine")}
+                        >
+                            My Reports
+                        </Button>
+                        <Button
+                            variant={feed === "nearby" ? "default" : "outline"}
+                            size="sm"
+                            onClick={() => setFeed("nearby")}
+                            className="gap-2"
+                        >
+                            <MapPin className="w-4 h-4" />
+                            Nearby Issues
+                        </Button>
                     </div>
                 )}
 
-                {/* Map View Mode */}
-                {!loading && filteredReports.length > 0 && viewMode === "map" && (
-                    <Card className="shadow-md">
-                        <CardHeader>
-                            <CardTitle className="flex items-center gap-2">
-                                <Map className="w-5 h-5" />
-                                Reports Map View
-                            </CardTitle>
-                            <CardDescription>
-                                Showing {filteredReports.length} report{filteredReports.length !== 1 ? 's' : ''} on the map
-                            </CardDescription>
-                        </CardHeader>
-                        <CardContent>
-                            <MapView
-                                reports={filteredReports.map(r => ({
-                                    id: r.id,
-                                    image: r.image_url,
-                                    aiProcessedImage: r.ai_processed_image_url || undefined,
-                                    description: r.description,
-                                    location: { lat: r.latitude, lon: r.longitude },
-                                    category: r.category,
-                                    department: r.department,
-                                    status: r.status,
-                                    createdAt: new Date(r.created_at)
-                                }))}
-                                height="600px"
-                                zoom={12}
-                            />
-                        </CardContent>
-                    </Card>
-                )}
+                {feed === "nearby" ? (
+                    <NearbyIssuesFeed />
+                ) : (
+                    <>
+                        {/* Filters */}
+                        <Card className="mb-6 shadow-md">
+                            <CardHeader>
+                                <div className="flex items-center gap-2">
+                                    <Filter className="w-5 h-5" />
+                                    <CardTitle>Filter Reports</CardTitle>
+                                </div>
+                                <CardDescription>Search and filter your submitted reports</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    <div className="relative">
+                                        <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+                                        <Input
+                                            placeholder="Search description..."
+                                            value={searchTerm}
+                                            onChange={(e) => setSearchTerm(e.target.value)}
+                                            className="pl-9"
+                                        />
+                                    </div>
+                                    <div>
+                                        <Select value={filterCategory} onValueChange={setFilterCategory}>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Filter by category" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="all">All Categories</SelectItem>
+                                                {categories.map((c) => (
+                                                    <SelectItem key={c.slug} value={c.slug}>{c.label}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div>
+                                        <Select value={filterStatus} onValueChange={setFilterStatus}>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Filter by status" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="all">All Status</SelectItem>
+                                                {ISSUE_STATUSES.map((status) => (
+                                                    <SelectItem key={status} value={status}>{getStatusLabel(status)}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        {/* Loading State */}
+                        {loading && (
+                            <Card className="shadow-md">
+                                <CardContent className="py-12 text-center">
+                                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                                    <p className="text-muted-foreground">Loading your reports...</p>
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {/* Reports Grid */}
+                        {!loading && filteredReports.length > 0 && viewMode === "grid" && (
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                                {filteredReports.map((report) => {
+                                    const timeline = getReportTimeline(report);
+                                    return (
+                                        <Card key={report.id} className="shadow-md hover:shadow-xl transition-all duration-300 border-2 hover:border-primary/50">
+                                            <CardHeader className="pb-3">
+                                                <div className="flex justify-between items-start mb-2">
+                                                    <CategoryBadge category={report.category} />
+                                                    <StatusBadge status={report.status} />
+                                                </div>
+                                                <div className="text-xs text-muted-foreground">
+                                                    Submitted: {new Date(report.created_at).toLocaleDateString('en-US', {
+                                                        month: 'short',
+                                                        day: 'numeric',
+                                                        year: 'numeric',
+                                                        hour: '2-digit',
+                                                        minute: '2-digit'
+                                                    })}
+                                                </div>
+                                            </CardHeader>
+                                            <CardContent className="space-y-4">
+                                                {/* Image Preview with AI Detection Toggle */}
+                                                {report.ai_processed_image_url ? (
+                                                    <Tabs defaultValue="original" className="w-full">
+                                                        <TabsList className="grid w-full grid-cols-2">
+                                                            <TabsTrigger value="original">Original</TabsTrigger>
+                                                            <TabsTrigger value="ai">AI Detected</TabsTrigger>
+                                                        </TabsList>
+                                                        <TabsContent value="original" className="mt-2">
+                                                            <img
+                                                                src={report.image_url}
+                                                                alt="Original"
+                                                                className="w-full h-48 object-cover rounded-lg"
+                                                            />
+                                                            <p className="text-xs text-muted-foreground mt-1 text-center">Original Image</p>
+                                                        </TabsContent>
+                                                        <TabsContent value="ai" className="mt-2">
+                                                            <img
+                                                                src={report.ai_processed_image_url}
+                                                                alt="AI Processed"
+                                                                className="w-full h-48 object-cover rounded-lg border-2 border-green-500"
+                                                            />
+                                                            <p className="text-xs text-green-600 mt-1 text-center font-medium">
+                                                                ✅ AI Detection (YOLO)
+                                                            </p>
+                                                        </TabsContent>
+                                                    </Tabs>
+                                                ) : (
+                                                    <div>
+                                                        <img
+                                                            src={report.image_url}
+                                                            alt="Report"
+                                                            className="w-full h-48 object-cover rounded-lg"
+                                                        />
+                                                        <p className="text-xs text-muted-foreground mt-1 text-center">
+                                                            No AI processing
+                                                        </p>
+                                                    </div>
+                                                )}
+
+                                                {/* AI Explanation */}
+                                                {userRole === "user" && (
+                                                    <Alert className="bg-blue-50 border-blue-200">
+                                                        <Zap className="w-4 h-4 text-blue-600" />
+                                                        <AlertDescription className="text-xs text-blue-800">
+                                                            {getAIExplanation(report.category)}
+                                                        </AlertDescription>
+                                                    </Alert>
+                                                )}
+
+                                                {/* Description */}
+                                                <div>
+                                                    <p className="text-sm font-medium text-foreground mb-1">Description</p>
+                                                    <p className="text-sm text-muted-foreground line-clamp-2">
+                                                        {report.description || "No description provided"}
+                                                    </p>
+                                                </div>
+
+                                                {/* Department - Only show to admins */}
+                                                {userRole === "admin" && (
+                                                    <div>
+                                                        <p className="text-sm font-medium text-foreground mb-1">Department</p>
+                                                        <Badge variant="outline" className="text-xs">
+                                                            {report.department}
+                                                        </Badge>
+                                                    </div>
+                                                )}
+
+                                                {/* Location */}
+                                                <div>
+                                                    <p className="text-sm font-medium text-foreground mb-1">Location</p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {report.latitude.toFixed(4)}, {report.longitude.toFixed(4)}
+                                                    </p>
+                                                </div>
 
-                {/* Empty State */}
-                {!loading && filteredReports.length === 0 && (
-                    <Card className="shadow-md">
-                        <CardContent className="py-12 text-center">
-                            <ImageIcon className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
-                            <h3 className="text-lg font-semibold mb-2">No Reports Found</h3>
-                            <p className="text-muted-foreground mb-4">
-                                {reports.length === 0
-                                    ? "You haven't submitted any reports yet."
-                                    : "No reports match your current filters."}
-                            </p>
-                            {reports.length === 0 && (
-                                <Button onClick={() => navigate("/user-dashboard")}>
-                                    Submit Your First Report
-                                </Button>
-                            )}
-                        </CardContent>
-                    </Card>
+                                                {/* Timeline Visualization */}
+                                                <div className="pt-2 border-t">
+                                                    <p className="text-xs font-medium text-foreground mb-3">
+                                                        {userRole === "user" ? "🎯 Report Journey" : "Timeline"}
+                                                    </p>
+                                                    <div className="space-y-2">
+                                                        {timeline.map((stage, index) => {
+                                                            const Icon = stage.icon;
+                                                            return (
+                                                                <div key={stage.label} className="flex items-center gap-2">
+                                                                    <div className={`w-6 h-6 rounded-full flex items-center justify-center ${stage.completed ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-400'
+                                                                        }`}>
+                                                                        <Icon className="w-3 h-3" />
+                                                                    </div>
+                                                                    <div className="flex-1">
+                                                                        <p className={`text-xs ${stage.completed ? 'font-medium' : 'text-muted-foreground'}`}>
+                                                                            {stage.label}
+                                                                        </p>
+                                                                        {stage.date && (
+                                                                            <p className="text-[10px] text-muted-foreground">
+                                                                                {stage.date.toLocaleString()}
+                                                                            </p>
+                                                                        )}
+                                                                    </div>
+                                                                    {stage.completed && <CheckCircle className="w-4 h-4 text-green-500" />}
+                                                                </div>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                </div>
+
+                                                {/* Gamified message for users */}
+                                                {userRole === "user" && (
+                                                    <div className="mt-2 p-2 bg-accent/50 rounded-md">
+                                                        <p className="text-xs text-center font-medium">
+                                                            {report.status === 'pending' && '⏰ Your report is being reviewed...'}
+                                                            {report.status === 'in-progress' && '🚀 Great! Your issue is being worked on!'}
+                                                            {report.status === 'resolved' && '🎊 Awesome! Issue resolved! Thanks for reporting!'}
+                                                            {report.status === 'on-hold' && '⏸️ Your issue is on hold for now'}
+                                                            {report.status === 'reopened' && '🔁 Your issue has been reopened'}
+                                                            {report.status === 'rejected' && '🚫 This report was closed without action'}
+                                                            {report.status === 'duplicate' && '🔗 Already reported, see the original report'}
+                                                        </p>
+                                                        {canRespondToResolution(report, user?.id) && (
+                                                            <p className="text-xs text-center text-primary mt-1">
+                                                                👀 Check the after photo and confirm the fix in View Details
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                )}
+
+                                                {/* Action Buttons */}
+                                                <div className="flex gap-2 pt-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        className="flex-1 text-xs"
+                                                        onClick={() => navigate(`/report/${report.id}`)}
+                                                    >
+                                                        📋 View Details
+                                                    </Button>
+                                                    <Button
+                                                        variant="outline"
+                                                        size="icon"
+                                                        onClick={() => downloadReportPDF(report)}
+                                                        title="Download as PDF"
+                                                    >
+                                                        <Download className="w-4 h-4" />
+                                                    </Button>
+                                                </div>
+                                            </CardContent>
+                                        </Card>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {/* Map View Mode */}
+                        {!loading && filteredReports.length > 0 && viewMode === "map" && (
+                            <Card className="shadow-md">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Map className="w-5 h-5" />
+                                        Reports Map View
+                                    </CardTitle>
+                                    <CardDescription>
+                                        Showing {filteredReports.length} report{filteredReports.length !== 1 ? 's' : ''} on the map
+                                    </CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <MapView
+                                        reports={filteredReports.map(r => ({
+                                            id: r.id,
+                                            image: r.image_url,
+                                            aiProcessedImage: r.ai_processed_image_url || undefined,
+                                            description: r.description,
+                                            location: { lat: r.latitude, lon: r.longitude },
+                                            category: r.category,
+                                            department: r.department,
+                                            status: r.status,
+                                            severity: r.severity,
+                                            supportCount: r.support_count,
+                                            createdAt: new Date(r.created_at)
+                                        }))}
+                                        height="600px"
+                                        zoom={12}
+                                    />
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {/* Empty State */}
+                        {!loading && filteredReports.length === 0 && (
+                            <Card className="shadow-md">
+                                <CardContent className="py-12 text-center">
+                                    <ImageIcon className="w-16 h-16 mx-auto mb-4 text-muted-foreground opacity-50" />
+                                    <h3 className="text-lg font-semibold mb-2">No Reports Found</h3>
+                                    <p className="text-muted-foreground mb-4">
+                                        {reports.length === 0
+                                            ? "You haven't submitted any reports yet."
+                                            : "No reports match your current filters."}
+                                    </p>
+                                    {reports.length === 0 && (
+                                        <Button onClick={() => navigate("/user-dashboard")}>
+                                            Submit Your First Report
+                                        </Button>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        )}
+                    </>
                 )}
             </main>
         </div>
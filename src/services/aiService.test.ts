@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { detectIssueWithAI, UNAVAILABLE_MODEL_VERSION } from "@/services/aiService";
+import { getConfiguredProviderNames, getDetectionProvider } from "@/services/detection";
+import { fixtureProvider } from "@/services/detection/fixture";
+import type { DetectionProvider } from "@/types/detection";
+
+vi.mock("@/services/detection", () => ({
+  getConfiguredProviderNames: vi.fn(),
+  getDetectionProvider: vi.fn(),
+}));
+
+const failingProvider: DetectionProvider = {
+  name: "gradio",
+  detect: async () => {
+    throw new Error("Space is sleeping");
+  },
+};
+
+const photo = new File([], "pothole.jpg");
+
+describe("detectIssueWithAI", () => {
+  beforeEach(() => {
+    vi.mocked(getDetectionProvider).mockReset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("uses the primary provider when it works", async () => {
+    vi.mocked(getConfiguredProviderNames).mockReturnValue({ primary: "fixture", fallback: "gradio" });
+    vi.mocked(getDetectionProvider).mockReturnValue(fixtureProvider);
+
+    const result = await detectIssueWithAI(photo);
+
+    expect(result.category).toBe("pothole");
+    expect(getDetectionProvider).toHaveBeenCalledTimes(1);
+    expect(getDetectionProvider).toHaveBeenCalledWith("fixture");
+  });
+
+  it("falls back when the primary provider fails", async () => {
+    vi.mocked(getConfiguredProviderNames).mockReturnValue({ primary: "gradio", fallback: "fixture" });
+    vi.mocked(getDetectionProvider).mockImplementation((name) => (name === "fixture" ? fixtureProvider : failingProvider));
+
+    const result = await detectIssueWithAI(photo);
+
+    expect(result.modelVersion).toBe("fixture");
+    expect(vi.mocked(getDetectionProvider).mock.calls).toEqual([["gradio"], ["fixture"]]);
+  });
+
+  it("leaves the photo unclassified when every provider fails", async () => {
+    vi.mocked(getConfiguredProviderNames).mockReturnValue({ primary: "gradio", fallback: "http" });
+    vi.mocked(getDetectionProvider).mockReturnValue(failingProvider);
+
+    const result = await detectIssueWithAI(photo);
+
+    expect(result).toEqual({
+      category: "other",
+      detectedLabels: [],
+      detections: [],
+      modelVersion: UNAVAILABLE_MODEL_VERSION,
+    });
+  });
+
+  it("treats a provider that cannot be created as failed", async () => {
+    vi.mocked(getConfiguredProviderNames).mockReturnValue({ primary: "http" });
+    vi.mocked(getDetectionProvider).mockImplementation(() => {
+      throw new Error("VITE_DETECTION_ENDPOINT must be set to use the http detection provider");
+    });
+
+    const result = await detectIssueWithAI(photo);
+
+    expect(result.modelVersion).toBe(UNAVAILABLE_MODEL_VERSION);
+  });
+});
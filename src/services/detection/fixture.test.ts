@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { FIXTURE_MODEL_VERSION, fixtureProvider } from "@/services/detection/fixture";
+
+describe("fixtureProvider", () => {
+  it("takes the category from the file name", async () => {
+    const result = await fixtureProvider.detect(new File([], "pothole-1.jpg"));
+
+    expect(result).toEqual({
+      category: "pothole",
+      confidence: 0.9,
+      detectedLabels: ["pothole"],
+      detections: [{ label: "pothole", score: 0.9, bbox: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } }],
+      modelVersion: FIXTURE_MODEL_VERSION,
+    });
+  });
+
+  it("falls back to other with a lower score for unrecognised names", async () => {
+    const result = await fixtureProvider.detect(new File([], "IMG_0042.jpg"));
+
+    expect(result.category).toBe("other");
+    expect(result.confidence).toBe(0.5);
+  });
+
+  it("gives the same result for the same file every time", async () => {
+    const first = await fixtureProvider.detect(new File([], "garbage_dump.png"));
+    const second = await fixtureProvider.detect(new File([], "garbage_dump.png"));
+
+    expect(second).toEqual(first);
+  });
+});
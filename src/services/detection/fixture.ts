@@ -0,0 +1,28 @@
+/**
+ * Deterministic detection for development and automated tests: the same file
+ * name always gives the same result, and nothing leaves the browser.
+ */
+
+import type { AIDetectionResult, DetectionProvider } from "@/types/detection";
+import { categoryFromLabels } from "@/services/detection/labels";
+
+export const FIXTURE_MODEL_VERSION = "fixture";
+
+export const fixtureProvider: DetectionProvider = {
+  name: "fixture",
+  detect: async (imageFile: File): Promise<AIDetectionResult> => {
+    // Name the file after the issue, e.g. "pothole-1.jpg", to get that category
+    const category = categoryFromLabels([imageFile.name.replace(/[-_.]/g, " ")]);
+
+    const score = category === "other" ? 0.5 : 0.9;
+
+    return {
+      category,
+      confidence: score,
+      detectedLabels: [category],
+      // One box over the middle of the photo, enough to exercise the overlay
+      detections: [{ label: category, score, bbox: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } }],
+      modelVersion: FIXTURE_MODEL_VERSION
+    };
+  }
+};
@@ -0,0 +1,91 @@
+/**
+ * Detection through a Hugging Face Gradio Space.
+ *
+ * Defaults to utkarsh-23/garbage-pothole-detector-app, whose /detect_image_1 endpoint
+ * returns an annotated image and a markdown classification.
+ */
+
+import { Client } from "@gradio/client";
+import type { AIDetectionResult, Detection, DetectionProvider } from "@/types/detection";
+import { categoryFromLabels } from "@/services/detection/labels";
+
+export const DEFAULT_GRADIO_SPACE = "utkarsh-23/garbage-pothole-detector-app";
+
+/**
+ * @param space - Hugging Face Space id; also stored as the model version
+ * @param huggingFaceToken - Optional Hugging Face API token (not required for public spaces)
+ */
+export function createGradioProvider(space: string, huggingFaceToken?: string): DetectionProvider {
+  return {
+    name: "gradio",
+    detect: async (imageFile: File): Promise<AIDetectionResult> => {
+      console.log(`🔗 Connecting to Hugging Face Space ${space}...`);
+      const client = await Client.connect(
+        space,
+        huggingFaceToken ? { token: huggingFaceToken as `hf_${string}` } : undefined
+      );
+
+      // Convert file to blob for Gradio
+      const blob = new Blob([imageFile], { type: imageFile.type });
+
+      console.log("📤 Sending image to /detect_image_1 endpoint...");
+      const result = await client.predict("/detect_image_1", {
+        image: blob
+      });
+
+      console.log("✅ Response received from Hugging Face:", result);
+
+      // Response format: [detectionImage, classificationText]
+      const [detectionImage, classification] = result.data as [
+        { url: string; path: string; orig_name: string; },
+        string
+      ];
+
+      // Per-label scores from the classification text. The Space only returns an
+      // annotated image, so there are no box coordinates to keep. Text without any
+      // scored label is not guessed at: the photo is left as 'other' for staff.
+      const detections = extractDetectionsFromClassification(classification);
+      const labels = Array.from(new Set(detections.map(detection => detection.label)));
+      const category = categoryFromLabels(labels);
+
+      return {
+        category,
+        confidence: detections.length > 0 ? detections[0].score : undefined,
+        detectedLabels: labels.length > 0 ? labels : [category],
+        detections,
+        processedImageUrl: detectionImage.url,
+        modelVersion: space
+      };
+    }
+  };
+}
+
+/**
+ * Read "label: score" pairs from the classification markdown, one per line, e.g.
+ * "- **Pothole**: 87%" or "garbage (confidence 0.72)". Lines without a label are
+ * skipped. Returns the most confident first.
+ */
+function extractDetectionsFromClassification(classification: string): Detection[] {
+  const detections: Detection[] = [];
+
+  for (const line of classification.split("\n")) {
+    const percent = line.match(/^(.*?)(\d{1,3}(?:\.\d+)?)\s*%/);
+    const fraction = line.match(/^(.*?)(0?\.\d+|1\.0+)\b/);
+    const match = percent ?? fraction;
+    if (!match) continue;
+
+    const label = match[1]
+      .replace(/confidence|score/gi, "")
+      .replace(/[*_#|>:()[\]-]/g, " ")
+      .trim()
+      .replace(/\s+/g, " ")
+      .toLowerCase();
+    const score = percent ? parseFloat(match[2]) / 100 : parseFloat(match[2]);
+
+    if (label && score >= 0 && score <= 1) {
+      detections.push({ label, score, bbox: null });
+    }
+  }
+
+  return detections.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,61 @@
+/**
+ * Detection through any HTTP endpoint, e.g. a self-hosted YOLO server.
+ *
+ * The photo is POSTed as multipart form data in an `image` field. The endpoint answers with:
+ *   { "detections": [{ "label": "pothole", "score": 0.91, "bbox"?: { "x": 0.1, "y": 0.4, "width": 0.3, "height": 0.2 } }],
+ *     "category"?: "pothole", "processed_image_url"?: "https://...", "model_version"?: "yolov8n-civic-3" }
+ * Boxes are fractions of the photo's width and height, from its top-left corner.
+ */
+
+import type { AIDetectionResult, BoundingBox, DetectedCategory, Detection, DetectionProvider } from "@/types/detection";
+import { categoryFromLabels } from "@/services/detection/labels";
+
+interface HttpDetectionResponse {
+  detections?: { label: string; score?: number; bbox?: BoundingBox | null }[];
+  category?: string;
+  processed_image_url?: string;
+  model_version?: string;
+}
+
+const KNOWN_CATEGORIES: DetectedCategory[] = ["pothole", "garbage", "streetlight", "other"];
+
+/**
+ * @param endpoint - URL the photo is POSTed to
+ * @param apiKey - Optional bearer token sent with each request
+ */
+export function createHttpProvider(endpoint: string, apiKey?: string): DetectionProvider {
+  return {
+    name: "http",
+    detect: async (imageFile: File): Promise<AIDetectionResult> => {
+      const body = new FormData();
+      body.append("image", imageFile, imageFile.name);
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body
+      });
+
+      if (!response.ok) {
+        throw new Error(`Detection endpoint returned ${response.status}`);
+      }
+
+      const data = (await response.json()) as HttpDetectionResponse;
+      // Most confident first, so the category follows the strongest label
+      const detections: Detection[] = (data.detections ?? [])
+        .flatMap(({ label, score, bbox }) => (score === undefined ? [] : [{ label, score, bbox: bbox ?? null }]))
+        .sort((a, b) => b.score - a.score);
+      const labels = Array.from(new Set((data.detections ?? []).map(detection => detection.label)));
+      const category = KNOWN_CATEGORIES.find(known => known === data.category) ?? categoryFromLabels(labels);
+
+      return {
+        category,
+        confidence: detections.length > 0 ? detections[0].score : undefined,
+        detectedLabels: labels.length > 0 ? labels : [category],
+        detections,
+        processedImageUrl: data.processed_image_url,
+        modelVersion: data.model_version ?? `http:${new URL(endpoint, window.location.origin).host}`
+      };
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Picks the detection provider from Vite env config:
+ *
+ *   VITE_DETECTION_PROVIDER   gradio (default) | http | onnx | fixture
+ *   VITE_DETECTION_FALLBACK   provider to try when the main one fails, e.g. onnx or fixture
+ *   VITE_GRADIO_SPACE         Space id for gradio; VITE_HUGGING_FACE_TOKEN is sent if set
+ *   VITE_DETECTION_ENDPOINT   URL for http, with optional VITE_DETECTION_API_KEY
+ *   VITE_ONNX_MODEL_URL       model for onnx, default /models/civic-detector.onnx
+ *   VITE_ONNX_LABELS          comma-separated class names in training order
+ *   VITE_ONNX_WASM_PATH       where the onnxruntime .wasm files are served from, if not bundled
+ */
+
+import type { DetectionProvider, DetectionProviderName } from "@/types/detection";
+import { createGradioProvider, DEFAULT_GRADIO_SPACE } from "@/services/detection/gradio";
+import { createHttpProvider } from "@/services/detection/http";
+import { createOnnxProvider } from "@/services/detection/onnx";
+import { fixtureProvider } from "@/services/detection/fixture";
+
+const DEFAULT_ONNX_MODEL_URL = "/models/civic-detector.onnx";
+const DEFAULT_ONNX_LABELS = "pothole,garbage,streetlight";
+
+const providers = new Map<DetectionProviderName, DetectionProvider>();
+
+function createProvider(name: DetectionProviderName): DetectionProvider {
+  const env = import.meta.env;
+
+  switch (name) {
+    case "gradio":
+      return createGradioProvider(env.VITE_GRADIO_SPACE || DEFAULT_GRADIO_SPACE, env.VITE_HUGGING_FACE_TOKEN);
+    case "http":
+      if (!env.VITE_DETECTION_ENDPOINT) {
+        throw new Error("VITE_DETECTION_ENDPOINT must be set to use the http detection provider");
+      }
+      return createHttpProvider(env.VITE_DETECTION_ENDPOINT, env.VITE_DETECTION_API_KEY);
+    case "onnx":
+      return createOnnxProvider({
+        modelUrl: env.VITE_ONNX_MODEL_URL || DEFAULT_ONNX_MODEL_URL,
+        labels: (env.VITE_ONNX_LABELS || DEFAULT_ONNX_LABELS).split(",").map((label: string) => label.trim()),
+        wasmPaths: env.VITE_ONNX_WASM_PATH || undefined
+      });
+    case "fixture":
+      return fixtureProvider;
+    default:
+      throw new Error(`Unknown detection provider "${name}"`);
+  }
+}
+
+export function getDetectionProvider(name: DetectionProviderName): DetectionProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+export function getConfiguredProviderNames(): { primary: DetectionProviderName; fallback?: DetectionProviderName } {
+  return {
+    primary: (import.meta.env.VITE_DETECTION_PROVIDER || "gradio") as DetectionProviderName,
+    fallback: (import.meta.env.VITE_DETECTION_FALLBACK || undefined) as DetectionProviderName | undefined
+  };
+}
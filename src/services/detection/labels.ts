@@ -0,0 +1,27 @@
+import type { DetectedCategory } from "@/types/detection";
+
+// Category keywords for mapping AI labels to our categories
+export const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  pothole: ["pothole", "crack", "road damage", "asphalt", "pavement"],
+  garbage: ["garbage", "trash", "litter", "waste", "rubbish", "dump"],
+  streetlight: ["streetlight", "lamp", "light pole", "lighting", "street lamp"],
+  water: ["water", "leak", "pipe", "flooding"],
+  drainage: ["drain", "sewer", "gutter", "manhole"]
+};
+
+const DETECTED_CATEGORIES: DetectedCategory[] = ["pothole", "garbage", "streetlight"];
+
+/**
+ * Map free-form model labels onto a category, in the order the labels are given.
+ * Providers pass their most confident label first.
+ */
+export function categoryFromLabels(labels: string[]): DetectedCategory {
+  for (const label of labels) {
+    const lowerLabel = label.toLowerCase();
+    const category = DETECTED_CATEGORIES.find(candidate =>
+      CATEGORY_KEYWORDS[candidate].some(keyword => lowerLabel.includes(keyword))
+    );
+    if (category) return category;
+  }
+  return "other";
+}
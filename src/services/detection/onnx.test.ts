@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { decodeBoxes, nonMaxSuppression } from "@/services/detection/onnx";
+import type { Detection } from "@/types/detection";
+
+const LABELS = ["pothole", "garbage"];
+
+// Lays anchors out the way YOLOv8 does: all centre-x values, then all centre-y, and so on
+const buildOutput = (anchors: number[][]) => {
+  const channels = anchors[0].length;
+  const data = new Float32Array(channels * anchors.length);
+  anchors.forEach((values, anchor) => {
+    values.forEach((value, channel) => {
+      data[channel * anchors.length + anchor] = value;
+    });
+  });
+  return { data, dims: [1, channels, anchors.length] };
+};
+
+// A 640x640 photo fed to a 640 model: no scaling and no padding
+const SQUARE_FRAME = { scoreThreshold: 0.25, scale: 1, padX: 0, padY: 0, width: 640, height: 640 };
+
+describe("decodeBoxes", () => {
+  it("keeps each anchor's best class above the threshold", () => {
+    const { data, dims } = buildOutput([
+      [320, 320, 64, 128, 0.1, 0.8],
+      [100, 100, 20, 20, 0.2, 0.1],
+    ]);
+
+    const detections = decodeBoxes(data, dims, LABELS, SQUARE_FRAME);
+
+    expect(detections).toHaveLength(1);
+    expect(detections[0].label).toBe("garbage");
+    expect(detections[0].score).toBeCloseTo(0.8);
+    expect(detections[0].bbox?.x).toBeCloseTo(0.45);
+    expect(detections[0].bbox?.y).toBeCloseTo(0.4);
+    expect(detections[0].bbox?.width).toBeCloseTo(0.1);
+    expect(detections[0].bbox?.height).toBeCloseTo(0.2);
+  });
+
+  it("undoes the letterbox padding and scale", () => {
+    // A 1280x640 photo fits the model at half size with 160px of padding above and below
+    const { data, dims } = buildOutput([[320, 320, 64, 64, 0.9, 0]]);
+
+    const [detection] = decodeBoxes(data, dims, LABELS, {
+      ...SQUARE_FRAME, scale: 0.5, padY: 160, width: 1280, height: 640,
+    });
+
+    expect(detection.bbox?.x).toBeCloseTo(576 / 1280);
+    expect(detection.bbox?.y).toBeCloseTo(256 / 640);
+    expect(detection.bbox?.width).toBeCloseTo(128 / 1280);
+    expect(detection.bbox?.height).toBeCloseTo(128 / 640);
+  });
+
+  it("cuts boxes that run off the photo at its edges", () => {
+    const { data, dims } = buildOutput([
+      [0, 0, 128, 128, 0.9, 0],
+      [640, 640, 128, 128, 0.9, 0],
+    ]);
+
+    const [topLeft, bottomRight] = decodeBoxes(data, dims, LABELS, SQUARE_FRAME);
+
+    expect(topLeft.bbox).toEqual({ x: 0, y: 0, width: 0.1, height: 0.1 });
+    expect(bottomRight.bbox?.x).toBeCloseTo(0.9);
+    expect(bottomRight.bbox?.width).toBeCloseTo(0.1);
+    expect(bottomRight.bbox?.height).toBeCloseTo(0.1);
+  });
+});
+
+describe("nonMaxSuppression", () => {
+  const box = (label: string, score: number, x: number): Detection => ({
+    label, score, bbox: { x, y: 0.1, width: 0.4, height: 0.4 },
+  });
+
+  it("drops a box that overlaps a more confident one of the same label", () => {
+    const kept = nonMaxSuppression([box("pothole", 0.6, 0.12), box("pothole", 0.9, 0.1)], 0.45);
+
+    expect(kept).toEqual([box("pothole", 0.9, 0.1)]);
+  });
+
+  it("keeps overlapping boxes of different labels and separate boxes, most confident first", () => {
+    const kept = nonMaxSuppression(
+      [box("pothole", 0.5, 0.1), box("garbage", 0.7, 0.1), box("pothole", 0.9, 0.55)],
+      0.45
+    );
+
+    expect(kept.map((detection) => detection.score)).toEqual([0.9, 0.7, 0.5]);
+  });
+});
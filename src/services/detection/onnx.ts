@@ -0,0 +1,196 @@
+/**
+ * In-browser detection with onnxruntime-web, so photos are classified on the device
+ * and work without the Gradio Space.
+ *
+ * Expects a YOLOv8-style export: one [1, 3, size, size] float input (RGB, 0-1) and one
+ * [1, 4 + classes, anchors] output of centre-x, centre-y, width, height and class scores.
+ * The model is served from public/models and only downloaded the first time it is used.
+ */
+
+import type { InferenceSession } from "onnxruntime-web";
+import type { AIDetectionResult, BoundingBox, Detection, DetectionProvider } from "@/types/detection";
+import { categoryFromLabels } from "@/services/detection/labels";
+
+export interface OnnxProviderOptions {
+  modelUrl: string;
+  // Class names in the order the model was trained on
+  labels: string[];
+  inputSize?: number;
+  scoreThreshold?: number;
+  iouThreshold?: number;
+  // Where the onnxruntime .wasm files are served from, if not next to the bundle
+  wasmPaths?: string;
+}
+
+const DEFAULT_INPUT_SIZE = 640;
+const DEFAULT_SCORE_THRESHOLD = 0.25;
+const DEFAULT_IOU_THRESHOLD = 0.45;
+
+export function createOnnxProvider(options: OnnxProviderOptions): DetectionProvider {
+  const inputSize = options.inputSize ?? DEFAULT_INPUT_SIZE;
+  const modelVersion = `onnx:${options.modelUrl.split("/").pop()}`;
+  let sessionPromise: Promise<InferenceSession> | null = null;
+
+  // onnxruntime-web and the model are large, so both are fetched on first use only
+  const loadSession = async () => {
+    const ort = await import("onnxruntime-web");
+    if (options.wasmPaths) ort.env.wasm.wasmPaths = options.wasmPaths;
+    return ort.InferenceSession.create(options.modelUrl, { executionProviders: ["wasm"] });
+  };
+
+  return {
+    name: "onnx",
+    detect: async (imageFile: File): Promise<AIDetectionResult> => {
+      if (!sessionPromise) {
+        sessionPromise = loadSession().catch((error) => {
+          // Let the next photo try again rather than caching the failure
+          sessionPromise = null;
+          throw error;
+        });
+      }
+      const session = await sessionPromise;
+      const ort = await import("onnxruntime-web");
+
+      const { pixels, scale, padX, padY, width, height } = await letterbox(imageFile, inputSize);
+      const input = new ort.Tensor("float32", pixels, [1, 3, inputSize, inputSize]);
+      const outputs = await session.run({ [session.inputNames[0]]: input });
+      const output = outputs[session.outputNames[0]];
+
+      const detections = nonMaxSuppression(
+        decodeBoxes(output.data as Float32Array, output.dims as number[], options.labels, {
+          scoreThreshold: options.scoreThreshold ?? DEFAULT_SCORE_THRESHOLD,
+          scale, padX, padY, width, height
+        }),
+        options.iouThreshold ?? DEFAULT_IOU_THRESHOLD
+      );
+
+      const labels = Array.from(new Set(detections.map(detection => detection.label)));
+      const category = categoryFromLabels(labels);
+
+      return {
+        category,
+        confidence: detections.length > 0 ? detections[0].score : undefined,
+        detectedLabels: labels.length > 0 ? labels : [category],
+        detections,
+        modelVersion
+      };
+    }
+  };
+}
+
+/**
+ * Scale the photo to fit a size x size square without distortion, pad the rest
+ * with grey, and return it as planar RGB floats.
+ */
+async function letterbox(imageFile: File, size: number) {
+  const bitmap = await createImageBitmap(imageFile);
+  const scale = Math.min(size / bitmap.width, size / bitmap.height);
+  const drawWidth = Math.round(bitmap.width * scale);
+  const drawHeight = Math.round(bitmap.height * scale);
+  const padX = (size - drawWidth) / 2;
+  const padY = (size - drawHeight) / 2;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+
+  ctx.fillStyle = "rgb(114, 114, 114)";
+  ctx.fillRect(0, 0, size, size);
+  ctx.drawImage(bitmap, padX, padY, drawWidth, drawHeight);
+  const { width, height } = bitmap;
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const area = size * size;
+  const pixels = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    pixels[i] = data[i * 4] / 255;
+    pixels[area + i] = data[i * 4 + 1] / 255;
+    pixels[2 * area + i] = data[i * 4 + 2] / 255;
+  }
+
+  return { pixels, scale, padX, padY, width, height };
+}
+
+/**
+ * Turn the raw [1, 4 + classes, anchors] output into boxes on the original photo,
+ * keeping each anchor's best class when it clears the threshold
+ */
+export function decodeBoxes(
+  data: Float32Array,
+  dims: number[],
+  labels: string[],
+  frame: { scoreThreshold: number; scale: number; padX: number; padY: number; width: number; height: number }
+): Detection[] {
+  const [, channels, anchors] = dims;
+  const classCount = Math.min(channels - 4, labels.length);
+  const detections: Detection[] = [];
+
+  for (let anchor = 0; anchor < anchors; anchor++) {
+    let bestClass = -1;
+    let bestScore = frame.scoreThreshold;
+    for (let c = 0; c < classCount; c++) {
+      const score = data[(4 + c) * anchors + anchor];
+      if (score > bestScore) {
+        bestScore = score;
+        bestClass = c;
+      }
+    }
+    if (bestClass < 0) continue;
+
+    const cx = data[anchor];
+    const cy = data[anchors + anchor];
+    const w = data[2 * anchors + anchor];
+    const h = data[3 * anchors + anchor];
+    // Undo the letterbox and normalise to the original photo. Both edges are clamped,
+    // so a box running off the photo is cut at the edge instead of shifted inwards.
+    const left = clamp(((cx - w / 2 - frame.padX) / frame.scale) / frame.width);
+    const top = clamp(((cy - h / 2 - frame.padY) / frame.scale) / frame.height);
+    const right = clamp(((cx + w / 2 - frame.padX) / frame.scale) / frame.width);
+    const bottom = clamp(((cy + h / 2 - frame.padY) / frame.scale) / frame.height);
+
+    detections.push({
+      label: labels[bestClass],
+      score: bestScore,
+      bbox: { x: left, y: top, width: right - left, height: bottom - top }
+    });
+  }
+
+  return detections;
+}
+
+/**
+ * Drop boxes that overlap a more confident box of the same label. Returns the
+ * survivors most confident first.
+ */
+export function nonMaxSuppression(detections: Detection[], iouThreshold: number): Detection[] {
+  const sorted = [...detections].sort((a, b) => b.score - a.score);
+  const kept: Detection[] = [];
+
+  for (const detection of sorted) {
+    if (kept.every(other =>
+      other.label !== detection.label || intersectionOverUnion(detection.bbox, other.bbox) < iouThreshold
+    )) {
+      kept.push(detection);
+    }
+  }
+
+  return kept;
+}
+
+function intersectionOverUnion(a: BoundingBox | null, b: BoundingBox | null): number {
+  if (!a || !b) return 0;
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
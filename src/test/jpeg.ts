@@ -0,0 +1,114 @@
+// Builds small JPEGs with EXIF for tests. Only the segment layout is real; the
+// "image data" after the start of scan is a few placeholder bytes.
+
+interface ExifOptions {
+  littleEndian?: boolean;
+  // Degrees, negative for south and west
+  latitude?: number;
+  longitude?: number;
+  // "YYYY:MM:DD HH:MM:SS", as cameras write it
+  dateTimeOriginal?: string;
+}
+
+const TIFF_HEADER = 8;
+const ENTRY = 12;
+
+const toRationals = (degrees: number) => {
+  const value = Math.abs(degrees);
+  const whole = Math.floor(value);
+  const minutes = Math.floor((value - whole) * 60);
+  const seconds = Math.round(((value - whole) * 60 - minutes) * 60 * 10000);
+  return [whole, 1, minutes, 1, seconds, 10000];
+};
+
+export const buildExifSegment = ({ littleEndian = true, latitude, longitude, dateTimeOriginal }: ExifOptions) => {
+  const hasGps = latitude !== undefined && longitude !== undefined;
+  const ifd0Entries = (dateTimeOriginal ? 1 : 0) + (hasGps ? 1 : 0);
+  const ifd0Size = 2 + ifd0Entries * ENTRY + 4;
+  const exifIfd = TIFF_HEADER + ifd0Size;
+  const exifIfdSize = dateTimeOriginal ? 2 + ENTRY + 4 : 0;
+  const dateOffset = exifIfd + exifIfdSize;
+  const dateSize = dateTimeOriginal ? dateTimeOriginal.length + 1 : 0;
+  const gpsIfd = dateOffset + dateSize;
+  const gpsIfdSize = hasGps ? 2 + 4 * ENTRY + 4 : 0;
+  const latOffset = gpsIfd + gpsIfdSize;
+  const lonOffset = latOffset + 24;
+  const size = hasGps ? lonOffset + 24 : gpsIfd;
+
+  const view = new DataView(new ArrayBuffer(size));
+  const u16 = (offset: number, value: number) => view.setUint16(offset, value, littleEndian);
+  const u32 = (offset: number, value: number) => view.setUint32(offset, value, littleEndian);
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    u16(offset, tag);
+    u16(offset + 2, type);
+    u32(offset + 4, count);
+    u32(offset + 8, value);
+  };
+  const asciiEntry = (offset: number, tag: number, char: string) => {
+    entry(offset, tag, 2, 2, 0);
+    view.setUint8(offset + 8, char.charCodeAt(0));
+  };
+
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d);
+  u16(2, 42);
+  u32(4, TIFF_HEADER);
+
+  let cursor = TIFF_HEADER;
+  u16(cursor, ifd0Entries);
+  cursor += 2;
+  if (dateTimeOriginal) {
+    entry(cursor, 0x8769, 4, 1, exifIfd);
+    cursor += ENTRY;
+  }
+  if (hasGps) entry(cursor, 0x8825, 4, 1, gpsIfd);
+
+  if (dateTimeOriginal) {
+    u16(exifIfd, 1);
+    entry(exifIfd + 2, 0x9003, 2, dateSize, dateOffset);
+    [...dateTimeOriginal].forEach((char, i) => view.setUint8(dateOffset + i, char.charCodeAt(0)));
+  }
+
+  if (hasGps) {
+    u16(gpsIfd, 4);
+    asciiEntry(gpsIfd + 2, 1, latitude < 0 ? "S" : "N");
+    entry(gpsIfd + 2 + ENTRY, 2, 5, 3, latOffset);
+    asciiEntry(gpsIfd + 2 + 2 * ENTRY, 3, longitude < 0 ? "W" : "E");
+    entry(gpsIfd + 2 + 3 * ENTRY, 4, 5, 3, lonOffset);
+    toRationals(latitude).forEach((value, i) => u32(latOffset + i * 4, value));
+    toRationals(longitude).forEach((value, i) => u32(lonOffset + i * 4, value));
+  }
+
+  return new Uint8Array(view.buffer);
+};
+
+const segment = (marker: number, payload: Uint8Array) => {
+  const bytes = new Uint8Array(4 + payload.length);
+  bytes.set([marker >> 8, marker & 0xff, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  bytes.set(payload, 4);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((position, part) => {
+    bytes.set(part, position);
+    return position + part.length;
+  }, 0);
+  return bytes;
+};
+
+export const JFIF_SEGMENT = segment(0xffe0, new Uint8Array([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]));
+export const SCAN_DATA = new Uint8Array([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0x56, 0xff, 0xd9]);
+
+// A JPEG with a JFIF header, an EXIF segment, an XMP-style APP1 and a comment
+export const buildJpeg = (exif: ExifOptions = {}) =>
+  concat([
+    new Uint8Array([0xff, 0xd8]),
+    JFIF_SEGMENT,
+    segment(0xffe1, concat([new TextEncoder().encode("Exif\0\0"), buildExifSegment(exif)])),
+    segment(0xffe2, new TextEncoder().encode("ICC_PROFILE\0")),
+    segment(0xfffe, new TextEncoder().encode("Owner: A. Citizen")),
+    SCAN_DATA,
+  ]);
+
+export const toFile = (bytes: Uint8Array, name: string, type = "image/jpeg") => new File([bytes], name, { type });
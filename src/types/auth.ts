@@ -0,0 +1 @@
+export type UserRole = "citizen" | "staff" | "admin" | "guest";
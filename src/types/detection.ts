@@ -0,0 +1,49 @@
+// Categories a detector can suggest; the taxonomy maps them onto the live category list
+export type DetectedCategory = "pothole" | "garbage" | "streetlight" | "other";
+
+// Fractions of the photo's width and height, measured from its top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One thing the model found in a photo
+export interface Detection {
+  label: string;
+  score: number; // 0-1
+  bbox: BoundingBox | null; // null when the model only reports a label and score
+}
+
+export interface AIDetectionResult {
+  category: DetectedCategory; // Routing is looked up from the category taxonomy
+  confidence?: number; // 0-1, only set when the model reports one
+  detectedLabels?: string[];
+  detections: Detection[]; // Most confident first
+  processedImageUrl?: string; // The AI-processed image with bounding boxes
+  modelVersion: string;
+}
+
+export type DetectionProviderName = "gradio" | "http" | "onnx" | "fixture";
+
+// One way of turning a photo into a detection result, chosen by VITE_DETECTION_PROVIDER
+export interface DetectionProvider {
+  name: DetectionProviderName;
+  detect: (image: File) => Promise<AIDetectionResult>;
+}
+
+// A detection as stored in report_detections, tied to the photo it was found in
+export interface ReportDetection {
+  id: string;
+  report_id: string;
+  media_id: string | null;
+  label: string;
+  score: number;
+  bbox_x: number | null;
+  bbox_y: number | null;
+  bbox_width: number | null;
+  bbox_height: number | null;
+  model_version: string | null;
+  created_at: string;
+}
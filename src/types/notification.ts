@@ -0,0 +1,37 @@
+export type NotificationType = "status_changed" | "comment_added" | "report_assigned" | "work_order_assigned";
+
+// Named to avoid clashing with the browser's Notification API
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  report_id: string | null;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Email and SMS opt-in; nothing is sent until a channel is enabled
+export interface NotificationPreferences {
+  user_id: string;
+  email_enabled: boolean;
+  sms_enabled: boolean;
+  phone: string | null;
+  notify_status_changes: boolean;
+  notify_resolutions: boolean;
+  notify_sla_breaches: boolean;
+}
+
+export type DeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+// An email, SMS or push queued for, or sent by, the dispatch-notifications function
+export interface NotificationDelivery {
+  id: string;
+  channel: "email" | "sms" | "push";
+  recipient: string;
+  subject: string | null;
+  status: DeliveryStatus;
+  created_at: string;
+  sent_at: string | null;
+}
@@ -1,6 +1,16 @@
-export type IssueStatus = "pending" | "in-progress" | "resolved";
+export type IssueStatus =
+  | "pending"
+  | "in-progress"
+  | "on-hold"
+  | "reopened"
+  | "resolved"
+  | "rejected"
+  | "duplicate";
 
-export type IssueCategory = "pothole" | "garbage" | "streetlight" | "other";
+// Slug of a row in the categories table; admins can add new ones at any time
+export type IssueCategory = string;
+
+export type IssueSeverity = "low" | "medium" | "high";
 
 export interface Report {
   id: string;
@@ -14,5 +24,123 @@ export interface Report {
   category: IssueCategory;
   department: string;
   status: IssueStatus;
+  severity?: IssueSeverity;
+  supportCount?: number;
   createdAt: Date;
 }
+
+export type ReportEventType =
+  | "created"
+  | "viewed"
+  | "status_changed"
+  | "department_changed"
+  | "assignee_changed"
+  | "sla_breached"
+  | "resolution_confirmed"
+  | "resolution_disputed"
+  | "duplicate_merged";
+
+export type CitizenFeedback = "confirmed" | "disputed";
+
+export interface ReportEvent {
+  id: string;
+  report_id: string;
+  event_type: ReportEventType;
+  actor_id: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface Department {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface Category {
+  slug: IssueCategory;
+  label: string;
+  color: string;
+  icon: string;
+  default_department: string;
+  priority_weight: number;
+  sort_order: number;
+  is_active: boolean;
+}
+
+// An open report near a new one that may describe the same issue
+export interface DuplicateCandidate {
+  id: string;
+  description: string;
+  status: IssueStatus;
+  image_url: string;
+  created_at: string;
+  distance_m: number;
+  similar_image: boolean;
+}
+
+// A public comment, or an internal note only staff can see
+export interface ReportComment {
+  id: string;
+  report_id: string;
+  author_id: string;
+  author_is_staff: boolean;
+  body: string;
+  is_internal: boolean;
+  attachment_urls: string[];
+  created_at: string;
+}
+
+export type ReportMediaType = "image" | "video";
+
+// One photo or clip attached to a report; position 0 is shown first
+export interface ReportMedia {
+  id: string;
+  report_id: string;
+  media_type: ReportMediaType;
+  url: string;
+  position: number;
+  ai_category: string | null;
+  ai_confidence: number | null;
+  ai_labels: string[];
+  ai_model_version: string | null;
+  ai_processed_image_url: string | null;
+  created_at: string;
+}
+
+// A photo or clip picked for a report that has not been uploaded yet
+// Where and when a photo was taken, read from its EXIF before the EXIF is stripped
+export interface PhotoMetadata {
+  location: { lat: number; lon: number } | null;
+  capturedAt: string | null;
+}
+
+export interface MediaDraft {
+  id: string;
+  file: File;
+  type: ReportMediaType;
+  previewUrl: string;
+  // Only photos carry metadata; null when the photo had none
+  metadata: PhotoMetadata | null;
+}
+
+// A report captured on this device that has not reached the server yet
+export interface QueuedReport {
+  // Also the report's client_id, so replaying it after a lost response cannot file it twice
+  id: string;
+  user_id: string;
+  // Cover photo
+  image: Blob;
+  // Every photo and clip in order, cover included
+  media: { file: Blob; file_name: string }[];
+  description: string;
+  latitude: number;
+  longitude: number;
+  // Slider value, 0-100
+  severity: number;
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+}
@@ -0,0 +1,89 @@
+import type { BoundingBox } from "@/types/detection";
+import type { IssueCategory, IssueStatus } from "@/types/report";
+
+export type ReviewVerdict = "confirmed" | "corrected" | "rejected";
+
+// A box a reviewer kept or drew, in fractions of the photo
+export interface LabeledBox extends BoundingBox {
+  label: IssueCategory;
+}
+
+// A photo waiting for a reviewer, from get_ai_review_queue
+export interface ReviewQueueItem {
+  media_id: string;
+  report_id: string;
+  url: string;
+  ai_category: IssueCategory | null;
+  ai_confidence: number | null;
+  ai_labels: string[];
+  ai_model_version: string | null;
+  report_category: IssueCategory;
+  report_status: IssueStatus;
+  description: string;
+  created_at: string;
+  // Picked at random rather than for low confidence
+  spot_check: boolean;
+}
+
+export interface LabeledExample {
+  id: string;
+  media_id: string;
+  report_id: string;
+  image_url: string;
+  image_width: number | null;
+  image_height: number | null;
+  verdict: ReviewVerdict;
+  ai_category: IssueCategory | null;
+  ai_confidence: number | null;
+  ai_model_version: string | null;
+  label_category: IssueCategory | null;
+  boxes: LabeledBox[];
+  reviewed_by: string | null;
+  reviewed_at: string;
+  spot_check: boolean;
+}
+
+export type DatasetFormat = "yolo" | "coco";
+
+// A reviewed prediction with the human label it is scored against. Only photos a
+// model actually classified are scored, so the model version is always known.
+export type ScoredExample = Pick<
+  LabeledExample,
+  "ai_category" | "ai_confidence" | "label_category" | "reviewed_at" | "spot_check"
+> & { ai_model_version: string };
+
+export interface CategoryMetrics {
+  category: IssueCategory;
+  // Photos reviewers put in this category
+  support: number;
+  // Photos the model put in this category
+  predicted: number;
+  truePositives: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+// Averages are unweighted across categories, so rare categories count as much as common ones
+export interface MetricsSummary {
+  examples: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface CalibrationBin {
+  label: string;
+  count: number;
+  meanConfidence: number | null;
+  accuracy: number | null;
+}
+
+export interface MetricsTrendPoint extends MetricsSummary {
+  week: string;
+}
+
+export interface ModelVersionMetrics extends MetricsSummary {
+  version: string;
+  calibrationError: number | null;
+}
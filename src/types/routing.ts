@@ -0,0 +1,34 @@
+import type { IssueCategory, IssueSeverity } from "@/types/report";
+
+// GeoJSON polygon geometry; coordinates are [lon, lat] rings, only the outer ring is used
+export interface WardBoundary {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+export interface Ward {
+  id: string;
+  name: string;
+  boundary: WardBoundary;
+}
+
+export interface RoutingRule {
+  id: string;
+  name: string;
+  priority: number;
+  is_active: boolean;
+  category: IssueCategory | null;
+  ward_id: string | null;
+  severity: IssueSeverity | null;
+  start_time: string | null;
+  end_time: string | null;
+  time_zone: string;
+  department: string;
+}
+
+// Result of evaluating the current rules against a report
+export interface RoutingPreview {
+  rule_id: string | null;
+  rule_name: string | null;
+  department: string;
+}
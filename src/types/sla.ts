@@ -0,0 +1,12 @@
+import type { IssueCategory, IssueSeverity } from "@/types/report";
+
+// NULL category or severity means the policy applies to any value
+export interface SlaPolicy {
+  id: string;
+  category: IssueCategory | null;
+  severity: IssueSeverity | null;
+  resolve_within_hours: number;
+  escalate_to_department: string | null;
+}
+
+export type SlaState = "on-track" | "at-risk" | "overdue";
@@ -0,0 +1,43 @@
+import type { IssueCategory, IssueStatus } from "@/types/report";
+
+export type WorkOrderStatus = "scheduled" | "in-progress" | "completed" | "cancelled";
+
+export interface WorkOrder {
+  id: string;
+  report_id: string;
+  assignee_id: string | null;
+  crew_id: string | null;
+  status: WorkOrderStatus;
+  scheduled_for: string | null;
+  notes: string | null;
+  materials: string[];
+  completion_photos: string[];
+  completed_at: string | null;
+  created_at: string;
+}
+
+// Work order joined with the report it belongs to, as shown in "My work orders"
+export interface WorkOrderWithReport extends WorkOrder {
+  reports: {
+    id: string;
+    description: string;
+    category: IssueCategory;
+    status: IssueStatus;
+    image_url: string;
+    latitude: number;
+    longitude: number;
+  } | null;
+}
+
+export interface StaffMember {
+  id: string;
+  display_name: string | null;
+  department: string | null;
+}
+
+export interface Crew {
+  id: string;
+  name: string;
+  department: string | null;
+  member_ids: string[];
+}
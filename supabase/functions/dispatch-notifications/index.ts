@@ -0,0 +1,83 @@
+// Sends queued email, SMS and push notifications. Scheduled every minute by pg_cron;
+// can also be invoked by hand with the service role key to flush the queue.
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getProvider, type DeliveryChannel, type NotificationProvider } from "./providers.ts";
+import { renderMessage, type DeliveryKind, type DeliveryPayload } from "./templates.ts";
+
+interface Delivery {
+  id: string;
+  user_id: string;
+  kind: DeliveryKind;
+  channel: DeliveryChannel;
+  recipient: string;
+  payload: DeliveryPayload;
+  attempts: number;
+}
+
+const BATCH_SIZE = 50;
+// A message is given up on after this many failed sends, including runs that died mid-send
+const MAX_ATTEMPTS = 5;
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+  const appUrl = Deno.env.get("APP_URL") ?? "http://localhost:8080";
+
+  const { data, error } = await supabase.rpc("claim_notification_deliveries", {
+    _limit: BATCH_SIZE,
+    _max_attempts: MAX_ATTEMPTS,
+  });
+  if (error) {
+    console.error("Error claiming deliveries:", error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const providers: Partial<Record<DeliveryChannel, NotificationProvider>> = {};
+  let sent = 0;
+  let failed = 0;
+
+  for (const delivery of data as Delivery[]) {
+    const message = renderMessage(
+      delivery.kind,
+      delivery.channel,
+      delivery.payload,
+      delivery.recipient,
+      delivery.user_id,
+      appUrl,
+    );
+
+    try {
+      const provider = providers[delivery.channel] ??= getProvider(delivery.channel, supabase);
+      await provider.send(message);
+
+      await supabase
+        .from("notification_deliveries")
+        .update({
+          status: "sent",
+          subject: message.subject,
+          body: message.body,
+          provider: provider.name,
+          last_error: null,
+          sent_at: new Date().toISOString(),
+        })
+        .eq("id", delivery.id);
+      sent++;
+    } catch (sendError) {
+      console.error(`Error sending delivery ${delivery.id}:`, sendError);
+      await supabase
+        .from("notification_deliveries")
+        .update({
+          status: delivery.attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+          subject: message.subject,
+          body: message.body,
+          last_error: sendError instanceof Error ? sendError.message : String(sendError),
+        })
+        .eq("id", delivery.id);
+      failed++;
+    }
+  }
+
+  return Response.json({ sent, failed });
+});
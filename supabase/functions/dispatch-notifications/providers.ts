@@ -0,0 +1,135 @@
+import webpush from "npm:web-push@3";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export type DeliveryChannel = "email" | "sms" | "push";
+
+export interface OutboundMessage {
+  // Email address, phone number or push subscription endpoint
+  to: string;
+  subject: string;
+  body: string;
+  url: string;
+}
+
+/**
+ * Sends messages over one channel. Adding a vendor means implementing this
+ * and registering it in PROVIDERS below.
+ */
+export interface NotificationProvider {
+  name: string;
+  channel: DeliveryChannel;
+  send: (message: OutboundMessage) => Promise<void>;
+}
+
+// Prints messages instead of sending them. The rendered message is still saved on
+// the delivery row, so notification_deliveries works as a local mailbox.
+const consoleProvider = (channel: DeliveryChannel): NotificationProvider => ({
+  name: "console",
+  channel,
+  send: async ({ to, subject, body }) => {
+    console.log(`[${channel}] to ${to}\n${subject}\n\n${body}\n`);
+  },
+});
+
+const resendEmailProvider = (): NotificationProvider => {
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  const from = Deno.env.get("NOTIFICATION_EMAIL_FROM");
+  if (!apiKey || !from) throw new Error("RESEND_API_KEY and NOTIFICATION_EMAIL_FROM must be set");
+
+  return {
+    name: "resend",
+    channel: "email",
+    send: async ({ to, subject, body }) => {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to, subject, text: body }),
+      });
+      if (!response.ok) throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+    },
+  };
+};
+
+const twilioSmsProvider = (): NotificationProvider => {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const from = Deno.env.get("TWILIO_FROM_NUMBER");
+  if (!accountSid || !authToken || !from) {
+    throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set");
+  }
+
+  return {
+    name: "twilio",
+    channel: "sms",
+    send: async ({ to, body }) => {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ To: to, From: from, Body: body }),
+      });
+      if (!response.ok) throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+    },
+  };
+};
+
+// Web Push with VAPID. Looks up the subscription keys by endpoint, and forgets
+// subscriptions the push service reports as gone.
+const webPushProvider = (supabase: SupabaseClient): NotificationProvider => {
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  const subject = Deno.env.get("VAPID_SUBJECT");
+  if (!publicKey || !privateKey || !subject) {
+    throw new Error("VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT must be set");
+  }
+  webpush.setVapidDetails(subject, publicKey, privateKey);
+
+  return {
+    name: "webpush",
+    channel: "push",
+    send: async ({ to, subject: title, body, url }) => {
+      const { data: subscription, error } = await supabase
+        .from("push_subscriptions")
+        .select("endpoint, p256dh, auth")
+        .eq("endpoint", to)
+        .maybeSingle();
+      if (error) throw error;
+      if (!subscription) throw new Error("The push subscription no longer exists");
+
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          JSON.stringify({ title, body, url }),
+        );
+      } catch (pushError) {
+        const statusCode = (pushError as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+          await supabase.from("push_subscriptions").delete().eq("endpoint", to);
+        }
+        throw pushError;
+      }
+    },
+  };
+};
+
+const PROVIDERS: Record<DeliveryChannel, Record<string, (supabase: SupabaseClient) => NotificationProvider>> = {
+  email: { console: () => consoleProvider("email"), resend: resendEmailProvider },
+  sms: { console: () => consoleProvider("sms"), twilio: twilioSmsProvider },
+  push: { console: () => consoleProvider("push"), webpush: webPushProvider },
+};
+
+const PROVIDER_ENV: Record<DeliveryChannel, string> = {
+  email: "EMAIL_PROVIDER",
+  sms: "SMS_PROVIDER",
+  push: "PUSH_PROVIDER",
+};
+
+// EMAIL_PROVIDER, SMS_PROVIDER and PUSH_PROVIDER pick the vendor; all default to console
+export const getProvider = (channel: DeliveryChannel, supabase: SupabaseClient): NotificationProvider => {
+  const name = Deno.env.get(PROVIDER_ENV[channel]) ?? "console";
+  const create = PROVIDERS[channel][name];
+  if (!create) throw new Error(`Unknown ${channel} provider "${name}"`);
+  return create(supabase);
+};
@@ -0,0 +1,78 @@
+import type { DeliveryChannel, OutboundMessage } from "./providers.ts";
+
+export type DeliveryKind = "status_changed" | "resolved" | "sla_breached";
+
+export interface DeliveryPayload {
+  report_id: string;
+  reporter_id?: string | null;
+  description?: string;
+  status?: string;
+  reason?: string | null;
+  department?: string;
+  resolution_note?: string | null;
+}
+
+const statusLabel = (status = "") =>
+  status.split("-").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+// Followers and assigned staff hear about reports they did not file
+const reportPhrase = (p: DeliveryPayload, isReporter: boolean) =>
+  isReporter ? `your report "${p.description}"` : `the report "${p.description}" that you follow`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Subject, a full email body and a one-line SMS (also used for push) for each kind of message
+const TEMPLATES: Record<
+  DeliveryKind,
+  (p: DeliveryPayload, ref: string, isReporter: boolean) => { subject: string; email: string; sms: string }
+> = {
+  status_changed: (p, ref, isReporter) => ({
+    subject: `Report #${ref} is now ${statusLabel(p.status)}`,
+    email: [
+      `${capitalize(reportPhrase(p, isReporter))} is now ${statusLabel(p.status)}.`,
+      p.reason ? `Reason: ${p.reason}` : "",
+    ].filter(Boolean).join("\n\n"),
+    sms: `Report #${ref} is now ${statusLabel(p.status)}.${p.reason ? ` ${p.reason}` : ""}`,
+  }),
+  resolved: (p, ref, isReporter) => ({
+    subject: `Fixed: report #${ref}`,
+    email: [
+      `Good news! ${p.department ?? "The city"} has resolved ${reportPhrase(p, isReporter)}.`,
+      p.resolution_note ? `What was done: ${p.resolution_note}` : "",
+      // Only the reporter is asked to confirm the fix
+      isReporter ? "Please take a look and let us know within 7 days whether it is really fixed." : "",
+    ].filter(Boolean).join("\n\n"),
+    sms: isReporter
+      ? `Report #${ref} was resolved. Please confirm the fix within 7 days.`
+      : `Report #${ref} that you follow was resolved.`,
+  }),
+  sla_breached: (p, ref) => ({
+    subject: `Report #${ref} is overdue and has been escalated`,
+    email: [
+      `Report "${p.description}" has passed its target resolution time.`,
+      `It has been escalated${p.department ? ` and is now with ${p.department}` : ""}.`,
+    ].join("\n\n"),
+    sms: `Report #${ref} is overdue and has been escalated.`,
+  }),
+};
+
+export const renderMessage = (
+  kind: DeliveryKind,
+  channel: DeliveryChannel,
+  payload: DeliveryPayload,
+  to: string,
+  recipientId: string,
+  appUrl: string,
+): OutboundMessage => {
+  const ref = payload.report_id.slice(0, 8);
+  const link = `${appUrl}/report/${payload.report_id}`;
+  const template = TEMPLATES[kind](payload, ref, payload.reporter_id === recipientId);
+
+  if (channel === "email") {
+    return { to, url: link, subject: template.subject, body: `${template.email}\n\nView the report: ${link}` };
+  }
+  // Push notifications open the link when clicked, so it is left out of the text
+  return channel === "push"
+    ? { to, url: link, subject: template.subject, body: template.sms }
+    : { to, url: link, subject: template.subject, body: `${template.sms} ${link}` };
+};
@@ -0,0 +1,210 @@
+-- Roles available in the app
+CREATE TYPE public.app_role AS ENUM ('citizen', 'staff', 'admin');
+
+-- Create profiles table (one row per auth user)
+CREATE TABLE public.profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name text,
+  department text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Create user_roles table (kept separate from profiles so users cannot grant themselves roles)
+CREATE TABLE public.user_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+-- Enable RLS
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Role helpers (security definer so policies can call them without recursive RLS checks)
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'staff') OR public.has_role(_user_id, 'admin');
+$$;
+
+-- Admins manage every report, staff only reports routed to their own department
+CREATE OR REPLACE FUNCTION public.can_manage_report(_user_id uuid, _department text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR (
+      public.has_role(_user_id, 'staff')
+      AND EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = _user_id AND department = _department
+      )
+    );
+$$;
+
+-- Profiles policies
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+USING (auth.uid() = id OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = id)
+WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Admins can update any profile"
+ON public.profiles
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Only admins may change a staff member's department
+CREATE OR REPLACE FUNCTION public.enforce_profile_department()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.department IS DISTINCT FROM OLD.department
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change a department assignment';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_profile_department
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_profile_department();
+
+CREATE TRIGGER update_profiles_updated_at
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- User roles policies - roles are read-only from the client except for admins
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles
+FOR SELECT
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage roles"
+ON public.user_roles
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Create a profile and citizen role for every new (non-anonymous) user
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, display_name)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data ->> 'display_name', NEW.email));
+
+  IF NOT COALESCE(NEW.is_anonymous, false) THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'citizen');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+-- Accounts that existed before this migration get the same profile and role
+INSERT INTO public.profiles (id, display_name)
+SELECT id, COALESCE(raw_user_meta_data ->> 'display_name', email)
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'citizen'
+FROM auth.users
+WHERE NOT COALESCE(is_anonymous, false)
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Record the author on every new report
+ALTER TABLE public.reports ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+-- Replace the open report policies
+DROP POLICY "Anyone can create reports" ON public.reports;
+DROP POLICY "Anyone can update reports" ON public.reports;
+
+CREATE POLICY "Signed-in users can create their own reports"
+ON public.reports
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid() AND status = 'pending');
+
+CREATE POLICY "Staff can update reports in their department"
+ON public.reports
+FOR UPDATE
+TO authenticated
+USING (public.can_manage_report(auth.uid(), department))
+WITH CHECK (public.is_staff(auth.uid()));
+
+CREATE POLICY "Citizens can update their own pending reports"
+ON public.reports
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid() AND status = 'pending')
+WITH CHECK (user_id = auth.uid() AND status = 'pending');
+
+-- Status and department are staff-only fields, even on a citizen's own report
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.department IS DISTINCT FROM OLD.department) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status or department';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_report_field_permissions
+BEFORE UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_report_field_permissions();
+
+-- Only signed-in users may upload report images
+DROP POLICY "Anyone can upload report images" ON storage.objects;
+
+CREATE POLICY "Signed-in users can upload report images"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'report-images');
@@ -0,0 +1,88 @@
+-- Speed up "My Reports" lookups
+CREATE INDEX reports_user_id_idx ON public.reports (user_id);
+
+-- Give converted guests (anonymous users who added an email) the citizen role
+CREATE OR REPLACE FUNCTION public.handle_user_converted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.is_anonymous, false) AND NOT COALESCE(NEW.is_anonymous, false) THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'citizen')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_converted
+AFTER UPDATE OF is_anonymous ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_user_converted();
+
+-- One-time codes that let a guest hand their reports over to a real account.
+-- Only reachable through the functions below, so no RLS policies are defined.
+CREATE TABLE public.guest_report_claims (
+  code uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  guest_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.guest_report_claims ENABLE ROW LEVEL SECURITY;
+
+-- Called by a guest session right before it signs in to another account
+CREATE OR REPLACE FUNCTION public.create_guest_report_claim()
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code uuid;
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false) = false THEN
+    RAISE EXCEPTION 'Only guest sessions can create a report claim';
+  END IF;
+
+  INSERT INTO public.guest_report_claims (guest_id)
+  VALUES (auth.uid())
+  RETURNING code INTO _code;
+
+  RETURN _code;
+END;
+$$;
+
+-- Called by the signed-in account to take over the guest's reports
+CREATE OR REPLACE FUNCTION public.claim_guest_reports(_code uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _guest_id uuid;
+  _claimed integer;
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE((auth.jwt() ->> 'is_anonymous')::boolean, false) THEN
+    RAISE EXCEPTION 'Sign in to an account to claim guest reports';
+  END IF;
+
+  DELETE FROM public.guest_report_claims
+  WHERE code = _code AND created_at > now() - interval '7 days'
+  RETURNING guest_id INTO _guest_id;
+
+  IF _guest_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.reports
+  SET user_id = auth.uid()
+  WHERE user_id = _guest_id;
+
+  GET DIAGNOSTICS _claimed = ROW_COUNT;
+  RETURN _claimed;
+END;
+$$;
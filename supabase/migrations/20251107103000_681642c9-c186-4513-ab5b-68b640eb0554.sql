@@ -0,0 +1,23 @@
+-- Store what the citizen and the detector said about each report
+ALTER TABLE public.reports
+  ADD COLUMN severity text NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high')),
+  ADD COLUMN ai_confidence real CHECK (ai_confidence >= 0 AND ai_confidence <= 1),
+  ADD COLUMN ai_labels text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN ai_model_version text;
+
+-- AI output is fixed at submission time; only staff may correct it afterwards
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.department IS DISTINCT FROM OLD.department
+          OR NEW.ai_confidence IS DISTINCT FROM OLD.ai_confidence
+          OR NEW.ai_labels IS DISTINCT FROM OLD.ai_labels
+          OR NEW.ai_model_version IS DISTINCT FROM OLD.ai_model_version) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status, department or AI results';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,109 @@
+-- Individual assignee (a staff member) alongside the department
+ALTER TABLE public.reports
+  ADD COLUMN assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Create report_events table (audit trail of every change to a report)
+CREATE TABLE public.report_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'viewed', 'status_changed', 'department_changed', 'assignee_changed')),
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  old_value text,
+  new_value text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX report_events_report_id_idx ON public.report_events (report_id, created_at);
+
+-- Enable RLS - events are written only by the trigger and functions below
+ALTER TABLE public.report_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view report events"
+ON public.report_events
+FOR SELECT
+USING (true);
+
+-- Record creation and every status, department or assignee change
+CREATE OR REPLACE FUNCTION public.log_report_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, new_value)
+    VALUES (NEW.id, 'created', auth.uid(), NEW.status);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, old_value, new_value)
+    VALUES (NEW.id, 'status_changed', auth.uid(), OLD.status, NEW.status);
+  END IF;
+
+  IF NEW.department IS DISTINCT FROM OLD.department THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, old_value, new_value)
+    VALUES (NEW.id, 'department_changed', auth.uid(), OLD.department, NEW.department);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, old_value, new_value)
+    VALUES (NEW.id, 'assignee_changed', auth.uid(), OLD.assigned_to::text, NEW.assigned_to::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_report_event
+AFTER INSERT OR UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.log_report_event();
+
+-- Backfill a creation event for existing reports
+INSERT INTO public.report_events (report_id, event_type, actor_id, new_value, created_at)
+SELECT id, 'created', user_id, status, created_at
+FROM public.reports;
+
+-- Staff opening a report for the first time marks it as viewed
+CREATE OR REPLACE FUNCTION public.mark_report_viewed(_report_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.report_events (report_id, event_type, actor_id)
+  SELECT _report_id, 'viewed', auth.uid()
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.report_events
+    WHERE report_id = _report_id AND event_type = 'viewed'
+  );
+END;
+$$;
+
+-- Only staff may change the assignee
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.department IS DISTINCT FROM OLD.department
+          OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+          OR NEW.ai_confidence IS DISTINCT FROM OLD.ai_confidence
+          OR NEW.ai_labels IS DISTINCT FROM OLD.ai_labels
+          OR NEW.ai_model_version IS DISTINCT FROM OLD.ai_model_version) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status, department, assignee or AI results';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Enable realtime for report events
+ALTER PUBLICATION supabase_realtime ADD TABLE public.report_events;
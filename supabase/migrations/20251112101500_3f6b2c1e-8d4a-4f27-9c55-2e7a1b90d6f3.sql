@@ -0,0 +1,102 @@
+-- Departments that reports can be routed to
+CREATE TABLE public.departments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Issue categories, with how they are displayed and where they are routed by default
+CREATE TABLE public.categories (
+  slug text PRIMARY KEY CHECK (slug ~ '^[a-z0-9-]+$'),
+  label text NOT NULL,
+  color text NOT NULL DEFAULT '#6b7280' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  icon text NOT NULL DEFAULT '⚠️',
+  default_department text NOT NULL REFERENCES public.departments(name) ON UPDATE CASCADE,
+  priority_weight integer NOT NULL DEFAULT 5 CHECK (priority_weight BETWEEN 0 AND 50),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read the taxonomy, only admins can change it
+CREATE POLICY "Anyone can view departments"
+ON public.departments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage departments"
+ON public.departments
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view categories"
+ON public.categories
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage categories"
+ON public.categories
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_departments_updated_at
+BEFORE UPDATE ON public.departments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the taxonomy that used to be hardcoded in the app
+INSERT INTO public.departments (name) VALUES
+  ('Road Maintenance'),
+  ('Sanitation Department'),
+  ('Public Works - Lighting'),
+  ('Water Department'),
+  ('General Services');
+
+INSERT INTO public.categories (slug, label, color, icon, default_department, priority_weight, sort_order) VALUES
+  ('pothole', 'Pothole', '#f97316', '🕳️', 'Road Maintenance', 20, 10),
+  ('garbage', 'Garbage', '#10b981', '🗑️', 'Sanitation Department', 10, 20),
+  ('streetlight', 'Street Light', '#3b82f6', '💡', 'Public Works - Lighting', 15, 30),
+  ('other', 'Other', '#6b7280', '⚠️', 'General Services', 5, 40);
+
+-- The AI service used shorter names for two departments; fold them into the canonical ones
+UPDATE public.reports SET department = 'Sanitation Department' WHERE department = 'Sanitation';
+UPDATE public.reports SET department = 'Public Works - Lighting' WHERE department = 'Public Works';
+UPDATE public.profiles SET department = 'Sanitation Department' WHERE department = 'Sanitation';
+UPDATE public.profiles SET department = 'Public Works - Lighting' WHERE department = 'Public Works';
+
+-- Keep any other department already in use so the foreign keys below hold
+INSERT INTO public.departments (name)
+SELECT department FROM public.reports
+UNION
+SELECT department FROM public.profiles WHERE department IS NOT NULL
+ON CONFLICT (name) DO NOTHING;
+
+-- Categories and departments now come from the tables instead of a CHECK list
+ALTER TABLE public.reports DROP CONSTRAINT reports_category_check;
+
+ALTER TABLE public.reports
+  ADD CONSTRAINT reports_category_fkey
+  FOREIGN KEY (category) REFERENCES public.categories(slug) ON UPDATE CASCADE;
+
+ALTER TABLE public.reports
+  ADD CONSTRAINT reports_department_fkey
+  FOREIGN KEY (department) REFERENCES public.departments(name) ON UPDATE CASCADE;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_department_fkey
+  FOREIGN KEY (department) REFERENCES public.departments(name) ON UPDATE CASCADE ON DELETE SET NULL;
+
@@ -0,0 +1,237 @@
+-- City wards, stored as GeoJSON polygons ([lon, lat] pairs, outer ring only)
+CREATE TABLE public.wards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  boundary jsonb NOT NULL CHECK (boundary ->> 'type' = 'Polygon'),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Routing rules: every condition left NULL matches anything.
+-- The active rule with the lowest priority number wins.
+CREATE TABLE public.routing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 100,
+  is_active boolean NOT NULL DEFAULT true,
+  category text REFERENCES public.categories(slug) ON UPDATE CASCADE ON DELETE CASCADE,
+  ward_id uuid REFERENCES public.wards(id) ON DELETE CASCADE,
+  severity text CHECK (severity IN ('low', 'medium', 'high')),
+  start_time time,
+  end_time time,
+  time_zone text NOT NULL DEFAULT 'UTC',
+  department text NOT NULL REFERENCES public.departments(name) ON UPDATE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((start_time IS NULL) = (end_time IS NULL))
+);
+
+CREATE INDEX routing_rules_priority_idx ON public.routing_rules (priority) WHERE is_active;
+
+-- Remember which rule routed each report
+ALTER TABLE public.reports
+  ADD COLUMN routing_rule_id uuid REFERENCES public.routing_rules(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.wards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view wards"
+ON public.wards
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can manage wards"
+ON public.wards
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Staff can view routing rules"
+ON public.routing_rules
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can manage routing rules"
+ON public.routing_rules
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_wards_updated_at
+BEFORE UPDATE ON public.wards
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_routing_rules_updated_at
+BEFORE UPDATE ON public.routing_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A bad time zone would make every report insert fail, so reject it up front
+CREATE OR REPLACE FUNCTION public.validate_routing_rule_time_zone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_routing_rule_time_zone
+BEFORE INSERT OR UPDATE OF time_zone ON public.routing_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_routing_rule_time_zone();
+
+-- Ray-casting point-in-polygon test against a GeoJSON polygon's outer ring
+CREATE OR REPLACE FUNCTION public.point_in_polygon(_lat double precision, _lon double precision, _polygon jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _ring jsonb := _polygon -> 'coordinates' -> 0;
+  _inside boolean := false;
+  _n integer;
+  _j integer;
+  _xi double precision;
+  _yi double precision;
+  _xj double precision;
+  _yj double precision;
+BEGIN
+  IF _ring IS NULL OR jsonb_array_length(_ring) < 3 THEN
+    RETURN false;
+  END IF;
+
+  _n := jsonb_array_length(_ring);
+  _j := _n - 1;
+
+  FOR _i IN 0.._n - 1 LOOP
+    _xi := (_ring -> _i ->> 0)::double precision;
+    _yi := (_ring -> _i ->> 1)::double precision;
+    _xj := (_ring -> _j ->> 0)::double precision;
+    _yj := (_ring -> _j ->> 1)::double precision;
+
+    IF (_yi > _lat) <> (_yj > _lat)
+       AND _lon < (_xj - _xi) * (_lat - _yi) / (_yj - _yi) + _xi THEN
+      _inside := NOT _inside;
+    END IF;
+
+    _j := _i;
+  END LOOP;
+
+  RETURN _inside;
+END;
+$$;
+
+-- The routing evaluator: returns the first active rule matching the given report attributes
+CREATE OR REPLACE FUNCTION public.match_routing_rule(
+  _category text,
+  _severity text,
+  _latitude double precision,
+  _longitude double precision,
+  _at timestamptz
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id
+  FROM public.routing_rules r
+  LEFT JOIN public.wards w ON w.id = r.ward_id
+  WHERE r.is_active
+    AND (r.category IS NULL OR r.category = _category)
+    AND (r.severity IS NULL OR r.severity = _severity)
+    AND (r.ward_id IS NULL OR public.point_in_polygon(_latitude, _longitude, w.boundary))
+    AND (
+      r.start_time IS NULL
+      OR CASE
+        -- Windows such as 22:00-06:00 wrap past midnight
+        WHEN r.start_time <= r.end_time THEN
+          (_at AT TIME ZONE r.time_zone)::time >= r.start_time
+          AND (_at AT TIME ZONE r.time_zone)::time < r.end_time
+        ELSE
+          (_at AT TIME ZONE r.time_zone)::time >= r.start_time
+          OR (_at AT TIME ZONE r.time_zone)::time < r.end_time
+      END
+    )
+  ORDER BY r.priority, r.created_at
+  LIMIT 1;
+$$;
+
+-- Route every new report: the matching rule wins, otherwise the category's default department
+CREATE OR REPLACE FUNCTION public.apply_routing_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.routing_rule_id := public.match_routing_rule(
+    NEW.category, NEW.severity, NEW.latitude, NEW.longitude, COALESCE(NEW.created_at, now())
+  );
+
+  IF NEW.routing_rule_id IS NOT NULL THEN
+    NEW.department := (SELECT department FROM public.routing_rules WHERE id = NEW.routing_rule_id);
+  ELSE
+    NEW.department := COALESCE(
+      (SELECT default_department FROM public.categories WHERE slug = NEW.category),
+      NEW.department
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_routing_rules
+BEFORE INSERT ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_routing_rules();
+
+-- Lets staff see which rule the current rule set picks for an existing report
+CREATE OR REPLACE FUNCTION public.preview_report_routing(_report_id uuid)
+RETURNS TABLE (rule_id uuid, rule_name text, department text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff and admins can preview routing';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id, r.name, COALESCE(r.department, c.default_department)
+  FROM public.reports rep
+  JOIN public.categories c ON c.slug = rep.category
+  LEFT JOIN public.routing_rules r ON r.id = public.match_routing_rule(
+    rep.category, rep.severity, rep.latitude::double precision, rep.longitude::double precision, rep.created_at
+  )
+  WHERE rep.id = _report_id;
+END;
+$$;
+
+-- The routing rule reference is a staff-only field as well
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.department IS DISTINCT FROM OLD.department
+          OR NEW.routing_rule_id IS DISTINCT FROM OLD.routing_rule_id
+          OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+          OR NEW.ai_confidence IS DISTINCT FROM OLD.ai_confidence
+          OR NEW.ai_labels IS DISTINCT FROM OLD.ai_labels
+          OR NEW.ai_model_version IS DISTINCT FROM OLD.ai_model_version) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status, department, assignee or AI results';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,180 @@
+-- Resolution deadlines per category and severity; NULL matches any value.
+-- The most specific matching policy applies.
+CREATE TABLE public.sla_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category text REFERENCES public.categories(slug) ON UPDATE CASCADE ON DELETE CASCADE,
+  severity text CHECK (severity IN ('low', 'medium', 'high')),
+  resolve_within_hours integer NOT NULL CHECK (resolve_within_hours > 0),
+  escalate_to_department text REFERENCES public.departments(name) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One policy per category/severity combination (NULLs included)
+CREATE UNIQUE INDEX sla_policies_scope_idx
+ON public.sla_policies (COALESCE(category, ''), COALESCE(severity, ''));
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view SLA policies"
+ON public.sla_policies
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage SLA policies"
+ON public.sla_policies
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sla_policies_updated_at
+BEFORE UPDATE ON public.sla_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Default deadlines: a week for anything, faster for high severity
+INSERT INTO public.sla_policies (category, severity, resolve_within_hours) VALUES
+  (NULL, NULL, 168),
+  (NULL, 'high', 48),
+  ('pothole', 'high', 24),
+  ('streetlight', NULL, 72);
+
+-- Deadline and escalation state on each report
+ALTER TABLE public.reports
+  ADD COLUMN due_at timestamptz,
+  ADD COLUMN escalation_level integer NOT NULL DEFAULT 0,
+  ADD COLUMN escalated_at timestamptz;
+
+CREATE INDEX reports_due_at_idx ON public.reports (due_at) WHERE status <> 'resolved';
+
+-- Most specific policy for a category/severity pair
+CREATE OR REPLACE FUNCTION public.find_sla_policy(_category text, _severity text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.sla_policies
+  WHERE (category IS NULL OR category = _category)
+    AND (severity IS NULL OR severity = _severity)
+  ORDER BY (category IS NOT NULL) DESC, (severity IS NOT NULL) DESC
+  LIMIT 1;
+$$;
+
+-- Compute due_at on insert, and again if the category or severity changes
+CREATE OR REPLACE FUNCTION public.set_report_due_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.category IS NOT DISTINCT FROM OLD.category
+     AND NEW.severity IS NOT DISTINCT FROM OLD.severity THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.due_at := COALESCE(NEW.created_at, now()) + make_interval(hours => (
+    SELECT resolve_within_hours FROM public.sla_policies
+    WHERE id = public.find_sla_policy(NEW.category, NEW.severity)
+  ));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_report_due_at
+BEFORE INSERT OR UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.set_report_due_at();
+
+-- Backfill deadlines for existing reports
+UPDATE public.reports r
+SET due_at = r.created_at + make_interval(hours => p.resolve_within_hours)
+FROM public.sla_policies p
+WHERE p.id = public.find_sla_policy(r.category, r.severity);
+
+-- Record SLA breaches in the audit trail
+ALTER TABLE public.report_events DROP CONSTRAINT report_events_event_type_check;
+ALTER TABLE public.report_events
+  ADD CONSTRAINT report_events_event_type_check
+  CHECK (event_type IN ('created', 'viewed', 'status_changed', 'department_changed', 'assignee_changed', 'sla_breached'));
+
+-- Escalate every unresolved report past its deadline that has not been escalated yet.
+-- Moves it to the policy's escalation department when one is set. Returns the count.
+CREATE OR REPLACE FUNCTION public.escalate_overdue_reports()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report record;
+  _escalated integer := 0;
+BEGIN
+  FOR _report IN
+    SELECT r.id, r.due_at, r.department, p.escalate_to_department
+    FROM public.reports r
+    LEFT JOIN public.sla_policies p ON p.id = public.find_sla_policy(r.category, r.severity)
+    WHERE r.status <> 'resolved'
+      AND r.due_at < now()
+      AND r.escalation_level = 0
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.reports
+    SET escalation_level = 1,
+        escalated_at = now(),
+        department = COALESCE(_report.escalate_to_department, _report.department)
+    WHERE id = _report.id;
+
+    INSERT INTO public.report_events (report_id, event_type, old_value, new_value)
+    VALUES (_report.id, 'sla_breached', _report.due_at::text, _report.escalate_to_department);
+
+    _escalated := _escalated + 1;
+  END LOOP;
+
+  RETURN _escalated;
+END;
+$$;
+
+-- Only the scheduler (and the database owner) may run escalation
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_reports() FROM PUBLIC, anon, authenticated;
+
+-- Check for breaches every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'escalate-overdue-reports',
+  '*/15 * * * *',
+  $$SELECT public.escalate_overdue_reports();$$
+);
+
+-- Deadline and escalation fields are maintained by the database, not by clients.
+-- This runs before set_report_due_at, so a recomputed due_at is not rejected.
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.department IS DISTINCT FROM OLD.department
+          OR NEW.routing_rule_id IS DISTINCT FROM OLD.routing_rule_id
+          OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+          OR NEW.ai_confidence IS DISTINCT FROM OLD.ai_confidence
+          OR NEW.ai_labels IS DISTINCT FROM OLD.ai_labels
+          OR NEW.ai_model_version IS DISTINCT FROM OLD.ai_model_version) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status, department, assignee or AI results';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND (NEW.due_at IS DISTINCT FROM OLD.due_at
+          OR NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+          OR NEW.escalated_at IS DISTINCT FROM OLD.escalated_at) THEN
+    RAISE EXCEPTION 'SLA deadlines and escalation are managed automatically';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
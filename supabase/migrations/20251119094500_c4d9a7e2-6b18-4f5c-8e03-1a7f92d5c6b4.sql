@@ -0,0 +1,183 @@
+-- Field crews: named groups of staff within a department
+CREATE TABLE public.crews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  department text REFERENCES public.departments(name) ON UPDATE CASCADE ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.crew_members (
+  crew_id uuid NOT NULL REFERENCES public.crews(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (crew_id, user_id)
+);
+
+-- A unit of field work on a report, given to one staff member or one crew
+CREATE TABLE public.work_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  assignee_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  crew_id uuid REFERENCES public.crews(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'in-progress', 'completed', 'cancelled')),
+  scheduled_for date,
+  notes text,
+  materials text[] NOT NULL DEFAULT '{}',
+  completion_photos text[] NOT NULL DEFAULT '{}',
+  completed_at timestamptz,
+  created_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (assignee_id IS NOT NULL OR crew_id IS NOT NULL)
+);
+
+CREATE INDEX work_orders_report_id_idx ON public.work_orders (report_id);
+CREATE INDEX work_orders_assignee_id_idx ON public.work_orders (assignee_id);
+CREATE INDEX work_orders_crew_id_idx ON public.work_orders (crew_id);
+
+-- Enable RLS
+ALTER TABLE public.crews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.crew_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.work_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_crew_member(_user_id uuid, _crew_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.crew_members
+    WHERE user_id = _user_id AND crew_id = _crew_id
+  );
+$$;
+
+-- Crews policies
+CREATE POLICY "Staff can view crews"
+ON public.crews
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can manage crews"
+ON public.crews
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Staff can view crew members"
+ON public.crew_members
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can manage crew members"
+ON public.crew_members
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Work order policies: department staff plan the work, assignees and crews carry it out
+CREATE POLICY "Staff can view work orders"
+ON public.work_orders
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Department staff can create work orders"
+ON public.work_orders
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.can_manage_report(
+    auth.uid(),
+    (SELECT department FROM public.reports WHERE id = report_id)
+  )
+);
+
+CREATE POLICY "Department staff and assignees can update work orders"
+ON public.work_orders
+FOR UPDATE
+TO authenticated
+USING (
+  assignee_id = auth.uid()
+  OR public.is_crew_member(auth.uid(), crew_id)
+  OR public.can_manage_report(auth.uid(), (SELECT department FROM public.reports WHERE id = report_id))
+);
+
+CREATE TRIGGER update_work_orders_updated_at
+BEFORE UPDATE ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stamp completion time, and only let the planners reassign or move a work order
+CREATE OR REPLACE FUNCTION public.enforce_work_order_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.completed_at := now();
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND NOT public.can_manage_report(auth.uid(), (SELECT department FROM public.reports WHERE id = OLD.report_id))
+     AND (NEW.report_id IS DISTINCT FROM OLD.report_id
+          OR NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+          OR NEW.crew_id IS DISTINCT FROM OLD.crew_id
+          OR NEW.scheduled_for IS DISTINCT FROM OLD.scheduled_for) THEN
+    RAISE EXCEPTION 'Only department staff and admins can reassign or reschedule a work order';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_work_order_fields
+BEFORE UPDATE ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_work_order_fields();
+
+-- The report's assignee follows its latest work order given to an individual
+CREATE OR REPLACE FUNCTION public.sync_report_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assignee_id IS NOT NULL AND NEW.status <> 'cancelled' THEN
+    UPDATE public.reports
+    SET assigned_to = NEW.assignee_id
+    WHERE id = NEW.report_id AND assigned_to IS DISTINCT FROM NEW.assignee_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_report_assignee
+AFTER INSERT OR UPDATE OF assignee_id, status ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_report_assignee();
+
+-- Staff directory for assignment pickers (user_roles itself is only readable by admins)
+CREATE OR REPLACE FUNCTION public.list_staff()
+RETURNS TABLE (id uuid, display_name text, department text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff and admins can list staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.display_name, p.department
+  FROM public.profiles p
+  WHERE public.is_staff(p.id)
+  ORDER BY p.display_name;
+END;
+$$;
+
+-- Enable realtime so field updates show up on the report page
+ALTER PUBLICATION supabase_realtime ADD TABLE public.work_orders;
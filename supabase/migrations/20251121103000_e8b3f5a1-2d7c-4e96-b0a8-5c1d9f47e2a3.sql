@@ -0,0 +1,156 @@
+-- Proof of resolution: an "after" photo and a note from staff, then the citizen's confirmation
+ALTER TABLE public.reports
+  ADD COLUMN resolution_photo_url text,
+  ADD COLUMN resolution_note text,
+  ADD COLUMN resolved_at timestamptz,
+  ADD COLUMN resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN confirmation_due_at timestamptz,
+  ADD COLUMN citizen_feedback text CHECK (citizen_feedback IN ('confirmed', 'disputed')),
+  ADD COLUMN citizen_feedback_note text,
+  ADD COLUMN citizen_feedback_at timestamptz;
+
+-- Reports resolved before this change keep their status but have no evidence
+UPDATE public.reports
+SET resolved_at = updated_at
+WHERE status = 'resolved';
+
+-- Record confirmations and disputes in the audit trail
+ALTER TABLE public.report_events DROP CONSTRAINT report_events_event_type_check;
+ALTER TABLE public.report_events
+  ADD CONSTRAINT report_events_event_type_check
+  CHECK (event_type IN (
+    'created', 'viewed', 'status_changed', 'department_changed', 'assignee_changed', 'sla_breached',
+    'resolution_confirmed', 'resolution_disputed'
+  ));
+
+-- Every resolution needs a newly uploaded after photo and a note.
+-- Resolving opens a 7 day window for the citizen to confirm or dispute the fix.
+CREATE OR REPLACE FUNCTION public.enforce_resolution_evidence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'resolved' AND OLD.status IS DISTINCT FROM 'resolved' THEN
+    IF NEW.resolution_photo_url IS NULL
+       OR NEW.resolution_photo_url IS NOT DISTINCT FROM OLD.resolution_photo_url
+       OR COALESCE(btrim(NEW.resolution_note), '') = '' THEN
+      RAISE EXCEPTION 'Resolving a report requires a new after photo and a resolution note';
+    END IF;
+
+    NEW.resolved_at := now();
+    NEW.resolved_by := auth.uid();
+    NEW.confirmation_due_at := now() + interval '7 days';
+    NEW.citizen_feedback := NULL;
+    NEW.citizen_feedback_note := NULL;
+    NEW.citizen_feedback_at := NULL;
+  ELSIF NEW.status <> 'resolved' AND OLD.status = 'resolved' THEN
+    NEW.confirmation_due_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_resolution_evidence
+BEFORE UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_resolution_evidence();
+
+-- Resolution evidence is staff-only, and the resolution bookkeeping is maintained by the
+-- database. respond_to_resolution sets app.resolution_feedback so a citizen's dispute can reopen.
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.resolution_feedback', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.department IS DISTINCT FROM OLD.department
+          OR NEW.routing_rule_id IS DISTINCT FROM OLD.routing_rule_id
+          OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+          OR NEW.ai_confidence IS DISTINCT FROM OLD.ai_confidence
+          OR NEW.ai_labels IS DISTINCT FROM OLD.ai_labels
+          OR NEW.ai_model_version IS DISTINCT FROM OLD.ai_model_version
+          OR NEW.resolution_photo_url IS DISTINCT FROM OLD.resolution_photo_url
+          OR NEW.resolution_note IS DISTINCT FROM OLD.resolution_note) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status, department, assignee, AI results or resolution evidence';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND (NEW.due_at IS DISTINCT FROM OLD.due_at
+          OR NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+          OR NEW.escalated_at IS DISTINCT FROM OLD.escalated_at) THEN
+    RAISE EXCEPTION 'SLA deadlines and escalation are managed automatically';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND (NEW.resolved_at IS DISTINCT FROM OLD.resolved_at
+          OR NEW.resolved_by IS DISTINCT FROM OLD.resolved_by
+          OR NEW.confirmation_due_at IS DISTINCT FROM OLD.confirmation_due_at
+          OR NEW.citizen_feedback IS DISTINCT FROM OLD.citizen_feedback
+          OR NEW.citizen_feedback_note IS DISTINCT FROM OLD.citizen_feedback_note
+          OR NEW.citizen_feedback_at IS DISTINCT FROM OLD.citizen_feedback_at) THEN
+    RAISE EXCEPTION 'Resolution confirmation is managed automatically';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- The reporting citizen confirms the fix, or disputes it and reopens the report
+CREATE OR REPLACE FUNCTION public.respond_to_resolution(_report_id uuid, _confirmed boolean, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report record;
+BEGIN
+  SELECT user_id, status, confirmation_due_at, citizen_feedback
+  INTO _report
+  FROM public.reports
+  WHERE id = _report_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _report.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the citizen who reported this issue can confirm or dispute its resolution';
+  END IF;
+
+  IF _report.status <> 'resolved' THEN
+    RAISE EXCEPTION 'This report is not resolved';
+  END IF;
+
+  IF _report.citizen_feedback IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already responded to this resolution';
+  END IF;
+
+  IF _report.confirmation_due_at IS NULL OR _report.confirmation_due_at < now() THEN
+    RAISE EXCEPTION 'The window to confirm or dispute this resolution has closed';
+  END IF;
+
+  IF NOT _confirmed AND COALESCE(btrim(_note), '') = '' THEN
+    RAISE EXCEPTION 'Please describe what is still wrong';
+  END IF;
+
+  PERFORM set_config('app.resolution_feedback', 'on', true);
+
+  UPDATE public.reports
+  SET citizen_feedback = CASE WHEN _confirmed THEN 'confirmed' ELSE 'disputed' END,
+      citizen_feedback_note = NULLIF(btrim(_note), ''),
+      citizen_feedback_at = now(),
+      status = CASE WHEN _confirmed THEN status ELSE 'in-progress' END
+  WHERE id = _report_id;
+
+  PERFORM set_config('app.resolution_feedback', 'off', true);
+
+  INSERT INTO public.report_events (report_id, event_type, actor_id, new_value)
+  VALUES (
+    _report_id,
+    CASE WHEN _confirmed THEN 'resolution_confirmed' ELSE 'resolution_disputed' END,
+    auth.uid(),
+    NULLIF(btrim(_note), '')
+  );
+END;
+$$;
@@ -0,0 +1,263 @@
+-- Extended status lifecycle: on-hold, rejected, duplicate and reopened
+ALTER TABLE public.reports DROP CONSTRAINT reports_status_check;
+ALTER TABLE public.reports
+  ADD CONSTRAINT reports_status_check
+  CHECK (status IN ('pending', 'in-progress', 'on-hold', 'resolved', 'rejected', 'duplicate', 'reopened'));
+
+-- Why the report is in its current status, and the canonical report for duplicates
+ALTER TABLE public.reports
+  ADD COLUMN status_reason text,
+  ADD COLUMN duplicate_of uuid REFERENCES public.reports(id) ON DELETE SET NULL,
+  ADD CONSTRAINT reports_duplicate_of_self_check CHECK (duplicate_of <> id);
+
+CREATE INDEX reports_duplicate_of_idx ON public.reports (duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+-- Keep the reason alongside each status change in the audit trail
+ALTER TABLE public.report_events ADD COLUMN reason text;
+
+-- The state machine: which status changes are allowed
+CREATE OR REPLACE FUNCTION public.is_allowed_status_transition(_from text, _to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('in-progress', 'on-hold', 'resolved', 'rejected', 'duplicate')
+    WHEN 'in-progress' THEN _to IN ('pending', 'on-hold', 'resolved', 'rejected', 'duplicate')
+    WHEN 'on-hold' THEN _to IN ('in-progress', 'resolved', 'rejected', 'duplicate')
+    WHEN 'reopened' THEN _to IN ('in-progress', 'on-hold', 'resolved', 'rejected', 'duplicate')
+    WHEN 'resolved' THEN _to = 'reopened'
+    WHEN 'rejected' THEN _to = 'reopened'
+    WHEN 'duplicate' THEN _to = 'reopened'
+    ELSE false
+  END;
+$$;
+
+-- Statuses that need a reason given in the same update
+CREATE OR REPLACE FUNCTION public.status_requires_reason(_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _status IN ('on-hold', 'rejected', 'duplicate', 'reopened');
+$$;
+
+-- Reject disallowed transitions and missing reasons. A reason left unchanged from the
+-- previous status does not count, so every change that needs one must supply it.
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_allowed_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'A report cannot go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+    NEW.status_reason := NULL;
+  END IF;
+  NEW.status_reason := NULLIF(btrim(NEW.status_reason), '');
+
+  IF public.status_requires_reason(NEW.status) AND NEW.status_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to mark a report %', NEW.status;
+  END IF;
+
+  IF NEW.status = 'duplicate' THEN
+    IF NEW.duplicate_of IS NULL THEN
+      RAISE EXCEPTION 'A duplicate must link to the original report';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.reports WHERE id = NEW.duplicate_of AND status = 'duplicate') THEN
+      RAISE EXCEPTION 'Link to the original report, not to another duplicate';
+    END IF;
+  ELSE
+    NEW.duplicate_of := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_status_transition
+BEFORE UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_status_transition();
+
+-- Status reasons and duplicate links are staff-only as well
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.resolution_feedback', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.status_reason IS DISTINCT FROM OLD.status_reason
+          OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+          OR NEW.department IS DISTINCT FROM OLD.department
+          OR NEW.routing_rule_id IS DISTINCT FROM OLD.routing_rule_id
+          OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+          OR NEW.ai_confidence IS DISTINCT FROM OLD.ai_confidence
+          OR NEW.ai_labels IS DISTINCT FROM OLD.ai_labels
+          OR NEW.ai_model_version IS DISTINCT FROM OLD.ai_model_version
+          OR NEW.resolution_photo_url IS DISTINCT FROM OLD.resolution_photo_url
+          OR NEW.resolution_note IS DISTINCT FROM OLD.resolution_note) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status, department, assignee, AI results or resolution evidence';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND (NEW.due_at IS DISTINCT FROM OLD.due_at
+          OR NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+          OR NEW.escalated_at IS DISTINCT FROM OLD.escalated_at) THEN
+    RAISE EXCEPTION 'SLA deadlines and escalation are managed automatically';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND (NEW.resolved_at IS DISTINCT FROM OLD.resolved_at
+          OR NEW.resolved_by IS DISTINCT FROM OLD.resolved_by
+          OR NEW.confirmation_due_at IS DISTINCT FROM OLD.confirmation_due_at
+          OR NEW.citizen_feedback IS DISTINCT FROM OLD.citizen_feedback
+          OR NEW.citizen_feedback_note IS DISTINCT FROM OLD.citizen_feedback_note
+          OR NEW.citizen_feedback_at IS DISTINCT FROM OLD.citizen_feedback_at) THEN
+    RAISE EXCEPTION 'Resolution confirmation is managed automatically';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Record the reason with each status change
+CREATE OR REPLACE FUNCTION public.log_report_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, new_value)
+    VALUES (NEW.id, 'created', auth.uid(), NEW.status);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, old_value, new_value, reason)
+    VALUES (NEW.id, 'status_changed', auth.uid(), OLD.status, NEW.status, NEW.status_reason);
+  END IF;
+
+  IF NEW.department IS DISTINCT FROM OLD.department THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, old_value, new_value)
+    VALUES (NEW.id, 'department_changed', auth.uid(), OLD.department, NEW.department);
+  END IF;
+
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.report_events (report_id, event_type, actor_id, old_value, new_value)
+    VALUES (NEW.id, 'assignee_changed', auth.uid(), OLD.assigned_to::text, NEW.assigned_to::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A disputed fix now moves the report to reopened, with the citizen's note as the reason
+CREATE OR REPLACE FUNCTION public.respond_to_resolution(_report_id uuid, _confirmed boolean, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report record;
+BEGIN
+  SELECT user_id, status, confirmation_due_at, citizen_feedback
+  INTO _report
+  FROM public.reports
+  WHERE id = _report_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _report.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the citizen who reported this issue can confirm or dispute its resolution';
+  END IF;
+
+  IF _report.status <> 'resolved' THEN
+    RAISE EXCEPTION 'This report is not resolved';
+  END IF;
+
+  IF _report.citizen_feedback IS NOT NULL THEN
+    RAISE EXCEPTION 'You have already responded to this resolution';
+  END IF;
+
+  IF _report.confirmation_due_at IS NULL OR _report.confirmation_due_at < now() THEN
+    RAISE EXCEPTION 'The window to confirm or dispute this resolution has closed';
+  END IF;
+
+  IF NOT _confirmed AND COALESCE(btrim(_note), '') = '' THEN
+    RAISE EXCEPTION 'Please describe what is still wrong';
+  END IF;
+
+  PERFORM set_config('app.resolution_feedback', 'on', true);
+
+  UPDATE public.reports
+  SET citizen_feedback = CASE WHEN _confirmed THEN 'confirmed' ELSE 'disputed' END,
+      citizen_feedback_note = NULLIF(btrim(_note), ''),
+      citizen_feedback_at = now(),
+      status = CASE WHEN _confirmed THEN status ELSE 'reopened' END,
+      status_reason = CASE WHEN _confirmed THEN status_reason ELSE 'Disputed by reporter: ' || btrim(_note) END
+  WHERE id = _report_id;
+
+  PERFORM set_config('app.resolution_feedback', 'off', true);
+
+  INSERT INTO public.report_events (report_id, event_type, actor_id, new_value)
+  VALUES (
+    _report_id,
+    CASE WHEN _confirmed THEN 'resolution_confirmed' ELSE 'resolution_disputed' END,
+    auth.uid(),
+    NULLIF(btrim(_note), '')
+  );
+END;
+$$;
+
+-- Rejected and duplicate reports are closed, so they no longer breach their SLA
+DROP INDEX public.reports_due_at_idx;
+CREATE INDEX reports_due_at_idx ON public.reports (due_at)
+WHERE status NOT IN ('resolved', 'rejected', 'duplicate');
+
+CREATE OR REPLACE FUNCTION public.escalate_overdue_reports()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _report record;
+  _escalated integer := 0;
+BEGIN
+  FOR _report IN
+    SELECT r.id, r.due_at, r.department, p.escalate_to_department
+    FROM public.reports r
+    LEFT JOIN public.sla_policies p ON p.id = public.find_sla_policy(r.category, r.severity)
+    WHERE r.status NOT IN ('resolved', 'rejected', 'duplicate')
+      AND r.due_at < now()
+      AND r.escalation_level = 0
+    FOR UPDATE OF r SKIP LOCKED
+  LOOP
+    UPDATE public.reports
+    SET escalation_level = 1,
+        escalated_at = now(),
+        department = COALESCE(_report.escalate_to_department, _report.department)
+    WHERE id = _report.id;
+
+    INSERT INTO public.report_events (report_id, event_type, old_value, new_value)
+    VALUES (_report.id, 'sla_breached', _report.due_at::text, _report.escalate_to_department);
+
+    _escalated := _escalated + 1;
+  END LOOP;
+
+  RETURN _escalated;
+END;
+$$;
@@ -0,0 +1,186 @@
+-- Citizens following a report: its reporter, anyone who joins instead of filing a
+-- duplicate, and the reporters of duplicates merged into it
+CREATE TABLE public.report_followers (
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (report_id, user_id)
+);
+
+CREATE INDEX report_followers_user_id_idx ON public.report_followers (user_id);
+
+ALTER TABLE public.report_followers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their follows and staff can view all"
+ON public.report_followers
+FOR SELECT
+USING (user_id = auth.uid() OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Users can follow reports"
+ON public.report_followers
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can unfollow reports"
+ON public.report_followers
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Reporters follow their own reports, including guest reports claimed by a new account
+CREATE OR REPLACE FUNCTION public.follow_own_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    INSERT INTO public.report_followers (report_id, user_id)
+    VALUES (NEW.id, NEW.user_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER follow_own_report
+AFTER INSERT OR UPDATE OF user_id ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.follow_own_report();
+
+INSERT INTO public.report_followers (report_id, user_id, created_at)
+SELECT id, user_id, created_at
+FROM public.reports
+WHERE user_id IS NOT NULL;
+
+-- 64-bit difference hash of the report photo (16 hex characters), computed in the browser
+ALTER TABLE public.reports
+  ADD COLUMN image_hash text CHECK (image_hash ~ '^[0-9a-f]{16}$');
+
+-- Merges are recorded on the canonical report's timeline
+ALTER TABLE public.report_events DROP CONSTRAINT report_events_event_type_check;
+ALTER TABLE public.report_events
+  ADD CONSTRAINT report_events_event_type_check
+  CHECK (event_type IN (
+    'created', 'viewed', 'status_changed', 'department_changed', 'assignee_changed', 'sla_breached',
+    'resolution_confirmed', 'resolution_disputed', 'duplicate_merged'
+  ));
+
+-- Open reports of the same category close by and recent enough to be the same issue.
+-- Photos whose hashes differ in at most 10 bits are flagged as similar and listed first.
+CREATE OR REPLACE FUNCTION public.find_duplicate_candidates(
+  _category text,
+  _latitude double precision,
+  _longitude double precision,
+  _image_hash text DEFAULT NULL,
+  _exclude_id uuid DEFAULT NULL,
+  _radius_m double precision DEFAULT 50,
+  _days integer DEFAULT 30
+)
+RETURNS TABLE (
+  id uuid,
+  description text,
+  status text,
+  image_url text,
+  created_at timestamptz,
+  distance_m double precision,
+  similar_image boolean
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.id, c.description, c.status, c.image_url, c.created_at, c.distance_m, c.similar_image
+  FROM (
+    SELECT
+      r.id, r.description, r.status, r.image_url, r.created_at,
+      6371000 * 2 * asin(sqrt(
+        power(sin(radians(r.latitude::double precision - _latitude) / 2), 2)
+        + cos(radians(_latitude)) * cos(radians(r.latitude::double precision))
+          * power(sin(radians(r.longitude::double precision - _longitude) / 2), 2)
+      )) AS distance_m,
+      COALESCE(
+        bit_count(('x' || r.image_hash)::bit(64) # ('x' || _image_hash)::bit(64)) <= 10,
+        false
+      ) AS similar_image
+    FROM public.reports r
+    WHERE r.category = _category
+      AND r.status NOT IN ('resolved', 'rejected', 'duplicate')
+      AND r.created_at > now() - make_interval(days => _days)
+      AND r.id IS DISTINCT FROM _exclude_id
+      -- Cheap bounding box before the exact distance
+      AND r.latitude::double precision BETWEEN _latitude - _radius_m / 111320 AND _latitude + _radius_m / 111320
+      AND r.longitude::double precision
+        BETWEEN _longitude - _radius_m / (111320 * cos(radians(_latitude)))
+        AND _longitude + _radius_m / (111320 * cos(radians(_latitude)))
+  ) c
+  WHERE c.distance_m <= _radius_m
+  ORDER BY c.similar_image DESC, c.distance_m
+  LIMIT 5;
+$$;
+
+-- Fold duplicates into a canonical report. Every follower of a duplicate, its reporter
+-- included, follows the canonical report afterwards. Returns the number merged.
+CREATE OR REPLACE FUNCTION public.merge_reports(_canonical_id uuid, _duplicate_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duplicate record;
+  _merged integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE id = _canonical_id AND public.can_manage_report(auth.uid(), department)
+  ) THEN
+    RAISE EXCEPTION 'Only staff of the report''s department can merge into it';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reports WHERE id = _canonical_id AND status = 'duplicate') THEN
+    RAISE EXCEPTION 'Merge into the original report, not into another duplicate';
+  END IF;
+
+  IF _canonical_id = ANY (_duplicate_ids) THEN
+    RAISE EXCEPTION 'A report cannot be merged into itself';
+  END IF;
+
+  FOR _duplicate IN
+    SELECT id, department
+    FROM public.reports
+    WHERE id = ANY (_duplicate_ids)
+    FOR UPDATE
+  LOOP
+    IF NOT public.can_manage_report(auth.uid(), _duplicate.department) THEN
+      RAISE EXCEPTION 'You cannot manage report %', _duplicate.id;
+    END IF;
+
+    INSERT INTO public.report_followers (report_id, user_id)
+    SELECT _canonical_id, user_id
+    FROM public.report_followers
+    WHERE report_id = _duplicate.id
+    ON CONFLICT DO NOTHING;
+
+    -- Earlier duplicates of this report now point at the canonical one
+    UPDATE public.reports
+    SET duplicate_of = _canonical_id
+    WHERE duplicate_of = _duplicate.id;
+
+    UPDATE public.reports
+    SET status = 'duplicate',
+        duplicate_of = _canonical_id,
+        status_reason = 'Merged into report ' || left(_canonical_id::text, 8)
+    WHERE id = _duplicate.id;
+
+    INSERT INTO public.report_events (report_id, event_type, actor_id, new_value)
+    VALUES (_canonical_id, 'duplicate_merged', auth.uid(), _duplicate.id::text);
+
+    _merged := _merged + 1;
+  END LOOP;
+
+  RETURN _merged;
+END;
+$$;
@@ -0,0 +1,205 @@
+-- Citizens saying "me too" on someone else's report
+CREATE TABLE public.report_supporters (
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (report_id, user_id)
+);
+
+CREATE INDEX report_supporters_user_id_idx ON public.report_supporters (user_id);
+
+ALTER TABLE public.report_supporters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their support and staff can view all"
+ON public.report_supporters
+FOR SELECT
+USING (user_id = auth.uid() OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Users can support reports"
+ON public.report_supporters
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can withdraw their support"
+ON public.report_supporters
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- Number of supporters, kept on the report so lists, map popups and prioritisation can read it
+ALTER TABLE public.reports
+  ADD COLUMN support_count integer NOT NULL DEFAULT 0;
+
+-- A reporter already counts as affected, so supporting their own report is a no-op
+CREATE OR REPLACE FUNCTION public.skip_own_report_support()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.reports WHERE id = NEW.report_id AND user_id = NEW.user_id) THEN
+    RETURN NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER skip_own_report_support
+BEFORE INSERT ON public.report_supporters
+FOR EACH ROW
+EXECUTE FUNCTION public.skip_own_report_support();
+
+-- Keep support_count in step, and have supporters follow the report's progress
+CREATE OR REPLACE FUNCTION public.update_support_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.reports SET support_count = support_count + 1 WHERE id = NEW.report_id;
+
+    INSERT INTO public.report_followers (report_id, user_id)
+    VALUES (NEW.report_id, NEW.user_id)
+    ON CONFLICT DO NOTHING;
+
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.reports SET support_count = greatest(support_count - 1, 0) WHERE id = OLD.report_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER update_support_count
+AFTER INSERT OR DELETE ON public.report_supporters
+FOR EACH ROW
+EXECUTE FUNCTION public.update_support_count();
+
+-- Support counts can only change through the trigger above
+CREATE OR REPLACE FUNCTION public.enforce_report_field_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.resolution_feedback', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_staff(auth.uid())
+     AND (NEW.status IS DISTINCT FROM OLD.status
+          OR NEW.status_reason IS DISTINCT FROM OLD.status_reason
+          OR NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of
+          OR NEW.department IS DISTINCT FROM OLD.department
+          OR NEW.routing_rule_id IS DISTINCT FROM OLD.routing_rule_id
+          OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+          OR NEW.ai_confidence IS DISTINCT FROM OLD.ai_confidence
+          OR NEW.ai_labels IS DISTINCT FROM OLD.ai_labels
+          OR NEW.ai_model_version IS DISTINCT FROM OLD.ai_model_version
+          OR NEW.resolution_photo_url IS DISTINCT FROM OLD.resolution_photo_url
+          OR NEW.resolution_note IS DISTINCT FROM OLD.resolution_note) THEN
+    RAISE EXCEPTION 'Only department staff and admins can change status, department, assignee, AI results or resolution evidence';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND (NEW.due_at IS DISTINCT FROM OLD.due_at
+          OR NEW.escalation_level IS DISTINCT FROM OLD.escalation_level
+          OR NEW.escalated_at IS DISTINCT FROM OLD.escalated_at) THEN
+    RAISE EXCEPTION 'SLA deadlines and escalation are managed automatically';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND (NEW.resolved_at IS DISTINCT FROM OLD.resolved_at
+          OR NEW.resolved_by IS DISTINCT FROM OLD.resolved_by
+          OR NEW.confirmation_due_at IS DISTINCT FROM OLD.confirmation_due_at
+          OR NEW.citizen_feedback IS DISTINCT FROM OLD.citizen_feedback
+          OR NEW.citizen_feedback_note IS DISTINCT FROM OLD.citizen_feedback_note
+          OR NEW.citizen_feedback_at IS DISTINCT FROM OLD.citizen_feedback_at) THEN
+    RAISE EXCEPTION 'Resolution confirmation is managed automatically';
+  END IF;
+
+  -- Updates made from inside another trigger run at a depth above 1
+  IF auth.uid() IS NOT NULL
+     AND pg_trigger_depth() = 1
+     AND NEW.support_count IS DISTINCT FROM OLD.support_count THEN
+    RAISE EXCEPTION 'Support counts are managed automatically';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Merging also carries support over: the duplicate's reporter and supporters all
+-- count as supporters of the canonical report
+CREATE OR REPLACE FUNCTION public.merge_reports(_canonical_id uuid, _duplicate_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _duplicate record;
+  _merged integer := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.reports
+    WHERE id = _canonical_id AND public.can_manage_report(auth.uid(), department)
+  ) THEN
+    RAISE EXCEPTION 'Only staff of the report''s department can merge into it';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.reports WHERE id = _canonical_id AND status = 'duplicate') THEN
+    RAISE EXCEPTION 'Merge into the original report, not into another duplicate';
+  END IF;
+
+  IF _canonical_id = ANY (_duplicate_ids) THEN
+    RAISE EXCEPTION 'A report cannot be merged into itself';
+  END IF;
+
+  FOR _duplicate IN
+    SELECT id, department, user_id
+    FROM public.reports
+    WHERE id = ANY (_duplicate_ids)
+    FOR UPDATE
+  LOOP
+    IF NOT public.can_manage_report(auth.uid(), _duplicate.department) THEN
+      RAISE EXCEPTION 'You cannot manage report %', _duplicate.id;
+    END IF;
+
+    INSERT INTO public.report_followers (report_id, user_id)
+    SELECT _canonical_id, user_id
+    FROM public.report_followers
+    WHERE report_id = _duplicate.id
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO public.report_supporters (report_id, user_id)
+    SELECT _canonical_id, s.user_id
+    FROM (
+      SELECT user_id FROM public.report_supporters WHERE report_id = _duplicate.id
+      UNION
+      SELECT _duplicate.user_id WHERE _duplicate.user_id IS NOT NULL
+    ) s
+    ON CONFLICT DO NOTHING;
+
+    -- Earlier duplicates of this report now point at the canonical one
+    UPDATE public.reports
+    SET duplicate_of = _canonical_id
+    WHERE duplicate_of = _duplicate.id;
+
+    UPDATE public.reports
+    SET status = 'duplicate',
+        duplicate_of = _canonical_id,
+        status_reason = 'Merged into report ' || left(_canonical_id::text, 8)
+    WHERE id = _duplicate.id;
+
+    INSERT INTO public.report_events (report_id, event_type, actor_id, new_value)
+    VALUES (_canonical_id, 'duplicate_merged', auth.uid(), _duplicate.id::text);
+
+    _merged := _merged + 1;
+  END LOOP;
+
+  RETURN _merged;
+END;
+$$;
@@ -0,0 +1,57 @@
+-- Conversation on a report: public comments between citizens and staff, and
+-- internal notes that only staff can see
+CREATE TABLE public.report_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  author_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_is_staff boolean NOT NULL DEFAULT false,
+  body text NOT NULL CHECK (length(btrim(body)) > 0),
+  is_internal boolean NOT NULL DEFAULT false,
+  attachment_urls text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX report_comments_report_id_idx ON public.report_comments (report_id, created_at);
+
+ALTER TABLE public.report_comments ENABLE ROW LEVEL SECURITY;
+
+-- Reports are public, and so is their public conversation
+CREATE POLICY "Anyone can view public comments and staff can view internal notes"
+ON public.report_comments
+FOR SELECT
+USING (NOT is_internal OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Signed-in users can comment and staff can add internal notes"
+ON public.report_comments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  author_id = auth.uid()
+  AND (NOT is_internal OR public.is_staff(auth.uid()))
+);
+
+CREATE POLICY "Authors can delete their comments"
+ON public.report_comments
+FOR DELETE
+TO authenticated
+USING (author_id = auth.uid());
+
+-- Whether the author was staff is recorded by the database so citizens can tell replies apart
+CREATE OR REPLACE FUNCTION public.set_comment_author_is_staff()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.author_is_staff := public.is_staff(NEW.author_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_comment_author_is_staff
+BEFORE INSERT ON public.report_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.set_comment_author_is_staff();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.report_comments;
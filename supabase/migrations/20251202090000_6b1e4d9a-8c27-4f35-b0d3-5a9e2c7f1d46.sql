@@ -0,0 +1,159 @@
+-- Persistent in-app notifications, written by triggers and read by each user's bell
+CREATE TABLE public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  report_id uuid REFERENCES public.reports(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('status_changed', 'comment_added', 'report_assigned', 'work_order_assigned')),
+  title text NOT NULL,
+  body text,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+ON public.notifications
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+ON public.notifications
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Notify everyone following a report, except whoever caused the change
+CREATE OR REPLACE FUNCTION public.notify_report_followers(
+  _report_id uuid,
+  _type text,
+  _title text,
+  _body text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.notifications (user_id, report_id, type, title, body)
+  SELECT f.user_id, _report_id, _type, _title, _body
+  FROM public.report_followers f
+  WHERE f.report_id = _report_id
+    AND f.user_id IS DISTINCT FROM auth.uid();
+$$;
+
+-- Status changes go to followers, new assignees hear about their reports
+CREATE OR REPLACE FUNCTION public.notify_report_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.notify_report_followers(
+      NEW.id,
+      'status_changed',
+      'Report #' || left(NEW.id::text, 8) || ' is now ' || initcap(replace(NEW.status, '-', ' ')),
+      NEW.status_reason
+    );
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL
+     AND NEW.assigned_to IS DISTINCT FROM OLD.assigned_to
+     AND NEW.assigned_to IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, report_id, type, title, body)
+    VALUES (
+      NEW.assigned_to,
+      NEW.id,
+      'report_assigned',
+      'Report #' || left(NEW.id::text, 8) || ' was assigned to you',
+      left(NEW.description, 140)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_report_changes
+AFTER UPDATE ON public.reports
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_report_changes();
+
+-- Public comments go to followers and the assigned staff member; internal notes only to the latter
+CREATE OR REPLACE FUNCTION public.notify_report_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assigned_to uuid;
+  _title text := CASE WHEN NEW.is_internal THEN 'Internal note on report #' ELSE 'New comment on report #' END
+    || left(NEW.report_id::text, 8);
+BEGIN
+  IF NOT NEW.is_internal THEN
+    PERFORM public.notify_report_followers(NEW.report_id, 'comment_added', _title, left(NEW.body, 140));
+  END IF;
+
+  SELECT assigned_to INTO _assigned_to FROM public.reports WHERE id = NEW.report_id;
+
+  IF _assigned_to IS NOT NULL
+     AND _assigned_to IS DISTINCT FROM NEW.author_id
+     AND NOT EXISTS (
+       SELECT 1 FROM public.report_followers
+       WHERE report_id = NEW.report_id AND user_id = _assigned_to AND NOT NEW.is_internal
+     ) THEN
+    INSERT INTO public.notifications (user_id, report_id, type, title, body)
+    VALUES (_assigned_to, NEW.report_id, 'comment_added', _title, left(NEW.body, 140));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_report_comment
+AFTER INSERT ON public.report_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_report_comment();
+
+-- Work orders go to their assignee, or to every member of their crew
+CREATE OR REPLACE FUNCTION public.notify_work_order_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.assignee_id IS NOT DISTINCT FROM OLD.assignee_id
+     AND NEW.crew_id IS NOT DISTINCT FROM OLD.crew_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, report_id, type, title, body)
+  SELECT DISTINCT r.user_id, NEW.report_id, 'work_order_assigned',
+    'New work order for report #' || left(NEW.report_id::text, 8),
+    NEW.notes
+  FROM (
+    SELECT NEW.assignee_id AS user_id
+    UNION
+    SELECT cm.user_id FROM public.crew_members cm WHERE cm.crew_id = NEW.crew_id
+  ) r
+  WHERE r.user_id IS NOT NULL
+    AND r.user_id IS DISTINCT FROM auth.uid();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_work_order_assignment
+AFTER INSERT OR UPDATE OF assignee_id, crew_id ON public.work_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_work_order_assignment();
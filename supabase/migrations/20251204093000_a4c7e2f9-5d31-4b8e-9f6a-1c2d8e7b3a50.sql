@@ -0,0 +1,199 @@
+-- Email and SMS opt-in, per user. Nothing is sent until a user turns a channel on.
+CREATE TABLE public.notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_enabled boolean NOT NULL DEFAULT false,
+  sms_enabled boolean NOT NULL DEFAULT false,
+  -- E.164, e.g. +919876543210
+  phone text CHECK (phone ~ '^\+[1-9][0-9]{6,14}$'),
+  notify_status_changes boolean NOT NULL DEFAULT true,
+  notify_resolutions boolean NOT NULL DEFAULT true,
+  notify_sla_breaches boolean NOT NULL DEFAULT true,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their notification preferences"
+ON public.notification_preferences
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Outbox of messages for the dispatch-notifications Edge Function. The function renders
+-- subject and body from the payload, so each row doubles as a mailbox entry.
+CREATE TABLE public.notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  report_id uuid REFERENCES public.reports(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('status_changed', 'resolved', 'sla_breached')),
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}',
+  subject text,
+  body text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  -- When a dispatcher run last took the message; a run that dies leaves it in 'sending'
+  claimed_at timestamptz,
+  provider text,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX notification_deliveries_pending_idx ON public.notification_deliveries (created_at)
+WHERE status IN ('pending', 'sending');
+CREATE INDEX notification_deliveries_user_id_idx ON public.notification_deliveries (user_id, created_at DESC);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Only readable by the recipient; written by the trigger below and the Edge Function
+CREATE POLICY "Users can view messages sent to them"
+ON public.notification_deliveries
+FOR SELECT
+USING (user_id = auth.uid());
+
+-- Queue email and SMS for followers who opted in, when a report changes status or breaches its SLA
+CREATE OR REPLACE FUNCTION public.queue_notification_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _kind text;
+  _report record;
+  _payload jsonb;
+BEGIN
+  IF NEW.event_type = 'status_changed' THEN
+    _kind := CASE WHEN NEW.new_value = 'resolved' THEN 'resolved' ELSE 'status_changed' END;
+  ELSIF NEW.event_type = 'sla_breached' THEN
+    _kind := 'sla_breached';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT id, user_id, description, status, status_reason, department, resolution_note, assigned_to
+  INTO _report
+  FROM public.reports
+  WHERE id = NEW.report_id;
+
+  _payload := jsonb_build_object(
+    'report_id', _report.id,
+    -- Lets the message address the reporter differently from followers
+    'reporter_id', _report.user_id,
+    'description', left(_report.description, 140),
+    'status', _report.status,
+    'reason', NEW.reason,
+    'department', _report.department,
+    'resolution_note', _report.resolution_note
+  );
+
+  INSERT INTO public.notification_deliveries (user_id, report_id, kind, channel, recipient, payload)
+  SELECT p.user_id, NEW.report_id, _kind, c.channel, c.recipient, _payload
+  FROM (
+    SELECT user_id FROM public.report_followers WHERE report_id = NEW.report_id
+    UNION
+    -- The assigned staff member hears about breaches of reports they are working on
+    SELECT _report.assigned_to WHERE _kind = 'sla_breached' AND _report.assigned_to IS NOT NULL
+  ) r
+  JOIN public.notification_preferences p ON p.user_id = r.user_id
+  LEFT JOIN auth.users u ON u.id = p.user_id
+  CROSS JOIN LATERAL (
+    VALUES
+      -- Only the account's confirmed address, so nobody can point emails at someone else
+      ('email', CASE WHEN p.email_enabled AND u.email_confirmed_at IS NOT NULL THEN u.email END),
+      ('sms', CASE WHEN p.sms_enabled THEN p.phone END)
+  ) AS c(channel, recipient)
+  WHERE c.recipient IS NOT NULL
+    AND p.user_id IS DISTINCT FROM NEW.actor_id
+    AND CASE _kind
+      WHEN 'resolved' THEN p.notify_resolutions
+      WHEN 'sla_breached' THEN p.notify_sla_breaches
+      ELSE p.notify_status_changes
+    END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_notification_deliveries
+AFTER INSERT ON public.report_events
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_notification_deliveries();
+
+-- Hands a batch of pending messages to one dispatcher run. SKIP LOCKED keeps
+-- overlapping runs from sending the same message twice. Messages a run claimed but
+-- never finished are claimed again once stale, until they run out of attempts.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(
+  _limit integer DEFAULT 50,
+  _max_attempts integer DEFAULT 5,
+  _stale_after interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF public.notification_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH abandoned AS (
+    UPDATE public.notification_deliveries
+    SET status = 'failed', last_error = COALESCE(last_error, 'Dispatcher stopped before the send finished')
+    WHERE status = 'sending'
+      AND claimed_at < now() - _stale_after
+      AND attempts >= _max_attempts
+  )
+  UPDATE public.notification_deliveries d
+  SET status = 'sending', attempts = d.attempts + 1, claimed_at = now()
+  WHERE d.id IN (
+    SELECT id FROM public.notification_deliveries
+    WHERE status = 'pending'
+      OR (status = 'sending' AND claimed_at < now() - _stale_after AND attempts < _max_attempts)
+    ORDER BY created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+$$;
+
+-- Only the Edge Function (service role) may claim messages
+REVOKE EXECUTE ON FUNCTION public.claim_notification_deliveries(integer, integer, interval) FROM PUBLIC, anon, authenticated;
+
+-- Run the dispatcher every minute. Set app.settings.functions_url and
+-- app.settings.service_role_key on the database for this to reach the function;
+-- until both are set each run does nothing rather than failing.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'dispatch-notifications',
+  '* * * * *',
+  $$SELECT net.http_post(
+    url := s.functions_url || '/dispatch-notifications',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || s.service_role_key,
+      'Content-Type', 'application/json'
+    )
+  )
+  FROM (
+    SELECT
+      NULLIF(current_setting('app.settings.functions_url', true), '') AS functions_url,
+      NULLIF(current_setting('app.settings.service_role_key', true), '') AS service_role_key
+  ) s
+  WHERE s.functions_url IS NOT NULL AND s.service_role_key IS NOT NULL;$$
+);
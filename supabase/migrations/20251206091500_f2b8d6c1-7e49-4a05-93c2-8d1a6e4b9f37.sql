@@ -0,0 +1,134 @@
+-- Browser push subscriptions, one per device a user has enabled push on
+CREATE TABLE public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX push_subscriptions_user_id_idx ON public.push_subscriptions (user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their push subscriptions"
+ON public.push_subscriptions
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add push subscriptions"
+ON public.push_subscriptions
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their push subscriptions"
+ON public.push_subscriptions
+FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
+
+-- An endpoint belongs to a browser, not an account. Whoever enables push on that browser
+-- takes it over, including from someone who used it before without signing out.
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  _endpoint text,
+  _p256dh text,
+  _auth text,
+  _user_agent text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+    p256dh = EXCLUDED.p256dh,
+    auth = EXCLUDED.auth,
+    user_agent = EXCLUDED.user_agent;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_push_subscription(text, text, text, text) TO authenticated;
+
+-- Pushes go through the same outbox as email and SMS, addressed to the subscription endpoint
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT notification_deliveries_channel_check;
+ALTER TABLE public.notification_deliveries
+  ADD CONSTRAINT notification_deliveries_channel_check
+  CHECK (channel IN ('email', 'sms', 'push'));
+
+-- Subscribing a device is the opt-in for push; the per-kind preferences still apply when set
+CREATE OR REPLACE FUNCTION public.queue_notification_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _kind text;
+  _report record;
+  _payload jsonb;
+BEGIN
+  IF NEW.event_type = 'status_changed' THEN
+    _kind := CASE WHEN NEW.new_value = 'resolved' THEN 'resolved' ELSE 'status_changed' END;
+  ELSIF NEW.event_type = 'sla_breached' THEN
+    _kind := 'sla_breached';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  SELECT id, user_id, description, status, status_reason, department, resolution_note, assigned_to
+  INTO _report
+  FROM public.reports
+  WHERE id = NEW.report_id;
+
+  _payload := jsonb_build_object(
+    'report_id', _report.id,
+    -- Lets the message address the reporter differently from followers
+    'reporter_id', _report.user_id,
+    'description', left(_report.description, 140),
+    'status', _report.status,
+    'reason', NEW.reason,
+    'department', _report.department,
+    'resolution_note', _report.resolution_note
+  );
+
+  WITH recipients AS (
+    SELECT user_id FROM public.report_followers WHERE report_id = NEW.report_id
+    UNION
+    -- The assigned staff member hears about breaches of reports they are working on
+    SELECT _report.assigned_to WHERE _kind = 'sla_breached' AND _report.assigned_to IS NOT NULL
+  ),
+  wanted AS (
+    SELECT r.user_id, p.email_enabled, p.sms_enabled, p.phone
+    FROM recipients r
+    LEFT JOIN public.notification_preferences p ON p.user_id = r.user_id
+    WHERE r.user_id IS DISTINCT FROM NEW.actor_id
+      AND COALESCE(CASE _kind
+        WHEN 'resolved' THEN p.notify_resolutions
+        WHEN 'sla_breached' THEN p.notify_sla_breaches
+        ELSE p.notify_status_changes
+      END, true)
+  )
+  INSERT INTO public.notification_deliveries (user_id, report_id, kind, channel, recipient, payload)
+  SELECT w.user_id, NEW.report_id, _kind, 'email', u.email, _payload
+  FROM wanted w
+  JOIN auth.users u ON u.id = w.user_id
+  -- Only the account's confirmed address, so nobody can point emails at someone else
+  WHERE w.email_enabled AND u.email IS NOT NULL AND u.email_confirmed_at IS NOT NULL
+  UNION ALL
+  SELECT w.user_id, NEW.report_id, _kind, 'sms', w.phone, _payload
+  FROM wanted w
+  WHERE w.sms_enabled AND w.phone IS NOT NULL
+  UNION ALL
+  SELECT w.user_id, NEW.report_id, _kind, 'push', s.endpoint, _payload
+  FROM wanted w
+  JOIN public.push_subscriptions s ON s.user_id = w.user_id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Every photo and clip attached to a report, in the order the citizen arranged them.
+-- reports.image_url stays as the cover photo, so screens that show one image keep working.
+CREATE TABLE public.report_media (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  media_type text NOT NULL CHECK (media_type IN ('image', 'video')),
+  url text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  -- What the model made of this photo; empty for videos
+  ai_category text,
+  ai_confidence real CHECK (ai_confidence >= 0 AND ai_confidence <= 1),
+  ai_labels text[] NOT NULL DEFAULT '{}',
+  ai_model_version text,
+  ai_processed_image_url text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX report_media_report_id_idx ON public.report_media (report_id, position);
+
+ALTER TABLE public.report_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view report media"
+ON public.report_media
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Reporters can attach media to their reports"
+ON public.report_media
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.reports r
+    WHERE r.id = report_id AND r.user_id = auth.uid()
+  )
+);
+
+-- Existing reports get their one photo as the first item. The report's category may
+-- have come from the citizen or staff, so it only counts as the model's answer when a
+-- model looked at the photo.
+INSERT INTO public.report_media (
+  report_id, media_type, url, position,
+  ai_category, ai_confidence, ai_labels, ai_model_version, ai_processed_image_url, created_at
+)
+SELECT id, 'image', image_url, 0,
+  CASE WHEN ai_model_version IS NOT NULL AND ai_model_version <> 'unavailable' THEN category END,
+  ai_confidence, ai_labels, ai_model_version, ai_processed_image_url, created_at
+FROM public.reports;
@@ -0,0 +1,41 @@
+-- Everything the detector found in each photo, with a box where the model gives one.
+-- Boxes are fractions of the photo's width and height, from its top-left corner.
+CREATE TABLE public.report_detections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  media_id uuid REFERENCES public.report_media(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  score real NOT NULL CHECK (score >= 0 AND score <= 1),
+  bbox_x real CHECK (bbox_x >= 0 AND bbox_x <= 1),
+  bbox_y real CHECK (bbox_y >= 0 AND bbox_y <= 1),
+  bbox_width real CHECK (bbox_width >= 0 AND bbox_width <= 1),
+  bbox_height real CHECK (bbox_height >= 0 AND bbox_height <= 1),
+  model_version text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- A box is all four values or none
+  CHECK (
+    (bbox_x IS NULL AND bbox_y IS NULL AND bbox_width IS NULL AND bbox_height IS NULL)
+    OR (bbox_x IS NOT NULL AND bbox_y IS NOT NULL AND bbox_width IS NOT NULL AND bbox_height IS NOT NULL)
+  )
+);
+
+CREATE INDEX report_detections_report_id_idx ON public.report_detections (report_id);
+CREATE INDEX report_detections_media_id_idx ON public.report_detections (media_id);
+
+ALTER TABLE public.report_detections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view report detections"
+ON public.report_detections
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Reporters can record detections on their reports"
+ON public.report_detections
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.reports r
+    WHERE r.id = report_id AND r.user_id = auth.uid()
+  )
+);
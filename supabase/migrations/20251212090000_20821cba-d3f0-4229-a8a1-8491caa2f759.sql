@@ -0,0 +1,77 @@
+-- Reviewer labels for photos the detector was unsure about. Each row is one labeled
+-- example for retraining: the category a reviewer confirmed or corrected, and the
+-- boxes they kept or drew.
+CREATE TABLE public.labeled_examples (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  media_id uuid NOT NULL UNIQUE REFERENCES public.report_media(id) ON DELETE CASCADE,
+  report_id uuid NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  image_url text NOT NULL,
+  image_width integer CHECK (image_width > 0),
+  image_height integer CHECK (image_height > 0),
+  -- rejected: the photo is unusable for training, e.g. blurred or not an issue at all
+  verdict text NOT NULL CHECK (verdict IN ('confirmed', 'corrected', 'rejected')),
+  -- What the model said at review time, kept even if the photo is analysed again
+  ai_category text,
+  ai_confidence real,
+  ai_model_version text,
+  label_category text,
+  -- [{ "label": "pothole", "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.2 }], fractions of the photo
+  boxes jsonb NOT NULL DEFAULT '[]',
+  reviewed_by uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (verdict = 'rejected' OR label_category IS NOT NULL)
+);
+
+CREATE INDEX labeled_examples_report_id_idx ON public.labeled_examples (report_id);
+
+ALTER TABLE public.labeled_examples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view labeled examples"
+ON public.labeled_examples
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can label examples"
+ON public.labeled_examples
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can relabel examples"
+ON public.labeled_examples
+FOR UPDATE
+TO authenticated
+USING (public.is_staff(auth.uid()))
+WITH CHECK (public.is_staff(auth.uid()));
+
+-- Photos waiting for review: unreviewed images the model scored below the threshold,
+-- or gave no score at all, least confident first
+CREATE OR REPLACE FUNCTION public.get_ai_review_queue(_max_confidence real DEFAULT 0.6, _limit integer DEFAULT 50)
+RETURNS TABLE (
+  media_id uuid,
+  report_id uuid,
+  url text,
+  ai_category text,
+  ai_confidence real,
+  ai_labels text[],
+  ai_model_version text,
+  report_category text,
+  report_status text,
+  description text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT m.id, m.report_id, m.url, m.ai_category, m.ai_confidence, m.ai_labels, m.ai_model_version,
+    r.category, r.status, r.description, m.created_at
+  FROM public.report_media m
+  JOIN public.reports r ON r.id = m.report_id
+  WHERE m.media_type = 'image'
+    AND r.status <> 'duplicate'
+    AND (m.ai_confidence IS NULL OR m.ai_confidence < _max_confidence)
+    AND NOT EXISTS (SELECT 1 FROM public.labeled_examples e WHERE e.media_id = m.id)
+  ORDER BY m.ai_confidence ASC NULLS FIRST, m.created_at
+  LIMIT _limit;
+$$;
@@ -0,0 +1,48 @@
+-- Reviews of photos picked at random, whatever the model's confidence. Only these give
+-- an unbiased measure of the model; the rest of the queue is its low-confidence photos.
+ALTER TABLE public.labeled_examples ADD COLUMN spot_check boolean NOT NULL DEFAULT false;
+
+DROP FUNCTION public.get_ai_review_queue(real, integer);
+
+-- The low-confidence queue plus a fixed share of classified photos picked by hashing
+-- their id, so the same photos stay picked between loads. Spot checks come first.
+CREATE OR REPLACE FUNCTION public.get_ai_review_queue(
+  _max_confidence real DEFAULT 0.6,
+  _limit integer DEFAULT 50,
+  _spot_check_percent integer DEFAULT 10
+)
+RETURNS TABLE (
+  media_id uuid,
+  report_id uuid,
+  url text,
+  ai_category text,
+  ai_confidence real,
+  ai_labels text[],
+  ai_model_version text,
+  report_category text,
+  report_status text,
+  description text,
+  created_at timestamptz,
+  spot_check boolean
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT q.* FROM (
+    SELECT m.id, m.report_id, m.url, m.ai_category, m.ai_confidence, m.ai_labels, m.ai_model_version,
+      r.category, r.status, r.description, m.created_at,
+      (m.ai_category IS NOT NULL
+        AND m.ai_model_version IS NOT NULL
+        AND m.ai_model_version <> 'unavailable'
+        AND mod(abs(hashtext(m.id::text)::bigint), 100) < _spot_check_percent) AS spot_check
+    FROM public.report_media m
+    JOIN public.reports r ON r.id = m.report_id
+    WHERE m.media_type = 'image'
+      AND r.status <> 'duplicate'
+      AND NOT EXISTS (SELECT 1 FROM public.labeled_examples e WHERE e.media_id = m.id)
+  ) q
+  WHERE q.spot_check OR q.ai_confidence IS NULL OR q.ai_confidence < _max_confidence
+  ORDER BY q.spot_check DESC, q.ai_confidence ASC NULLS FIRST, q.created_at
+  LIMIT _limit;
+$$;
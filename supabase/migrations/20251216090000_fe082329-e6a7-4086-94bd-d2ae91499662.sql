@@ -0,0 +1,5 @@
+-- Set by the browser before a report is first sent. A retry after a lost response
+-- finds the report already filed under the same id instead of filing it twice.
+ALTER TABLE public.reports ADD COLUMN client_id uuid;
+
+CREATE UNIQUE INDEX reports_client_id_key ON public.reports (client_id);
@@ -1,18 +1,43 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+const DEFAULT_ONNX_MODEL_URL = "/models/civic-detector.onnx";
+
+// The onnx detection provider needs a model the repo does not ship. Stop here rather
+// than have every report fail with a 404 once the app is running.
+const checkOnnxModel = (env: Record<string, string>) => {
+  const providers = [env.VITE_DETECTION_PROVIDER, env.VITE_DETECTION_FALLBACK];
+  if (!providers.includes("onnx")) return;
+
+  const modelUrl = env.VITE_ONNX_MODEL_URL || DEFAULT_ONNX_MODEL_URL;
+  // Models hosted elsewhere cannot be checked from here
+  if (!modelUrl.startsWith("/")) return;
+
+  if (!fs.existsSync(path.resolve(__dirname, "public", `.${modelUrl}`))) {
+    throw new Error(
+      `The onnx detection provider is configured but public${modelUrl} does not exist. ` +
+        "Add the model as described in public/models/README.md, or set VITE_ONNX_MODEL_URL."
+    );
+  }
+};
+
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-  },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  checkOnnxModel(loadEnv(mode, process.cwd(), "VITE_"));
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+    },
+    plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});